@@ -2,11 +2,37 @@
 
 import {
   McpServer,
+  ResourceTemplate,
+  ToolCallback,
 } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { z } from "zod";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape } from "zod";
 import { DatabaseService } from "./services/database.js";
-import { DatabaseConfig, DatabaseConnectionConfig, DatabaseType } from "./types/database.js";
+import { ConnectionRegistry, DEFAULT_CONNECTION_NAME } from "./services/connections.js";
+import { DatabaseConfig, DatabaseConnectionConfig, PoolOptions } from "./types/database.js";
+import { ResultPager } from "./services/pager.js";
+import { DataImporter } from "./services/importer.js";
+import { QueryParams } from "./types/sql.js";
+import { ExportPage } from "./types/results.js";
+import { ConflictMode, CsvOptions, ExportFormat, ExportOptions, TabularFormat } from "./types/export.js";
+import { ImportErrorMode, ImportOptions } from "./types/import.js";
+import { FirestoreQuery } from "./types/firestore.js";
+import { ProfileStore } from "./services/profiles.js";
+import {
+  FUNCTION_URI_TEMPLATE,
+  SchemaResources,
+  TABLE_URI_TEMPLATE,
+  TRIGGER_URI_TEMPLATE,
+} from "./services/schemaResources.js";
+import { SchemaPrompts } from "./services/schemaPrompts.js";
+import { classifySql } from "./utils/sql.js";
+import { AuditLog } from "./services/auditLog.js";
+import { captureSnapshot, readSnapshotFile, writeSnapshotFile } from "./services/schemaSnapshot.js";
+import { DiffSide, diffSchemas } from "./services/schemaDiff.js";
+import { writeFile } from "node:fs/promises";
+import { containsRedaction, redactQuery, redactText, redactValue } from "./utils/redact.js";
 
 // Create an MCP server
 const server = new McpServer({
@@ -15,11 +41,182 @@ const server = new McpServer({
   description: "Database Explorer MCP Tool",
 });
 
-// Initialize database service as null
-let dbService: DatabaseService | null = null;
+// Tells clients to re-list resources; fails harmlessly before a client is connected
+function notifyResourceListChanged() {
+  server.server.sendResourceListChanged().catch(() => undefined);
+}
+
+// Registry of named database connections
+const connections = new ConnectionRegistry(notifyResourceListChanged);
+
+// Reads a positive integer setting from the environment, failing at startup on anything else
+function positiveIntegerEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    console.error(`${name} must be a positive integer, got "${raw}"`);
+    process.exit(1);
+  }
+  return value;
+}
+
+// Server-wide result budget for query and export tools
+const resultPager = new ResultPager(connections, {
+  maxRows: positiveIntegerEnv("DB_MCP_MAX_ROWS", 1000),
+  maxBytes: positiveIntegerEnv("DB_MCP_MAX_BYTES", 100000),
+});
+
+// Renders an export page as SQL or formatted rows followed by its pagination metadata
+function exportPageContent(page: ExportPage) {
+  const { lines, ...info } = page;
+  return [
+    { type: "text" as const, text: lines.join('\n') },
+    { type: "text" as const, text: JSON.stringify(info, null, 2) },
+  ];
+}
+
+// Builds the error response returned when no usable connection is found
+function connectionNotFound(name?: string) {
+  const text = name && !connections.has(name)
+    ? `Connection "${name}" not found. Use !connections to list open connections.`
+    : "You must connect to a database first!";
+  return {
+    content: [{ type: "text" as const, text }],
+    isError: true,
+  };
+}
+
+// Server-wide read-only mode; connections can only add read-only, never lift it
+const defaultReadOnly = process.argv.includes('--read-only') || process.env.DB_MCP_READ_ONLY === 'true';
+
+// Connection profiles from the --config file (or DB_MCP_CONFIG) and the environment
+const configFlag = process.argv.indexOf('--config');
+const configPath = configFlag >= 0 ? process.argv[configFlag + 1] : process.env.DB_MCP_CONFIG;
+let profiles: ProfileStore;
+try {
+  profiles = ProfileStore.load(configPath, process.env);
+} catch (error: unknown) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+// Audit log of tool calls, appended to the --audit-log file (or DB_MCP_AUDIT_LOG) when one is given
+const auditFlag = process.argv.indexOf('--audit-log');
+const auditLog = new AuditLog((auditFlag >= 0 ? process.argv[auditFlag + 1] : process.env.DB_MCP_AUDIT_LOG) || null);
+
+// Rows returned or affected, read back from the JSON of a tool result
+function resultRowCount(result: CallToolResult): number | null {
+  if (result.isError) return null;
+  for (const item of result.content) {
+    if (item.type !== "text") continue;
+    try {
+      const value = JSON.parse(item.text);
+      if (Array.isArray(value)) return value.length;
+      if (typeof value?.rowCount === "number") return value.rowCount;
+      if (typeof value?.affectedRows === "number") return value.affectedRows;
+    } catch {
+      // Not JSON, such as exported SQL
+    }
+  }
+  return null;
+}
+
+// Tools that open a connection, which the registry makes the active one
+const CONNECTING_TOOLS = new Set(["!pg", "!mysql", "!sqlite", "!firestore", "!open-snapshot", "!connect"]);
+
+// Runs one tool call and appends it to the audit log, whether it succeeds or fails
+async function auditCall(
+  tool: string,
+  args: Record<string, any>,
+  run: () => Promise<CallToolResult>,
+  rerunOf?: number
+): Promise<CallToolResult> {
+  const { query, params, ...rest } = args;
+  // Connection tools take the alias as name and the settings as connection
+  const alias: string | undefined = typeof rest.connection === "string" ? rest.connection : undefined;
+  if (alias !== undefined) delete rest.connection;
+  const connection: string | null = alias ?? rest.name ?? connections.active;
+  // A new connection is recorded under the alias it was given, which may be a default; a failed one under the requested name
+  const connectionOf = (result: CallToolResult | null): string | null => {
+    if (!CONNECTING_TOOLS.has(tool)) return connection ?? connections.active;
+    return result && !result.isError ? connections.active : rest.name ?? null;
+  };
+  const started = Date.now();
+  const record = (result: CallToolResult | null, error?: string) => auditLog.record({
+    timestamp: new Date(started).toISOString(),
+    tool,
+    connection: connectionOf(result),
+    ...(typeof query === "string" && redactQuery(query, params)),
+    arguments: redactValue(rest) as Record<string, unknown>,
+    durationMillis: Date.now() - started,
+    rowCount: result ? resultRowCount(result) : null,
+    ...(error !== undefined && { error: redactText(error) }),
+    ...(rerunOf !== undefined && { rerunOf }),
+  });
+
+  try {
+    const result = await run();
+    const [first] = result.content;
+    await record(result, result.isError ? (first?.type === "text" ? first.text : "Unknown error") : undefined);
+    return result;
+  } catch (error: unknown) {
+    await record(null, error instanceof Error ? error.message : 'Unknown error');
+    throw error;
+  }
+}
+
+// Registers a tool whose calls are recorded in the audit log
+function auditedTool<Args extends ZodRawShape>(name: string, paramsSchema: Args, handler: ToolCallback<Args>) {
+  const run = handler as (args: Record<string, any>, extra: unknown) => CallToolResult | Promise<CallToolResult>;
+  server.tool(name, paramsSchema, (async (args: Record<string, any>, extra: unknown) =>
+    auditCall(name, args, async () => run(args, extra))) as ToolCallback<Args>);
+}
+
+// Optional connection alias; data tools fall back to the active connection
+const connectionNameSchema = z.string().optional();
+
+// Optional schema for introspection and export tools, defaults to the connection's default schema
+const schemaNameSchema = z.string().optional();
+
+// Optional per-call budget, capped by the server-wide limits
+const maxRowsSchema = z.number().int().positive().optional();
+const maxBytesSchema = z.number().int().positive().optional();
+
+// Bind values for !query: an array for $1/? placeholders or an object for :name placeholders
+const queryParamValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const queryParamsSchema = z.union([
+  z.array(queryParamValueSchema),
+  z.record(queryParamValueSchema),
+]);
+
+// Optional pool sizing and timeouts for SQL connections
+const poolOptionsSchema = z.object({
+  max: z.number().int().positive().optional(),
+  connectionTimeoutMillis: z.number().int().nonnegative().optional(),
+  idleTimeoutMillis: z.number().int().nonnegative().optional(),
+  statementTimeoutMillis: z.number().int().nonnegative().optional(),
+  healthCheckIntervalMillis: z.number().int().nonnegative().optional(),
+}).optional();
+
+// INSERT rendering for !export-data
+const batchSizeSchema = z.number().int().positive().max(10000).optional();
+const onConflictSchema = z.enum(["error", "ignore", "update"]).optional();
+
+// Output formats for !export-data and !export-query
+const tabularFormatSchema = z.enum(["csv", "jsonl", "markdown"]);
+const csvOptionsSchema = z.object({
+  header: z.boolean().optional(),
+  delimiter: z.string().length(1).optional(),
+  quote: z.enum(["minimal", "all"]).optional(),
+}).optional();
 
 // Define connection schemas for each database type
 const postgresConnectionSchema = {
+  name: connectionNameSchema,
+  readOnly: z.boolean().optional(),
+  defaultSchema: z.string().optional(),
+  pool: poolOptionsSchema,
   connection: z.object({
     host: z.string(),
     port: z.number().optional(),
@@ -30,6 +227,10 @@ const postgresConnectionSchema = {
 };
 
 const mysqlConnectionSchema = {
+  name: connectionNameSchema,
+  readOnly: z.boolean().optional(),
+  defaultSchema: z.string().optional(),
+  pool: poolOptionsSchema,
   connection: z.object({
     host: z.string(),
     port: z.number().optional(),
@@ -40,26 +241,43 @@ const mysqlConnectionSchema = {
 };
 
 const firestoreConnectionSchema = {
+  name: connectionNameSchema,
+  readOnly: z.boolean().optional(),
   connection: z.object({
     projectId: z.string(),
-    keyFilename: z.string(),
+    // Optional against the emulator (FIRESTORE_EMULATOR_HOST) or with application default credentials
+    keyFilename: z.string().optional(),
+  }),
+};
+
+const sqliteConnectionSchema = {
+  name: connectionNameSchema,
+  readOnly: z.boolean().optional(),
+  defaultSchema: z.string().optional(),
+  connection: z.object({
+    filename: z.string().optional(),
+    memory: z.boolean().optional(),
   }),
 };
 
 // Add PostgreSQL connection tool
-server.tool(
+auditedTool(
   "!pg",
   postgresConnectionSchema,
-  async (args: { connection: DatabaseConnectionConfig }) => {
+  async (args: { name?: string; readOnly?: boolean; defaultSchema?: string; pool?: PoolOptions; connection: DatabaseConnectionConfig }) => {
     try {
       const config: DatabaseConfig = {
         type: 'postgres',
-        connection: args.connection
+        connection: args.connection,
+        readOnly: defaultReadOnly || args.readOnly === true,
+        masking: profiles.masking,
+        defaultSchema: args.defaultSchema,
+        pool: args.pool,
       };
-      dbService = new DatabaseService(config);
-      await dbService.connect();
+      const name = args.name ?? DEFAULT_CONNECTION_NAME;
+      await connections.add(name, new DatabaseService(config));
       return {
-        content: [{ type: "text", text: "Successfully connected to PostgreSQL database!" }],
+        content: [{ type: "text", text: `Successfully connected to PostgreSQL database as "${name}"!` }],
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -72,19 +290,23 @@ server.tool(
 );
 
 // Add MySQL connection tool
-server.tool(
+auditedTool(
   "!mysql",
   mysqlConnectionSchema,
-  async (args: { connection: DatabaseConnectionConfig }) => {
+  async (args: { name?: string; readOnly?: boolean; defaultSchema?: string; pool?: PoolOptions; connection: DatabaseConnectionConfig }) => {
     try {
       const config: DatabaseConfig = {
         type: 'mysql',
-        connection: args.connection
+        connection: args.connection,
+        readOnly: defaultReadOnly || args.readOnly === true,
+        masking: profiles.masking,
+        defaultSchema: args.defaultSchema,
+        pool: args.pool,
       };
-      dbService = new DatabaseService(config);
-      await dbService.connect();
+      const name = args.name ?? DEFAULT_CONNECTION_NAME;
+      await connections.add(name, new DatabaseService(config));
       return {
-        content: [{ type: "text", text: "Successfully connected to MySQL database!" }],
+        content: [{ type: "text", text: `Successfully connected to MySQL database as "${name}"!` }],
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -97,19 +319,21 @@ server.tool(
 );
 
 // Add Firestore connection tool
-server.tool(
+auditedTool(
   "!firestore",
   firestoreConnectionSchema,
-  async (args: { connection: DatabaseConnectionConfig }) => {
+  async (args: { name?: string; readOnly?: boolean; connection: DatabaseConnectionConfig }) => {
     try {
       const config: DatabaseConfig = {
         type: 'firestore',
-        connection: args.connection
+        connection: args.connection,
+        readOnly: defaultReadOnly || args.readOnly === true,
+        masking: profiles.masking,
       };
-      dbService = new DatabaseService(config);
-      await dbService.connect();
+      const name = args.name ?? DEFAULT_CONNECTION_NAME;
+      await connections.add(name, new DatabaseService(config));
       return {
-        content: [{ type: "text", text: "Successfully connected to Firestore database!" }],
+        content: [{ type: "text", text: `Successfully connected to Firestore database as "${name}"!` }],
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -121,20 +345,137 @@ server.tool(
   }
 );
 
-// Add get tables tool
-server.tool(
-  "!tables",
-  {},
-  async () => {
+// Add SQLite connection tool
+auditedTool(
+  "!sqlite",
+  sqliteConnectionSchema,
+  async (args: { name?: string; readOnly?: boolean; defaultSchema?: string; connection: DatabaseConnectionConfig }) => {
+    try {
+      const config: DatabaseConfig = {
+        type: 'sqlite',
+        connection: args.connection,
+        readOnly: defaultReadOnly || args.readOnly === true,
+        masking: profiles.masking,
+        defaultSchema: args.defaultSchema,
+      };
+      const name = args.name ?? DEFAULT_CONNECTION_NAME;
+      await connections.add(name, new DatabaseService(config));
+      return {
+        content: [{ type: "text", text: `Successfully connected to SQLite database as "${name}"!` }],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `SQLite connection error: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add snapshot connection tool
+auditedTool(
+  "!open-snapshot",
+  {
+    path: z.string(),
+    name: connectionNameSchema,
+    defaultSchema: schemaNameSchema,
+  },
+  async (args: { path: string; name?: string; defaultSchema?: string }) => {
+    try {
+      const config: DatabaseConfig = {
+        type: 'snapshot',
+        connection: { filename: args.path },
+        readOnly: true,
+        defaultSchema: args.defaultSchema,
+      };
+      const name = args.name ?? DEFAULT_CONNECTION_NAME;
+      await connections.add(name, new DatabaseService(config));
+      return {
+        content: [{ type: "text", text: `Opened schema snapshot "${args.path}" as "${name}"!` }],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Snapshot connection error: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add profile connection tool
+auditedTool(
+  "!connect",
+  {
+    profile: z.string(),
+    name: connectionNameSchema,
+  },
+  async (args: { profile: string; name?: string }) => {
+    try {
+      const config = profiles.resolve(args.profile, defaultReadOnly);
+      const name = args.name ?? args.profile;
+      await connections.add(name, new DatabaseService(config));
+      return {
+        content: [{ type: "text", text: `Successfully connected to profile "${args.profile}" as "${name}"!` }],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Profile connection error: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add list schemas tool
+auditedTool(
+  "!schemas",
+  {
+    connection: connectionNameSchema,
+  },
+  async (args: { connection?: string }) => {
+    const dbService = connections.get(args.connection);
     if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const schemas = await dbService.getSchemas();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(schemas, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
-        content: [{ type: "text", text: "You must connect to a database first!" }],
+        content: [{ type: "text", text: `Failed to get schema information: ${errorMessage}` }],
         isError: true,
       };
     }
+  }
+);
+
+// Add get tables tool
+auditedTool(
+  "!tables",
+  {
+    schema: schemaNameSchema,
+    connection: connectionNameSchema,
+  },
+  async (args: { schema?: string; connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
 
     try {
-      const tables = await dbService.getTables();
+      const tables = await dbService.getTables(args.schema);
       return {
         content: [
           {
@@ -154,19 +495,20 @@ server.tool(
 );
 
 // Add get triggers tool
-server.tool(
+auditedTool(
   "!triggers",
-  {},
-  async () => {
+  {
+    schema: schemaNameSchema,
+    connection: connectionNameSchema,
+  },
+  async (args: { schema?: string; connection?: string }) => {
+    const dbService = connections.get(args.connection);
     if (!dbService) {
-      return {
-        content: [{ type: "text", text: "You must connect to a database first!" }],
-        isError: true,
-      };
+      return connectionNotFound(args.connection);
     }
 
     try {
-      const triggers = await dbService.getTriggers();
+      const triggers = await dbService.getTriggers(args.schema);
       return {
         content: [
           {
@@ -186,31 +528,117 @@ server.tool(
 );
 
 // Add get functions tool
-server.tool(
+auditedTool(
   "!functions",
-  {},
-  async () => {
+  {
+    schema: schemaNameSchema,
+    connection: connectionNameSchema,
+  },
+  async (args: { schema?: string; connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const functions = await dbService.getFunctions(args.schema);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(functions, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to get function information: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add describe table tool
+auditedTool(
+  "!describe",
+  {
+    table: z.string(),
+    schema: schemaNameSchema,
+    connection: connectionNameSchema,
+  },
+  async (args: { table: string; schema?: string; connection?: string }) => {
+    const dbService = connections.get(args.connection);
     if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const details = await dbService.describeTable(args.table, args.schema);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(details, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
-        content: [{ type: "text", text: "You must connect to a database first!" }],
+        content: [{ type: "text", text: `Failed to describe table: ${errorMessage}` }],
         isError: true,
       };
     }
+  }
+);
+
+// Add table profiling tool
+auditedTool(
+  "!profile",
+  {
+    table: z.string(),
+    schema: schemaNameSchema,
+    columns: z.array(z.string()).optional(),
+    sampleSize: z.number().int().positive().max(100000).optional(),
+    topValues: z.number().int().min(0).max(50).optional(),
+    histogramBuckets: z.number().int().min(0).max(50).optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: {
+    table: string;
+    schema?: string;
+    columns?: string[];
+    sampleSize?: number;
+    topValues?: number;
+    histogramBuckets?: number;
+    connection?: string;
+  }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
 
     try {
-      const functions = await dbService.getFunctions();
+      const profile = await dbService.profileTable(args.table, args.schema, {
+        columns: args.columns,
+        sampleSize: args.sampleSize,
+        topValues: args.topValues,
+        histogramBuckets: args.histogramBuckets,
+      });
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(functions, null, 2),
+            text: JSON.stringify(profile, null, 2),
           },
         ],
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
-        content: [{ type: "text", text: `Failed to get function information: ${errorMessage}` }],
+        content: [{ type: "text", text: `Failed to profile table: ${errorMessage}` }],
         isError: true,
       };
     }
@@ -218,113 +646,1065 @@ server.tool(
 );
 
 // Add query execution tool
-server.tool(
+auditedTool(
   "!query",
   {
     query: z.string(),
+    params: queryParamsSchema.optional(),
+    maxRows: maxRowsSchema,
+    maxBytes: maxBytesSchema,
+    connection: connectionNameSchema,
+  },
+  async (args: { query: string; params?: QueryParams; maxRows?: number; maxBytes?: number; connection?: string }) =>
+    runQuery(args)
+);
+
+// Runs !query, and !history when it re-runs an earlier query
+async function runQuery(args: { query: string; params?: QueryParams; maxRows?: number; maxBytes?: number; connection?: string }): Promise<CallToolResult> {
+  const dbService = connections.get(args.connection);
+  if (!dbService) {
+    return connectionNotFound(args.connection);
+  }
+
+  try {
+    const results = await resultPager.query(
+      dbService,
+      connections.resolveName(args.connection)!,
+      args.query,
+      args.params,
+      resultPager.limits(args)
+    );
+    // Created, altered or dropped objects change the resource list
+    if (dbService.dialect
+      && classifySql(args.query, dbService.dialect).statements.some(statement => statement.kind === "ddl")) {
+      notifyResourceListChanged();
+    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(results, null, 2),
+        },
+      ],
+    };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return {
+      content: [{ type: "text", text: `Failed to execute query: ${errorMessage}` }],
+      isError: true,
+    };
+  }
+}
+
+// Add explain tool
+auditedTool(
+  "!explain",
+  {
+    query: z.string(),
+    params: queryParamsSchema.optional(),
+    analyze: z.boolean().optional(),
+    connection: connectionNameSchema,
   },
-  async (args: { query: string }) => {
+  async (args: { query: string; params?: QueryParams; analyze?: boolean; connection?: string }) => {
+    const dbService = connections.get(args.connection);
     if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const plan = await dbService.explainQuery(args.query, args.params, args.analyze);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(plan, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
-        content: [{ type: "text", text: "You must connect to a database first!" }],
+        content: [{ type: "text", text: `Failed to explain query: ${errorMessage}` }],
         isError: true,
       };
     }
+  }
+);
+
+// Add begin transaction tool
+auditedTool(
+  "!begin",
+  {
+    savepoint: z.string().optional(),
+    dryRun: z.boolean().optional(),
+    idleTimeoutMillis: z.number().int().positive().optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: { savepoint?: string; dryRun?: boolean; idleTimeoutMillis?: number; connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
 
     try {
-      const results = await dbService.executeQuery(args.query);
+      // With a savepoint name, marks a point inside the open transaction instead
+      const status = args.savepoint
+        ? await dbService.setSavepoint(args.savepoint)
+        : await dbService.beginTransaction({ dryRun: args.dryRun, idleTimeoutMillis: args.idleTimeoutMillis });
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(results, null, 2),
+            text: JSON.stringify(status, null, 2),
           },
         ],
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
-        content: [{ type: "text", text: `Failed to execute query: ${errorMessage}` }],
+        content: [{ type: "text", text: `Failed to begin transaction: ${errorMessage}` }],
         isError: true,
       };
     }
   }
 );
 
-// Add export schema tool
-server.tool(
-  "!export-db",
+// Add commit transaction tool
+auditedTool(
+  "!commit",
   {
-    table: z.string(),
+    savepoint: z.string().optional(),
+    connection: connectionNameSchema,
   },
-  async (args: { table: string }) => {
+  async (args: { savepoint?: string; connection?: string }) => {
+    const dbService = connections.get(args.connection);
     if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const result = args.savepoint
+        ? await dbService.releaseSavepoint(args.savepoint)
+        : await dbService.commitTransaction();
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
-        content: [{ type: "text", text: "You must connect to a database first!" }],
+        content: [{ type: "text", text: `Failed to commit transaction: ${errorMessage}` }],
         isError: true,
       };
     }
+  }
+);
+
+// Add rollback transaction tool
+auditedTool(
+  "!rollback",
+  {
+    savepoint: z.string().optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: { savepoint?: string; connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
 
     try {
-      const schema = await dbService.exportTableSchema(args.table);
+      const result = args.savepoint
+        ? await dbService.rollbackToSavepoint(args.savepoint)
+        : await dbService.rollbackTransaction();
       return {
         content: [
           {
             type: "text",
-            text: schema,
+            text: JSON.stringify(result, null, 2),
           },
         ],
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
-        content: [{ type: "text", text: `Failed to export table schema: ${errorMessage}` }],
+        content: [{ type: "text", text: `Failed to roll back transaction: ${errorMessage}` }],
         isError: true,
       };
     }
   }
 );
 
-// Add export data tool
-server.tool(
-  "!export-data",
+// Add export schema tool
+auditedTool(
+  "!export-db",
   {
     table: z.string(),
+    schema: schemaNameSchema,
+    connection: connectionNameSchema,
   },
-  async (args: { table: string }) => {
+  async (args: { table: string; schema?: string; connection?: string }) => {
+    const dbService = connections.get(args.connection);
     if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const schema = await dbService.exportTableSchema(args.table, args.schema);
+      return {
+        content: [
+          {
+            type: "text",
+            text: schema,
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
-        content: [{ type: "text", text: "You must connect to a database first!" }],
+        content: [{ type: "text", text: `Failed to export table schema: ${errorMessage}` }],
         isError: true,
       };
     }
+  }
+);
+
+// Add export schema tool
+auditedTool(
+  "!export-schema",
+  {
+    schema: schemaNameSchema,
+    connection: connectionNameSchema,
+  },
+  async (args: { schema?: string; connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
 
     try {
-      const data = await dbService.exportTableData(args.table);
+      const ddl = await dbService.exportDatabaseSchema(args.schema);
       return {
         content: [
           {
             type: "text",
-            text: data,
+            text: ddl,
           },
         ],
       };
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
-        content: [{ type: "text", text: `Failed to export table data: ${errorMessage}` }],
+        content: [{ type: "text", text: `Failed to export database schema: ${errorMessage}` }],
         isError: true,
       };
     }
   }
 );
 
-// Start receiving messages on stdin and sending messages on stdout
-const transport = new StdioServerTransport();
+// One side of !schema-diff: a connection or a snapshot file
+const schemaDiffSideSchema = z.object({
+  connection: connectionNameSchema,
+  snapshot: z.string().optional(),
+  schema: schemaNameSchema,
+});
 
-// Handle errors
-process.on('uncaughtException', (error) => {
-  console.error('Uncaught Exception:', error);
+async function schemaDiffSide(side: { connection?: string; snapshot?: string; schema?: string }): Promise<DiffSide> {
+  if (side.snapshot !== undefined) {
+    const snapshot = await readSnapshotFile(side.snapshot);
+    const name = side.schema ?? snapshot.defaultSchema;
+    const schema = snapshot.schemas.find(candidate => candidate.name === name);
+    if (!schema) {
+      throw new Error(`Schema "${name}" not found in snapshot "${side.snapshot}"`);
+    }
+    return { label: side.snapshot, dialect: snapshot.dialect, schema };
+  }
+
+  const dbService = connections.get(side.connection);
+  if (!dbService) {
+    throw new Error(side.connection ? `Connection "${side.connection}" not found` : "You must connect to a database first!");
+  }
+  const snapshot = await captureSnapshot(dbService, side.schema ? [side.schema] : undefined);
+  return { label: connections.resolveName(side.connection)!, dialect: snapshot.dialect, schema: snapshot.schemas[0] };
+}
+
+// Add schema diff tool
+auditedTool(
+  "!schema-diff",
+  {
+    from: schemaDiffSideSchema,
+    to: schemaDiffSideSchema,
+    outputPath: z.string().optional(),
+  },
+  async (args: {
+    from: { connection?: string; snapshot?: string; schema?: string };
+    to: { connection?: string; snapshot?: string; schema?: string };
+    outputPath?: string;
+  }) => {
+    try {
+      const [from, to] = await Promise.all([schemaDiffSide(args.from), schemaDiffSide(args.to)]);
+      const diff = diffSchemas(from, to);
+      if (args.outputPath) {
+        await writeFile(args.outputPath, diff.migration ? `${diff.migration}\n` : '');
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(args.outputPath ? { ...diff, migration: args.outputPath } : diff, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to compare schemas: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add schema snapshot tool
+auditedTool(
+  "!snapshot",
+  {
+    outputPath: z.string(),
+    schemas: z.array(z.string()).optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: { outputPath: string; schemas?: string[]; connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const schemas = args.schemas ?? (await dbService.getSchemas()).map(schema => schema.name);
+      const snapshot = await captureSnapshot(dbService, schemas);
+      await writeSnapshotFile(args.outputPath, snapshot);
+      const summary = {
+        path: args.outputPath,
+        version: snapshot.version,
+        dialect: snapshot.dialect,
+        capturedAt: snapshot.capturedAt,
+        schemas: snapshot.schemas.map(schema => ({
+          name: schema.name,
+          tables: schema.tables.length,
+          triggers: schema.triggers.length,
+          functions: schema.functions.length,
+        })),
+      };
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(summary, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to write snapshot: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add export data tool
+auditedTool(
+  "!export-data",
+  {
+    table: z.string(),
+    schema: schemaNameSchema,
+    maxRows: maxRowsSchema,
+    maxBytes: maxBytesSchema,
+    format: z.enum(["sql", "csv", "jsonl", "markdown"]).optional(),
+    csv: csvOptionsSchema,
+    batchSize: batchSizeSchema,
+    onConflict: onConflictSchema,
+    outputPath: z.string().optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: {
+    table: string;
+    schema?: string;
+    maxRows?: number;
+    maxBytes?: number;
+    format?: ExportFormat;
+    csv?: Partial<CsvOptions>;
+    batchSize?: number;
+    onConflict?: ConflictMode;
+    outputPath?: string;
+    connection?: string;
+  }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    const options: ExportOptions = {
+      format: args.format,
+      csv: args.csv,
+      insert: { batchSize: args.batchSize, onConflict: args.onConflict },
+    };
+    try {
+      // Files receive the whole table, so the result budget does not apply
+      if (args.outputPath) {
+        const result = await dbService.exportTableDataToFile(args.table, args.schema, args.outputPath, options);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      const page = await resultPager.exportData(
+        dbService,
+        connections.resolveName(args.connection)!,
+        args.table,
+        args.schema,
+        resultPager.limits(args),
+        0,
+        options
+      );
+      return {
+        content: exportPageContent(page),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to export table data: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add export query tool
+auditedTool(
+  "!export-query",
+  {
+    query: z.string(),
+    params: queryParamsSchema.optional(),
+    format: tabularFormatSchema,
+    csv: csvOptionsSchema,
+    maxRows: maxRowsSchema,
+    maxBytes: maxBytesSchema,
+    outputPath: z.string().optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: {
+    query: string;
+    params?: QueryParams;
+    format: TabularFormat;
+    csv?: Partial<CsvOptions>;
+    maxRows?: number;
+    maxBytes?: number;
+    outputPath?: string;
+    connection?: string;
+  }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      if (args.outputPath) {
+        const result = await dbService.exportQueryToFile(args.query, args.params, args.outputPath, args.format, args.csv);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
+      const page = await resultPager.exportQuery(
+        dbService,
+        connections.resolveName(args.connection)!,
+        args.query,
+        args.params,
+        args.format,
+        args.csv,
+        resultPager.limits(args)
+      );
+      return {
+        content: exportPageContent(page),
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to export query result: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add import data tool
+auditedTool(
+  "!import-data",
+  {
+    path: z.string(),
+    table: z.string(),
+    schema: schemaNameSchema,
+    format: z.enum(["csv", "jsonl"]).optional(),
+    csv: csvOptionsSchema,
+    columns: z.array(z.string()).optional(),
+    columnMap: z.record(z.string()).optional(),
+    batchSize: batchSizeSchema,
+    onError: z.enum(["abort", "skip"]).optional(),
+    nullValue: z.string().optional(),
+    idField: z.string().optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: ImportOptions & { connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const { connection, ...options } = args;
+      const report = await new DataImporter(dbService).importFile(options);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+        isError: report.aborted,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to import data: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add Firestore document tool
+auditedTool(
+  "!fs-get",
+  {
+    path: z.string(),
+    connection: connectionNameSchema,
+  },
+  async (args: { path: string; connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const document = await dbService.firestore.getDocument(args.path);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(document, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to get document: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add Firestore collections tool
+auditedTool(
+  "!fs-collections",
+  {
+    path: z.string().optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: { path?: string; connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const collections = await dbService.firestore.listCollections(args.path);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(collections, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to list collections: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add Firestore query tool
+auditedTool(
+  "!fs-query",
+  {
+    collection: z.string(),
+    collectionGroup: z.boolean().optional(),
+    where: z.array(z.object({
+      field: z.string(),
+      op: z.enum(["<", "<=", "==", "!=", ">=", ">", "array-contains", "in", "not-in", "array-contains-any"]),
+      value: z.any(),
+    })).optional(),
+    orderBy: z.array(z.object({
+      field: z.string(),
+      direction: z.enum(["asc", "desc"]).optional(),
+    })).optional(),
+    limit: z.number().int().positive().optional(),
+    startAfter: z.string().optional(),
+    select: z.array(z.string()).optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: FirestoreQuery & { connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const { connection, ...query } = args;
+      const result = await dbService.firestore.query(query, resultPager.limits().maxRows);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to query documents: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add Firestore schema inference tool
+auditedTool(
+  "!fs-schema",
+  {
+    collection: z.string(),
+    sampleSize: z.number().int().positive().max(10000).optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: { collection: string; sampleSize?: number; connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const columns = await dbService.firestore.inferSchema(args.collection, args.sampleSize);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(columns, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to infer schema: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add Firestore collection export tool
+auditedTool(
+  "!fs-export",
+  {
+    collection: z.string(),
+    outputPath: z.string(),
+    recursive: z.boolean().optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: { collection: string; outputPath: string; recursive?: boolean; connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const result = await dbService.firestore.exportCollection(args.collection, args.outputPath, args.recursive);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to export collection: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add Firestore collection import tool
+auditedTool(
+  "!fs-import",
+  {
+    path: z.string(),
+    collection: z.string(),
+    batchSize: z.number().int().positive().max(500).optional(),
+    onError: z.enum(["abort", "skip"]).optional(),
+    connection: connectionNameSchema,
+  },
+  async (args: { path: string; collection: string; batchSize?: number; onError?: ImportErrorMode; connection?: string }) => {
+    const dbService = connections.get(args.connection);
+    if (!dbService) {
+      return connectionNotFound(args.connection);
+    }
+
+    try {
+      const report = await dbService.firestore.importCollection(args.path, args.collection, {
+        batchSize: args.batchSize,
+        onError: args.onError,
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(report, null, 2),
+          },
+        ],
+        isError: report.aborted,
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to import collection: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add next page tool
+auditedTool(
+  "!next-page",
+  {
+    cursor: z.string(),
+  },
+  async (args: { cursor: string }) => {
+    try {
+      const page = await resultPager.next(args.cursor);
+      if ('lines' in page) {
+        return {
+          content: exportPageContent(page),
+        };
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(page, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to fetch next page: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add list connections tool
+auditedTool(
+  "!connections",
+  {},
+  async () => {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(connections.list(), null, 2),
+        },
+      ],
+    };
+  }
+);
+
+// Add connection status tool
+auditedTool(
+  "!status",
+  {
+    connection: connectionNameSchema,
+  },
+  async (args: { connection?: string }) => {
+    try {
+      const status = await connections.status(args.connection);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(status, null, 2),
+          },
+        ],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to get connection status: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add switch active connection tool
+auditedTool(
+  "!use",
+  {
+    name: z.string(),
+  },
+  async (args: { name: string }) => {
+    try {
+      connections.use(args.name);
+      return {
+        content: [{ type: "text", text: `Active connection is now "${args.name}"` }],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to switch connection: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add close connection tool
+auditedTool(
+  "!disconnect",
+  {
+    name: z.string(),
+  },
+  async (args: { name: string }) => {
+    try {
+      await connections.remove(args.name);
+      return {
+        content: [{ type: "text", text: `Connection "${args.name}" closed` }],
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to close connection: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Add query history tool; not audited itself, but the queries it re-runs are
+server.tool(
+  "!history",
+  {
+    connection: connectionNameSchema,
+    tool: z.string().optional(),
+    search: z.string().optional(),
+    errorsOnly: z.boolean().optional(),
+    limit: z.number().int().positive().max(1000).optional(),
+    rerun: z.number().int().positive().optional(),
+    maxRows: maxRowsSchema,
+    maxBytes: maxBytesSchema,
+  },
+  async (args: {
+    connection?: string;
+    tool?: string;
+    search?: string;
+    errorsOnly?: boolean;
+    limit?: number;
+    rerun?: number;
+    maxRows?: number;
+    maxBytes?: number;
+  }) => {
+    try {
+      if (args.rerun === undefined) {
+        const entries = await auditLog.list(args);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(entries, null, 2),
+            },
+          ],
+        };
+      }
+
+      const entry = await auditLog.get(args.rerun);
+      if (entry.tool !== "!query" || entry.statement === undefined) {
+        throw new Error(`History entry ${entry.id} is a ${entry.tool} call; only !query entries can be re-run`);
+      }
+      if (containsRedaction(entry.statement) || containsRedaction(entry.params)) {
+        throw new Error(`History entry ${entry.id} contains redacted secrets and cannot be re-run`);
+      }
+      // Runs where the query first ran unless another connection is named
+      const queryArgs = {
+        query: entry.statement,
+        params: entry.params as QueryParams | undefined,
+        maxRows: args.maxRows,
+        maxBytes: args.maxBytes,
+        connection: args.connection ?? entry.connection ?? undefined,
+      };
+      return await auditCall("!query", queryArgs, () => runQuery(queryArgs), entry.id);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        content: [{ type: "text", text: `Failed to read query history: ${errorMessage}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Expose schema objects of SQL connections as resources
+const schemaResources = new SchemaResources(connections);
+const completeConnection = (value: string) =>
+  schemaResources.connectionNames().filter(name => name.startsWith(value));
+
+server.resource(
+  "table",
+  new ResourceTemplate(TABLE_URI_TEMPLATE, {
+    list: async () => ({ resources: await schemaResources.list() }),
+    complete: { connection: completeConnection },
+  }),
+  // No description here: template metadata would replace the per-table column summary
+  { mimeType: "application/json" },
+  async (uri, variables) => ({
+    contents: [await schemaResources.readTable(variables, uri.href)],
+  })
+);
+
+server.resource(
+  "function",
+  new ResourceTemplate(FUNCTION_URI_TEMPLATE, {
+    list: undefined,
+    complete: { connection: completeConnection },
+  }),
+  { description: "Definition of a function and its overloads", mimeType: "application/json" },
+  async (uri, variables) => ({
+    contents: [await schemaResources.readFunction(variables, uri.href)],
+  })
+);
+
+server.resource(
+  "trigger",
+  new ResourceTemplate(TRIGGER_URI_TEMPLATE, {
+    list: undefined,
+    complete: { connection: completeConnection },
+  }),
+  { description: "Events, timing and statement of a trigger", mimeType: "application/json" },
+  async (uri, variables) => ({
+    contents: [await schemaResources.readTrigger(variables, uri.href)],
+  })
+);
+
+server.server.registerCapabilities({ resources: { listChanged: true } });
+
+// Prompt templates grounded in the live schema of a SQL connection
+const schemaPrompts = new SchemaPrompts(connections);
+const promptConnection = completable(
+  z.string(),
+  (value) => schemaResources.connectionNames().filter(name => name.startsWith(value))
+).optional().describe("Connection name; defaults to the active connection");
+const promptTable = completable(
+  z.string().describe("Table name"),
+  async (value) => (await schemaPrompts.tableNames().catch(() => [])).filter(name => name.startsWith(value))
+);
+const promptSchema = z.string().optional().describe("Schema name; defaults to the connection's default schema");
+
+function promptMessage(text: string) {
+  return {
+    messages: [{ role: "user" as const, content: { type: "text" as const, text } }],
+  };
+}
+
+server.prompt(
+  "explain-table",
+  "Explain what a table stores and how it relates to the rest of the schema",
+  { table: promptTable, schema: promptSchema, connection: promptConnection },
+  async (args) => promptMessage(await schemaPrompts.explainTable(args.table, args.schema, args.connection))
+);
+
+server.prompt(
+  "write-query",
+  "Write a SQL query for a request using the tables of a schema",
+  {
+    request: z.string().describe("What the query should return or do"),
+    schema: promptSchema,
+    connection: promptConnection,
+  },
+  async (args) => promptMessage(await schemaPrompts.writeQuery(args.request, args.schema, args.connection))
+);
+
+server.prompt(
+  "review-migration",
+  "Review a migration against the current definitions of the tables it touches",
+  {
+    migration: z.string().describe("SQL of the migration"),
+    schema: promptSchema,
+    connection: promptConnection,
+  },
+  async (args) => promptMessage(await schemaPrompts.reviewMigration(args.migration, args.schema, args.connection))
+);
+
+server.prompt(
+  "data-quality",
+  "Find data quality issues in a table",
+  { table: promptTable, schema: promptSchema, connection: promptConnection },
+  async (args) => promptMessage(await schemaPrompts.findDataQualityIssues(args.table, args.schema, args.connection))
+);
+
+// Start receiving messages on stdin and sending messages on stdout
+const transport = new StdioServerTransport();
+
+// Handle errors
+process.on('uncaughtException', (error) => {
+  console.error('Uncaught Exception:', error);
   process.exit(1);
 });
 
@@ -333,5 +1713,23 @@ process.on('unhandledRejection', (reason, promise) => {
   process.exit(1);
 });
 
+// Close open connections on shutdown
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, async () => {
+    await connections.closeAll();
+    process.exit(0);
+  });
+}
+
+// Connect the default profile; the server still starts if it fails
+if (profiles.defaultProfile) {
+  try {
+    await connections.add(profiles.defaultProfile, new DatabaseService(profiles.resolve(profiles.defaultProfile, defaultReadOnly)));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Failed to connect default profile "${profiles.defaultProfile}": ${errorMessage}`);
+  }
+}
+
 // Connect the server
 await server.connect(transport);
@@ -0,0 +1,145 @@
+import { AccessPolicy, AccessRules } from '../types/access.js';
+import { TableDetails, TableInfo } from '../types/database.js';
+import { SqlRelation } from '../types/sql.js';
+import { globPattern } from '../utils/glob.js';
+
+interface CompiledPattern {
+    pattern: RegExp;
+    // Dots in the pattern, which decide how much of the qualified name it is matched against
+    depth: number;
+}
+
+interface CompiledRules {
+    schemas: CompiledPattern[] | null;
+    tables: CompiledPattern[] | null;
+    columns: CompiledPattern[] | null;
+}
+
+function compile(rules: AccessRules | undefined): CompiledRules {
+    const patterns = (globs: string[] | undefined) => globs?.map(glob => ({ pattern: globPattern(glob), depth: glob.split('.').length - 1 })) ?? null;
+    return { schemas: patterns(rules?.schemas), tables: patterns(rules?.tables), columns: patterns(rules?.columns) };
+}
+
+// Tries the pattern against the part of the qualified name its depth asks for
+function matches(patterns: CompiledPattern[], parts: (string | undefined)[]): boolean {
+    return patterns.some(({ pattern, depth }) => {
+        const tail = parts.slice(parts.length - 1 - depth);
+        return tail.length === depth + 1 && tail.every(part => part !== undefined) && pattern.test(tail.join('.'));
+    });
+}
+
+function relationName(relation: SqlRelation): string {
+    return relation.schema ? `${relation.schema}.${relation.name}` : relation.name;
+}
+
+/**
+ * Enforces a connection's access policy. Listings leave out what the policy
+ * hides; naming a hidden schema, table or column raises an "Access denied"
+ * error. Names without a schema (Firestore collections) pass schema rules.
+ */
+export class AccessControl {
+    private allow: CompiledRules;
+    private deny: CompiledRules;
+
+    constructor(policy: AccessPolicy) {
+        this.allow = compile(policy.allow);
+        this.deny = compile(policy.deny);
+    }
+
+    // Whether any column can be hidden, which makes queries look up the columns of their tables
+    get restrictsColumns(): boolean {
+        return this.allow.columns !== null || this.deny.columns !== null;
+    }
+
+    allowsSchema(schema: string | undefined): boolean {
+        if (!schema) return true;
+        return (!this.allow.schemas || matches(this.allow.schemas, [schema]))
+            && !(this.deny.schemas && matches(this.deny.schemas, [schema]));
+    }
+
+    allowsTable(relation: SqlRelation): boolean {
+        const parts = [relation.schema, relation.name];
+        return this.allowsSchema(relation.schema)
+            && (!this.allow.tables || matches(this.allow.tables, parts))
+            && !(this.deny.tables && matches(this.deny.tables, parts));
+    }
+
+    allowsColumn(relation: SqlRelation, column: string): boolean {
+        const parts = [relation.schema, relation.name, column];
+        return (!this.allow.columns || matches(this.allow.columns, parts))
+            && !(this.deny.columns && matches(this.deny.columns, parts));
+    }
+
+    /**
+     * Checks a Firestore field by its path segments. Column patterns match the
+     * dotted path of the field or of a map containing it, alone or after the
+     * collection ID, so allowing or denying a map covers all of its fields.
+     */
+    allowsField(collection: string, path: string[]): boolean {
+        const prefixes = path.map((_, index) => path.slice(0, index + 1).join('.'));
+        const hit = (patterns: CompiledPattern[]) => prefixes.some(prefix =>
+            patterns.some(({ pattern }) => pattern.test(prefix) || pattern.test(`${collection}.${prefix}`)));
+        return (!this.allow.columns || hit(this.allow.columns))
+            && !(this.deny.columns && hit(this.deny.columns));
+    }
+
+    /**
+     * Whether nothing in the schema is hidden, so that it can be exported
+     * whole; undefined stands for every schema.
+     */
+    coversSchema(schema: string | undefined): boolean {
+        if (this.restrictsColumns || this.allow.tables || this.deny.tables) return false;
+        return schema === undefined ? !this.allow.schemas && !this.deny.schemas : this.allowsSchema(schema);
+    }
+
+    assertSchema(schema: string | undefined): void {
+        if (!this.allowsSchema(schema)) {
+            throw new Error(`Access denied: schema "${schema}" is not allowed on this connection`);
+        }
+    }
+
+    assertTable(relation: SqlRelation): void {
+        this.assertSchema(relation.schema);
+        if (!this.allowsTable(relation)) {
+            throw new Error(`Access denied: table "${relationName(relation)}" is not allowed on this connection`);
+        }
+    }
+
+    assertColumn(relation: SqlRelation, column: string): void {
+        if (!this.allowsColumn(relation, column)) {
+            throw new Error(`Access denied: column "${relation.name}.${column}" is not allowed on this connection`);
+        }
+    }
+
+    filterTables(tables: TableInfo[]): TableInfo[] {
+        return tables
+            .filter(table => this.allowsTable(table))
+            .map(table => ({ ...table, columns: table.columns.filter(column => this.allowsColumn(table, column.name)) }));
+    }
+
+    /**
+     * Leaves out hidden columns, and the keys, constraints and indexes that
+     * would name them or a hidden table.
+     */
+    filterDetails(details: TableDetails): TableDetails {
+        const hidden = details.columns.filter(column => !this.allowsColumn(details, column.name)).map(column => column.name);
+        const visible = (columns: string[]) => columns.every(column => !hidden.includes(column));
+        const mentionsHidden = (text: string | null) => hidden.some(column =>
+            new RegExp(`(^|[^A-Za-z0-9_$])${column.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^A-Za-z0-9_$])`, 'i').test(text ?? ''));
+
+        return {
+            ...details,
+            columns: details.columns.filter(column => !hidden.includes(column.name)),
+            primaryKey: details.primaryKey.filter(column => !hidden.includes(column)),
+            foreignKeys: details.foreignKeys.filter(key => visible(key.columns)
+                && this.allowsTable({ schema: key.referencedSchema, name: key.referencedTable })
+                && key.referencedColumns.every(column => this.allowsColumn({ schema: key.referencedSchema, name: key.referencedTable }, column))),
+            referencedBy: details.referencedBy.filter(key => visible(key.referencedColumns)
+                && this.allowsTable({ schema: key.schema, name: key.table })
+                && key.columns.every(column => this.allowsColumn({ schema: key.schema, name: key.table }, column))),
+            uniqueConstraints: details.uniqueConstraints.filter(constraint => visible(constraint.columns)),
+            checkConstraints: details.checkConstraints.filter(constraint => !mentionsHidden(constraint.expression)),
+            indexes: details.indexes.filter(index => visible(index.columns) && !mentionsHidden(index.definition)),
+        };
+    }
+}
@@ -0,0 +1,95 @@
+import { createReadStream, existsSync } from 'node:fs';
+import { appendFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import { AuditEntry, HistoryFilter } from '../types/audit.js';
+
+// Entries kept in memory for !history; older ones stay in the file only
+const MAX_HISTORY_ENTRIES = 1000;
+const DEFAULT_HISTORY_LIMIT = 20;
+
+/**
+ * Record of every audited tool call. With a path, entries are appended to a
+ * JSON Lines file that is never rewritten; without one they are only kept in
+ * memory for the lifetime of the server.
+ */
+export class AuditLog {
+    private entries: AuditEntry[] = [];
+    private nextId = 1;
+    private loaded: Promise<void>;
+    // Appends are chained so lines land in id order
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(readonly path: string | null) {
+        this.loaded = path && existsSync(path) ? this.load(path) : Promise.resolve();
+    }
+
+    /**
+     * Assigns the next id to the entry and appends it. Failing to write the
+     * file is reported on stderr rather than failing the tool call.
+     */
+    async record(entry: Omit<AuditEntry, 'id'>): Promise<AuditEntry> {
+        await this.loaded;
+        const recorded: AuditEntry = { id: this.nextId++, ...entry };
+        this.remember(recorded);
+
+        if (this.path) {
+            const path = this.path;
+            this.writing = this.writing
+                .then(() => appendFile(path, `${JSON.stringify(recorded)}\n`, { flag: 'a', mode: 0o600 }))
+                .catch(error => console.error(`Failed to write audit log "${path}":`, error));
+            await this.writing;
+        }
+        return recorded;
+    }
+
+    /**
+     * Recent entries matching the filter, newest first.
+     */
+    async list(filter: HistoryFilter = {}): Promise<AuditEntry[]> {
+        await this.loaded;
+        const search = filter.search?.toLowerCase();
+        return this.entries
+            .filter(entry =>
+                (filter.connection === undefined || entry.connection === filter.connection)
+                && (filter.tool === undefined || entry.tool === filter.tool)
+                && (search === undefined || (entry.statement ?? '').toLowerCase().includes(search))
+                && (!filter.errorsOnly || entry.error !== undefined))
+            .reverse()
+            .slice(0, filter.limit ?? DEFAULT_HISTORY_LIMIT);
+    }
+
+    async get(id: number): Promise<AuditEntry> {
+        await this.loaded;
+        const entry = this.entries.find(candidate => candidate.id === id);
+        if (!entry) {
+            throw new Error(`History entry ${id} not found among the last ${MAX_HISTORY_ENTRIES} entries`);
+        }
+        return entry;
+    }
+
+    private remember(entry: AuditEntry): void {
+        this.entries.push(entry);
+        if (this.entries.length > MAX_HISTORY_ENTRIES) {
+            this.entries.shift();
+        }
+    }
+
+    // Picks up the tail of an existing log so ids keep increasing across restarts
+    private async load(path: string): Promise<void> {
+        const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity });
+        try {
+            for await (const line of lines) {
+                if (!line.trim()) continue;
+                try {
+                    const entry = JSON.parse(line) as AuditEntry;
+                    this.remember(entry);
+                    this.nextId = Math.max(this.nextId, entry.id + 1);
+                } catch {
+                    // A line cut short by a crash is skipped
+                }
+            }
+        } catch (error: unknown) {
+            console.error(`Failed to read audit log "${path}":`, error);
+        }
+    }
+}
@@ -0,0 +1,111 @@
+import { DatabaseService } from './database.js';
+import { ConnectionStatus, ConnectionSummary } from '../types/database.js';
+
+export const DEFAULT_CONNECTION_NAME = 'default';
+
+export class ConnectionRegistry {
+    private connections = new Map<string, DatabaseService>();
+    private activeName: string | null = null;
+
+    // Called whenever a connection is added, replaced or removed
+    constructor(private onChange: () => void = () => undefined) {}
+
+    /**
+     * Connects the given service and registers it under `name`. An existing
+     * connection with the same name is disconnected before being replaced.
+     */
+    async add(name: string, service: DatabaseService): Promise<void> {
+        await service.connect();
+
+        const previous = this.connections.get(name);
+        this.connections.set(name, service);
+        this.activeName = name;
+        this.onChange();
+
+        if (previous) {
+            await previous.disconnect().catch((error) => {
+                console.error(`Failed to close replaced connection "${name}":`, error);
+            });
+        }
+    }
+
+    /**
+     * Returns the named connection, or the active one when no name is given.
+     */
+    get(name?: string): DatabaseService | undefined {
+        const key = this.resolveName(name);
+        return key === null ? undefined : this.connections.get(key);
+    }
+
+    /**
+     * Resolves an optional connection name to the name actually in use.
+     */
+    resolveName(name?: string): string | null {
+        return name ?? this.activeName;
+    }
+
+    has(name: string): boolean {
+        return this.connections.has(name);
+    }
+
+    get active(): string | null {
+        return this.activeName;
+    }
+
+    use(name: string): void {
+        if (!this.connections.has(name)) {
+            throw new Error(`Connection "${name}" not found`);
+        }
+        this.activeName = name;
+    }
+
+    list(): ConnectionSummary[] {
+        return [...this.connections.entries()].map(([name, service]) => ({
+            name,
+            type: service.type,
+            active: name === this.activeName,
+            readOnly: service.readOnly,
+            inTransaction: service.transaction !== null,
+        }));
+    }
+
+    /**
+     * Runs a fresh health check and reports pool usage for one or all connections.
+     */
+    async status(name?: string): Promise<ConnectionStatus[]> {
+        if (name !== undefined && !this.connections.has(name)) {
+            throw new Error(`Connection "${name}" not found`);
+        }
+
+        const summaries = this.list().filter(summary => name === undefined || summary.name === name);
+        return Promise.all(summaries.map(async (summary) => {
+            const service = this.connections.get(summary.name)!;
+            const health = await service.checkHealth();
+            return { ...summary, pool: service.poolStats, health };
+        }));
+    }
+
+    async remove(name: string): Promise<void> {
+        const service = this.connections.get(name);
+        if (!service) {
+            throw new Error(`Connection "${name}" not found`);
+        }
+
+        this.connections.delete(name);
+        if (this.activeName === name) {
+            // Fall back to the most recently added remaining connection
+            const remaining = [...this.connections.keys()];
+            this.activeName = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+        }
+        this.onChange();
+
+        await service.disconnect();
+    }
+
+    async closeAll(): Promise<void> {
+        const services = [...this.connections.values()];
+        this.connections.clear();
+        this.activeName = null;
+        await Promise.allSettled(services.map(service => service.disconnect()));
+    }
+}
@@ -1,29 +1,313 @@
 import pg from 'pg';
 import mysql from 'mysql2/promise';
 import { Firestore } from '@google-cloud/firestore';
-import { DatabaseConfig, TableInfo, TriggerInfo, FunctionInfo } from '../types/database.js';
+import Database from 'better-sqlite3';
+import {
+    DatabaseConfig,
+    DatabaseType,
+    TableInfo,
+    TriggerInfo,
+    FunctionInfo,
+    HealthStatus,
+    PoolStats,
+    TableDetails,
+    ForeignKeyInfo,
+    IndexInfo,
+    SchemaInfo,
+    CheckConstraintInfo,
+} from '../types/database.js';
+import { BoundQuery, QueryParams, SqlDialect, SqlRelation } from '../types/sql.js';
+import { ColumnSource, MaskedColumn, ResultColumn, ResultSources } from '../types/masking.js';
+import { ProfileOptions, TableProfile } from '../types/profile.js';
+import { SnapshotDatabase } from './snapshotDatabase.js';
+import { PageRequest } from '../types/results.js';
+import {
+    CsvOptions,
+    ExportFileResult,
+    ExportOptions,
+    InsertOptions,
+    TableRows,
+    TabularFormat,
+} from '../types/export.js';
+import { BatchResult } from '../types/import.js';
+import { QueryPlan } from '../types/explain.js';
+import { TransactionOptions, TransactionReport, TransactionStatus } from '../types/transaction.js';
+import {
+    assertReadOnlySql,
+    bindParameters,
+    classifySql,
+    isPageableQuery,
+    limitToPage,
+    referencedNames,
+    referencedRelations,
+    splitStatements,
+    tokenizeSql,
+    unresolvableStatement,
+} from '../utils/sql.js';
+import { buildInsertStatements, quoteSqlIdentifier } from '../utils/sqlValues.js';
+import { createRowFormatter, RowFormatter } from '../utils/formats.js';
+import { FileWriter } from '../utils/fileWriter.js';
+import { topologicalSort } from '../utils/graph.js';
+import { PostgresDdlGenerator } from './postgresDdl.js';
+import { FirestoreBrowser } from './firestore.js';
+import { AccessControl } from './access.js';
+import { DataMasker, mergeMaskedColumns } from './masking.js';
+import { TableProfiler } from './profiler.js';
+import { mysqlQueryPlan, postgresQueryPlan } from './queryPlan.js';
+import { PinnedConnection, TransactionSession } from './transaction.js';
+
+const DEFAULT_POOL_SIZE = 5;
+const DEFAULT_CONNECTION_TIMEOUT_MS = 10000;
+const DEFAULT_STATEMENT_TIMEOUT_MS = 60000;
+const DEFAULT_IDLE_TIMEOUT_MS = 30000;
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 30000;
+
+// Error codes raised when a pooled connection died underneath a query
+const CONNECTION_ERROR_CODES = new Set([
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'EPIPE',
+    'ETIMEDOUT',
+    'PROTOCOL_CONNECTION_LOST',
+    'PROTOCOL_SEQUENCE_TIMEOUT',
+    '57P01', // admin_shutdown
+    '57P02', // crash_shutdown
+    '57P03', // cannot_connect_now
+    '08000', // connection_exception
+    '08003', // connection_does_not_exist
+    '08006', // connection_failure
+]);
+
+// pg_constraint.confupdtype/confdeltype codes
+const POSTGRES_FK_ACTIONS: Record<string, string> = {
+    a: 'NO ACTION',
+    r: 'RESTRICT',
+    c: 'CASCADE',
+    n: 'SET NULL',
+    d: 'SET DEFAULT',
+};
+
+/**
+ * Pulls CHECK constraints out of a CREATE TABLE statement, since SQLite
+ * does not expose them through any pragma.
+ */
+function extractCheckConstraints(createSql: string): CheckConstraintInfo[] {
+    const tokens = tokenizeSql(createSql, 'sqlite');
+    const checks: CheckConstraintInfo[] = [];
+
+    tokens.forEach((token, index) => {
+        if (token.type !== 'word' || token.value.toUpperCase() !== 'CHECK' || tokens[index + 1]?.value !== '(') {
+            return;
+        }
+        let depth = 0;
+        let end = index + 1;
+        for (; end < tokens.length; end++) {
+            if (tokens[end].value === '(') depth++;
+            if (tokens[end].value === ')' && --depth === 0) break;
+        }
+        const named = tokens[index - 2]?.type === 'word' && tokens[index - 2].value.toUpperCase() === 'CONSTRAINT';
+        checks.push({
+            name: named ? tokens[index - 1].value : `check_${checks.length + 1}`,
+            expression: createSql.slice(token.start, tokens[Math.min(end, tokens.length - 1)].end),
+        });
+    });
+
+    return checks;
+}
+
+// ANSI identifier quoting, used by Postgres and SQLite
+function quoteIdentifier(name: string): string {
+    return quoteSqlIdentifier(name, 'postgres');
+}
+
+function quoteMysqlIdentifier(name: string): string {
+    return quoteSqlIdentifier(name, 'mysql');
+}
+
+/**
+ * Binds parameters for MySQL by writing their escaped values into the
+ * statement. mysql2 fills ? placeholders on the client without regard for
+ * string literals and comments, so the placeholders are found with the
+ * tokenizer instead and no values are left for the driver.
+ */
+function bindMysqlParameters(query: string, params?: QueryParams): BoundQuery {
+    const bound = bindParameters(query, 'mysql', params);
+    if (bound.values.length === 0) {
+        return bound;
+    }
+    const placeholders = tokenizeSql(bound.sql, 'mysql').filter(token => token.type === 'placeholder');
+    let sql = '';
+    let cursor = 0;
+    placeholders.forEach((token, index) => {
+        const value = bound.values[index];
+        sql += bound.sql.slice(cursor, token.start) + (token.value === '??' ? mysql.escapeId(value) : mysql.escape(value));
+        cursor = token.end;
+    });
+    return { sql: sql + bound.sql.slice(cursor), values: [] };
+}
+
+function isConnectionError(error: unknown): boolean {
+    if (!(error instanceof Error)) return false;
+    const code = (error as { code?: string }).code;
+    return (code !== undefined && CONNECTION_ERROR_CODES.has(code))
+        || /Connection terminated|connection is closed|Can't add new command when connection is in closed state/i.test(error.message);
+}
+
+// Rows read per round trip when streaming an export to a file
+const EXPORT_CHUNK_ROWS = 1000;
+const DEFAULT_FILE_BATCH_SIZE = 100;
+
+// Documents sampled per collection when listing Firestore collections
+const FIRESTORE_TABLE_SAMPLE_SIZE = 20;
+
+// Date/time and JSON values are exported as the server's own text so they
+// round-trip without time zone shifts or JSON scalars losing their quotes
+const POSTGRES_TEXT_TYPES = new Set([
+    114, 199, // json, json[]
+    3802, 3807, // jsonb, jsonb[]
+    1082, 1182, // date, date[]
+    1083, 1183, // time, time[]
+    1114, 1115, // timestamp, timestamp[]
+    1184, 1185, // timestamptz, timestamptz[]
+    1186, 1187, // interval, interval[]
+    1266, 1270, // timetz, timetz[]
+]);
+
+const POSTGRES_EXPORT_TYPES: pg.CustomTypesConfig = {
+    getTypeParser: ((oid: number, format?: any) => {
+        if (POSTGRES_TEXT_TYPES.has(oid)) return (value: string) => value;
+        if (oid === 20) return (value: string) => BigInt(value); // int8
+        return pg.types.getTypeParser(oid, format);
+    }) as pg.CustomTypesConfig['getTypeParser'],
+};
+
+// Same idea for MySQL: dates, BIGINT/DECIMAL and JSON stay as server text
+const MYSQL_EXPORT_OPTIONS = {
+    dateStrings: true,
+    supportBigNumbers: true,
+    bigNumberStrings: true,
+    typeCast: (field: any, next: () => unknown) => (field.type === 'JSON' ? field.string('utf8') : next()),
+};
+
+function limitClause(page?: PageRequest): string {
+    return page ? ` LIMIT ${Math.trunc(page.limit)} OFFSET ${Math.trunc(page.offset)}` : '';
+}
+
+function postgresColumns(fields: pg.FieldDef[]): ResultColumn[] {
+    return fields.map(field => ({ name: field.name, ...(field.tableID > 0 && { tableId: field.tableID, columnId: field.columnID }) }));
+}
+
+function mysqlColumns(fields: mysql.FieldPacket[] | undefined): ResultColumn[] {
+    return (fields ?? []).map(field => ({
+        name: field.name,
+        ...(field.orgTable && field.orgName && { schema: field.db, table: field.orgTable, column: field.orgName }),
+    }));
+}
+
+function sqliteColumns(statement: Database.Statement): ResultColumn[] {
+    return statement.columns().map(column => ({
+        name: column.name,
+        ...(column.table && column.column && { schema: column.database ?? undefined, table: column.table, column: column.column }),
+    }));
+}
 
 export class DatabaseService {
-    private postgresClient?: pg.Client;
-    private mysqlConnection?: any;
+    private postgresPool?: pg.Pool;
+    private mysqlPool?: mysql.Pool;
     private firestoreClient?: Firestore;
+    private sqliteDb?: Database.Database;
+    private snapshot?: SnapshotDatabase;
     private config: DatabaseConfig;
+    private healthTimer?: NodeJS.Timeout;
+    private lastHealth: HealthStatus | null = null;
+    private session?: TransactionSession;
+    // Explains, once, why statements no longer run inside the transaction
+    private sessionNotice?: string;
+    private masker?: DataMasker;
+    private access?: AccessControl;
 
     constructor(config: DatabaseConfig) {
         this.config = config;
+        if (config.access) {
+            this.access = new AccessControl(config.access);
+        }
+        if (config.masking?.rules.length) {
+            this.masker = new DataMasker(config.masking);
+        }
+    }
+
+    get type(): DatabaseType {
+        return this.config.type;
+    }
+
+    /**
+     * Document access for Firestore connections.
+     */
+    get firestore(): FirestoreBrowser {
+        if (!this.firestoreClient) {
+            throw new Error('Firestore connection not found');
+        }
+        return new FirestoreBrowser(this.firestoreClient, this.readOnly, this.masker, this.access);
+    }
+
+    get readOnly(): boolean {
+        // Snapshots are never written to
+        return this.config.type === 'snapshot' || (this.config.readOnly ?? false);
+    }
+
+    /**
+     * SQL dialect of the connection, or of the database a snapshot was taken
+     * from; null for Firestore.
+     */
+    get dialect(): SqlDialect | null {
+        switch (this.config.type) {
+            case 'firestore':
+                return null;
+            case 'snapshot':
+                return this.snapshot?.dialect ?? null;
+            default:
+                return this.config.type;
+        }
+    }
+
+    get transaction(): TransactionStatus | null {
+        return this.session?.status ?? null;
     }
 
     async connect(): Promise<void> {
+        const pool = this.config.pool ?? {};
         switch (this.config.type) {
             case 'postgres': {
                 const config = this.config.connection as any;
-                this.postgresClient = new pg.Client(config);
-                await this.postgresClient.connect();
+                this.postgresPool = new pg.Pool({
+                    ...config,
+                    // Unqualified names in !query resolve against the default schema first
+                    ...(this.config.defaultSchema && {
+                        options: `-c search_path=${quoteIdentifier(this.config.defaultSchema).replace(/([\\ ])/g, '\\$1')},public`,
+                    }),
+                    max: pool.max ?? DEFAULT_POOL_SIZE,
+                    connectionTimeoutMillis: pool.connectionTimeoutMillis ?? DEFAULT_CONNECTION_TIMEOUT_MS,
+                    idleTimeoutMillis: pool.idleTimeoutMillis ?? DEFAULT_IDLE_TIMEOUT_MS,
+                    statement_timeout: pool.statementTimeoutMillis ?? DEFAULT_STATEMENT_TIMEOUT_MS,
+                });
+                // Idle clients dropped by the server are discarded; the pool opens new ones on demand
+                this.postgresPool.on('error', (error) => {
+                    console.error('PostgreSQL idle client error:', error.message);
+                });
                 break;
             }
             case 'mysql': {
                 const config = this.config.connection as any;
-                this.mysqlConnection = await mysql.createConnection(config);
+                this.mysqlPool = mysql.createPool({
+                    ...config,
+                    // MySQL schemas are databases, so the default schema becomes the session database
+                    database: this.config.defaultSchema ?? config.database,
+                    connectionLimit: pool.max ?? DEFAULT_POOL_SIZE,
+                    connectTimeout: pool.connectionTimeoutMillis ?? DEFAULT_CONNECTION_TIMEOUT_MS,
+                    idleTimeout: pool.idleTimeoutMillis ?? DEFAULT_IDLE_TIMEOUT_MS,
+                    waitForConnections: true,
+                    enableKeepAlive: true,
+                });
                 break;
             }
             case 'firestore': {
@@ -31,10 +315,351 @@ export class DatabaseService {
                 this.firestoreClient = new Firestore(config);
                 break;
             }
+            case 'sqlite': {
+                const { filename, memory } = this.config.connection;
+                if (!memory && !filename) {
+                    throw new Error('SQLite connection requires a filename or memory: true');
+                }
+                const inMemory = memory || filename === ':memory:';
+                this.sqliteDb = new Database(inMemory ? ':memory:' : filename!, {
+                    // In-memory databases cannot be opened read-only; query_only covers them below
+                    readonly: this.readOnly && !inMemory,
+                    fileMustExist: !inMemory,
+                    timeout: pool.connectionTimeoutMillis ?? DEFAULT_CONNECTION_TIMEOUT_MS,
+                });
+                if (this.readOnly) {
+                    this.sqliteDb.pragma('query_only = ON');
+                }
+                break;
+            }
+            case 'snapshot': {
+                const { filename } = this.config.connection;
+                if (!filename) {
+                    throw new Error('Snapshot connection requires a filename');
+                }
+                this.snapshot = await SnapshotDatabase.open(filename);
+                break;
+            }
+        }
+
+        // Fail fast on bad credentials instead of on the first tool call
+        const health = await this.checkHealth();
+        if (!health.ok) {
+            await this.disconnect();
+            throw new Error(health.error);
+        }
+
+        const interval = pool.healthCheckIntervalMillis ?? DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+        if ((this.config.type === 'postgres' || this.config.type === 'mysql') && interval > 0) {
+            this.healthTimer = setInterval(() => {
+                void this.checkHealth();
+            }, interval);
+            this.healthTimer.unref();
+        }
+    }
+
+    /**
+     * Runs a trivial round trip against the database and records the outcome.
+     */
+    async checkHealth(): Promise<HealthStatus> {
+        const startedAt = Date.now();
+        try {
+            switch (this.config.type) {
+                case 'postgres':
+                    await this.queryPostgres('SELECT 1');
+                    break;
+                case 'mysql':
+                    await this.queryMysql('SELECT 1');
+                    break;
+                case 'firestore':
+                    await this.firestoreClient!.listCollections();
+                    break;
+                case 'sqlite':
+                    this.querySqlite('SELECT 1');
+                    break;
+                case 'snapshot':
+                    if (!this.snapshot) {
+                        throw new Error('Snapshot not loaded');
+                    }
+                    break;
+            }
+            this.lastHealth = { ok: true, checkedAt: new Date(startedAt).toISOString(), latencyMs: Date.now() - startedAt };
+        } catch (error: unknown) {
+            this.lastHealth = {
+                ok: false,
+                checkedAt: new Date(startedAt).toISOString(),
+                latencyMs: Date.now() - startedAt,
+                error: error instanceof Error ? error.message : 'Unknown error',
+            };
         }
+        return this.lastHealth;
     }
 
-    async getTables(): Promise<TableInfo[]> {
+    get health(): HealthStatus | null {
+        return this.lastHealth;
+    }
+
+    get poolStats(): PoolStats | null {
+        if (this.postgresPool) {
+            return {
+                total: this.postgresPool.totalCount,
+                idle: this.postgresPool.idleCount,
+                waiting: this.postgresPool.waitingCount,
+                max: this.postgresPool.options.max,
+            };
+        }
+        if (this.mysqlPool) {
+            // mysql2 does not expose pool counters publicly
+            const inner = (this.mysqlPool as any).pool;
+            return {
+                total: inner._allConnections.length,
+                idle: inner._freeConnections.length,
+                waiting: inner._connectionQueue.length,
+                max: inner.config.connectionLimit,
+            };
+        }
+        return null;
+    }
+
+    /**
+     * Schema used when a tool does not name one: the connection's default
+     * schema, else the engine's usual default.
+     */
+    private resolveSchema(schema?: string): string {
+        if (schema) return schema;
+        if (this.config.defaultSchema) return this.config.defaultSchema;
+        switch (this.config.type) {
+            case 'postgres':
+                return 'public';
+            case 'mysql': {
+                if (!this.config.connection.database) {
+                    throw new Error('No schema selected; pass a schema or connect with a database');
+                }
+                return this.config.connection.database;
+            }
+            case 'sqlite':
+                return 'main';
+            case 'snapshot':
+                return this.snapshot?.defaultSchema ?? '';
+            default:
+                return '';
+        }
+    }
+
+    /**
+     * Splits "schema.table" names when no schema is passed explicitly.
+     */
+    private resolveTable(tableName: string, schema?: string): { schema: string; name: string } {
+        const qualified = /^([^.]+)\.(.+)$/.exec(tableName);
+        if (!schema && qualified) {
+            return { schema: qualified[1], name: qualified[2] };
+        }
+        return { schema: this.resolveSchema(schema), name: tableName };
+    }
+
+    private offline(): SnapshotDatabase {
+        if (!this.snapshot) {
+            throw new Error('Snapshot connection not found');
+        }
+        return this.snapshot;
+    }
+
+    // Snapshots only answer introspection calls
+    private assertOnline(): void {
+        if (this.config.type === 'snapshot') {
+            throw new Error('This connection serves a schema snapshot; queries and data access need a live database');
+        }
+    }
+
+    /**
+     * Tables a query reads or writes, for matching access and masking rules.
+     * Unqualified names are looked up on the PostgreSQL search_path and are
+     * otherwise taken to live in the default schema.
+     */
+    private async queryRelations(query: string): Promise<SqlRelation[]> {
+        const dialect = this.dialect;
+        if (!dialect) return [];
+        let defaultSchema: string | undefined;
+        try {
+            defaultSchema = this.resolveSchema();
+        } catch {
+            // MySQL connections without a database only match unqualified table patterns
+        }
+        return Promise.all(referencedRelations(query, dialect).map(async relation => ({
+            schema: relation.schema ?? (await this.searchPathSchema(relation.name)) ?? defaultSchema,
+            name: relation.name,
+        })));
+    }
+
+    /**
+     * Schema an unqualified PostgreSQL name resolves to through the
+     * search_path, which lists more than the default schema. Undefined for
+     * tables that do not exist yet, which are created in the default schema.
+     */
+    private async searchPathSchema(name: string): Promise<string | undefined> {
+        if (this.config.type !== 'postgres') return undefined;
+        // The name as written, then as folded when it was not quoted
+        const result = await this.queryPostgres(`
+            SELECT n.nspname AS schema
+            FROM pg_class c
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            WHERE c.oid = COALESCE(to_regclass(quote_ident($1)), to_regclass(quote_ident(lower($1))));
+        `, [name]);
+        return result.rows[0]?.schema;
+    }
+
+    /**
+     * Rejects queries that name a hidden table, or a hidden column of one of
+     * their tables. Whole-row reads (*, TABLE, a table used as a value) are
+     * rejected when any of their tables has hidden columns, and statements
+     * whose tables cannot be found are rejected outright.
+     */
+    private async assertQueryAccess(query: string): Promise<void> {
+        const dialect = this.dialect;
+        if (!this.access || !dialect) return;
+        const unresolvable = unresolvableStatement(query, dialect);
+        if (unresolvable) {
+            throw new Error(`Access denied: the tables used by ${unresolvable} cannot be checked, so they are not allowed on this connection`);
+        }
+        const relations = await this.queryRelations(query);
+        relations.forEach(relation => this.access!.assertTable(relation));
+        if (!this.access.restrictsColumns) return;
+
+        const { names, selectsAll } = referencedNames(query, dialect);
+        for (const relation of relations) {
+            if (!relation.schema) continue;
+            const hidden = (await this.columnNamesOf(relation.schema, relation.name))
+                .filter(column => !this.access!.allowsColumn(relation, column));
+            const named = hidden.find(column => names.has(column.toLowerCase()));
+            if (named) {
+                this.access.assertColumn(relation, named);
+            }
+            if (hidden.length > 0 && selectsAll) {
+                throw new Error(`Access denied: "${relation.name}" has columns that are not allowed on this connection; list the columns to select instead of reading whole rows`);
+            }
+        }
+    }
+
+    // Column names of a table or view as stored, ignoring the access policy; names are matched case-insensitively
+    private async columnNamesOf(schema: string, name: string): Promise<string[]> {
+        switch (this.config.type) {
+            case 'postgres': {
+                const result = await this.queryPostgres(`
+                    SELECT column_name AS name FROM information_schema.columns
+                    WHERE lower(table_schema) = lower($1) AND lower(table_name) = lower($2);
+                `, [schema, name]);
+                return result.rows.map(row => row.name);
+            }
+            case 'mysql': {
+                const [rows] = await this.queryMysql(`
+                    SELECT COLUMN_NAME AS name FROM information_schema.columns
+                    WHERE LOWER(TABLE_SCHEMA) = LOWER(?) AND LOWER(TABLE_NAME) = LOWER(?);
+                `, [schema, name]);
+                return rows.map((row: any) => row.name);
+            }
+            case 'sqlite':
+                return this.querySqlite('SELECT name FROM pragma_table_info(?, ?)', [name, schema]).map((row: any) => row.name);
+            default:
+                return [];
+        }
+    }
+
+    private markDefaultSchema(rows: { name: string }[]): SchemaInfo[] {
+        const defaultSchema = this.resolveSchema();
+        return rows.map(row => ({ name: row.name, default: row.name === defaultSchema }));
+    }
+
+    /**
+     * Runs a query on the pool. A read that fails because its pooled connection
+     * died is retried once on a fresh connection.
+     */
+    private async queryPostgres(text: string | pg.QueryConfig, values?: unknown[], retry = true): Promise<pg.QueryResult<any>> {
+        if (!this.postgresPool) {
+            throw new Error('PostgreSQL connection not found');
+        }
+        try {
+            return await this.postgresPool.query(text, values);
+        } catch (error: unknown) {
+            if (retry && isConnectionError(error)) {
+                return this.queryPostgres(text, values, false);
+            }
+            throw error;
+        }
+    }
+
+    private querySqlite(sql: string, values: unknown[] = []): any[] {
+        if (!this.sqliteDb) {
+            throw new Error('SQLite connection not found');
+        }
+        return this.sqliteDb.prepare(sql).all(...values);
+    }
+
+    private async queryMysql(sql: string | mysql.QueryOptions, values?: unknown, retry = true): Promise<[any, any]> {
+        if (!this.mysqlPool) {
+            throw new Error('MySQL connection not found');
+        }
+        const timeout = this.config.pool?.statementTimeoutMillis ?? DEFAULT_STATEMENT_TIMEOUT_MS;
+        const options = typeof sql === 'string' ? { sql } : sql;
+        try {
+            return await this.mysqlPool.query({ timeout, ...options }, values) as [any, any];
+        } catch (error: unknown) {
+            if (retry && isConnectionError(error)) {
+                return this.queryMysql(sql, values, false);
+            }
+            throw error;
+        }
+    }
+
+    async getSchemas(): Promise<SchemaInfo[]> {
+        const schemas = await this.listSchemas();
+        return this.access ? schemas.filter(schema => this.access!.allowsSchema(schema.name)) : schemas;
+    }
+
+    private async listSchemas(): Promise<SchemaInfo[]> {
+        switch (this.config.type) {
+            case 'postgres': {
+                const result = await this.queryPostgres(`
+                    SELECT nspname as name
+                    FROM pg_namespace
+                    WHERE nspname NOT IN ('pg_catalog', 'information_schema')
+                        AND nspname NOT LIKE 'pg_toast%'
+                        AND nspname NOT LIKE 'pg_temp_%'
+                    ORDER BY nspname;
+                `);
+                return this.markDefaultSchema(result.rows);
+            }
+            case 'mysql': {
+                const [rows] = await this.queryMysql(`
+                    SELECT SCHEMA_NAME as name
+                    FROM information_schema.SCHEMATA
+                    WHERE SCHEMA_NAME NOT IN ('mysql', 'information_schema', 'performance_schema', 'sys')
+                    ORDER BY SCHEMA_NAME;
+                `);
+                return this.markDefaultSchema(rows);
+            }
+            case 'sqlite': {
+                // Attached databases act as schemas
+                return this.markDefaultSchema(this.querySqlite('SELECT name FROM pragma_database_list ORDER BY seq'));
+            }
+            case 'firestore': {
+                // Firestore has no schemas
+                return [];
+            }
+            case 'snapshot':
+                return this.offline().getSchemas();
+            default:
+                return [];
+        }
+    }
+
+    async getTables(schema?: string): Promise<TableInfo[]> {
+        if (!this.access) return this.listTables(schema);
+        this.access.assertSchema(this.resolveSchema(schema));
+        return this.access.filterTables(await this.listTables(schema));
+    }
+
+    private async listTables(schema?: string): Promise<TableInfo[]> {
+        const schemaName = this.resolveSchema(schema);
         switch (this.config.type) {
             case 'postgres': {
                 const query = `
@@ -46,17 +671,18 @@ export class DatabaseService {
               'nullable', is_nullable = 'YES'
             )) as columns
           FROM information_schema.columns
-          WHERE table_schema = 'public'
+          WHERE table_schema = $1
           GROUP BY table_name;
         `;
-                const result = await this.postgresClient!.query(query);
+                const result = await this.queryPostgres(query, [schemaName]);
                 return result.rows.map(row => ({
+                    schema: schemaName,
                     name: row.table_name,
                     columns: row.columns
                 }));
             }
             case 'mysql': {
-                const [rows] = await this.mysqlConnection!.query(`
+                const [rows] = await this.queryMysql(`
           SELECT 
             TABLE_NAME as tableName,
             GROUP_CONCAT(
@@ -67,71 +693,138 @@ export class DatabaseService {
               )
             ) as columns
           FROM information_schema.columns
-          WHERE table_schema = DATABASE()
+          WHERE table_schema = ?
           GROUP BY TABLE_NAME;
-        `);
+        `, [schemaName]);
                 return rows.map((row: any) => ({
+                    schema: schemaName,
                     name: row.tableName,
                     columns: JSON.parse(`[${row.columns}]`)
                 }));
             }
+            case 'sqlite': {
+                const tables = this.querySqlite(`
+                    SELECT name FROM ${quoteIdentifier(schemaName)}.sqlite_master
+                    WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+                    ORDER BY name;
+                `);
+                return tables.map((table: any) => ({
+                    schema: schemaName,
+                    name: table.name,
+                    columns: this.querySqlite(
+                        'SELECT name, type, "notnull" FROM pragma_table_info(?, ?) ORDER BY cid',
+                        [table.name, schemaName]
+                    ).map((column: any) => ({
+                        name: column.name,
+                        type: column.type,
+                        nullable: column.notnull === 0
+                    }))
+                }));
+            }
             case 'firestore': {
                 // Firestore'da tablo yapısı olmadığı için koleksiyonları listeleyeceğiz
-                const collections = await this.firestoreClient!.listCollections();
-                return collections.map(collection => ({
+                const collections = (await this.firestoreClient!.listCollections())
+                    .filter(collection => !this.access || this.access.allowsTable({ name: collection.id }));
+                // Firestore şemasız; alanlar küçük bir örneklemden çıkarılıyor
+                return Promise.all(collections.map(async collection => ({
                     name: collection.id,
-                    columns: [] // Firestore şemasız olduğu için boş bırakıyoruz
-                }));
+                    columns: await this.firestore.inferSchema(collection.id, FIRESTORE_TABLE_SAMPLE_SIZE),
+                })));
             }
+            case 'snapshot':
+                return this.offline().getTables(schemaName);
             default:
                 return [];
         }
     }
 
-    async getTriggers(): Promise<TriggerInfo[]> {
+    async getTriggers(schema?: string): Promise<TriggerInfo[]> {
+        if (!this.access) return this.listTriggers(schema);
+        const schemaName = this.resolveSchema(schema);
+        this.access.assertSchema(schemaName);
+        const triggers = await this.listTriggers(schema);
+        return triggers.filter(trigger => this.access!.allowsTable({ schema: trigger.schema ?? schemaName, name: trigger.table }));
+    }
+
+    private async listTriggers(schema?: string): Promise<TriggerInfo[]> {
+        const schemaName = this.resolveSchema(schema);
         switch (this.config.type) {
             case 'postgres': {
                 const query = `
                     SELECT 
-                        trigger_name as name,
-                        event_object_table as table,
-                        event_manipulation as event,
-                        action_timing as timing,
-                        action_statement as statement
-                    FROM information_schema.triggers
-                    WHERE trigger_schema = 'public';
+                        t.trigger_name as name,
+                        t.trigger_schema as schema,
+                        t.event_object_table as table,
+                        t.event_manipulation as event,
+                        t.action_timing as timing,
+                        t.action_statement as statement,
+                        pg_get_triggerdef(pt.oid) as definition
+                    FROM information_schema.triggers t
+                    JOIN pg_namespace n ON n.nspname = t.event_object_schema
+                    JOIN pg_class c ON c.relnamespace = n.oid AND c.relname = t.event_object_table
+                    JOIN pg_trigger pt ON pt.tgrelid = c.oid AND pt.tgname = t.trigger_name
+                    WHERE t.trigger_schema = $1;
                 `;
-                const result = await this.postgresClient!.query(query);
+                const result = await this.queryPostgres(query, [schemaName]);
                 return result.rows;
             }
             case 'mysql': {
-                const [rows] = await this.mysqlConnection!.query(`
+                const [rows] = await this.queryMysql(`
                     SELECT 
                         TRIGGER_NAME as name,
+                        TRIGGER_SCHEMA as \`schema\`,
                         EVENT_OBJECT_TABLE as \`table\`,
                         EVENT_MANIPULATION as event,
                         ACTION_TIMING as timing,
                         ACTION_STATEMENT as statement
                     FROM information_schema.TRIGGERS
-                    WHERE TRIGGER_SCHEMA = DATABASE();
-                `);
+                    WHERE TRIGGER_SCHEMA = ?;
+                `, [schemaName]);
                 return rows;
             }
             case 'firestore': {
                 // Firestore does not support triggers at database level
                 return [];
             }
+            case 'sqlite': {
+                const triggers = this.querySqlite(`
+                    SELECT name, tbl_name, sql FROM ${quoteIdentifier(schemaName)}.sqlite_master
+                    WHERE type = 'trigger'
+                    ORDER BY name;
+                `);
+                return triggers.map((trigger: any) => {
+                    // SQLite only keeps the original CREATE TRIGGER text
+                    const match = /\b(BEFORE|AFTER|INSTEAD\s+OF)?\s*(INSERT|UPDATE|DELETE)\b/i.exec(trigger.sql ?? '');
+                    return {
+                        name: trigger.name,
+                        schema: schemaName,
+                        table: trigger.tbl_name,
+                        event: match?.[2]?.toUpperCase() ?? '',
+                        timing: match?.[1]?.toUpperCase().replace(/\s+/, ' ') ?? 'BEFORE',
+                        statement: trigger.sql
+                    };
+                });
+            }
+            case 'snapshot':
+                return this.offline().getTriggers(schemaName);
             default:
                 return [];
         }
     }
 
-    async getFunctions(): Promise<FunctionInfo[]> {
+    async getFunctions(schema?: string): Promise<FunctionInfo[]> {
+        this.access?.assertSchema(this.resolveSchema(schema));
+        return this.listFunctions(schema);
+    }
+
+    private async listFunctions(schema?: string): Promise<FunctionInfo[]> {
+        const schemaName = this.resolveSchema(schema);
         switch (this.config.type) {
             case 'postgres': {
                 const query = `
                     SELECT 
                         p.proname as name,
+                        n.nspname as schema,
                         l.lanname as language,
                         pg_get_function_result(p.oid) as "returnType",
                         pg_get_function_arguments(p.oid) as arguments,
@@ -139,15 +832,16 @@ export class DatabaseService {
                     FROM pg_proc p
                     JOIN pg_namespace n ON p.pronamespace = n.oid
                     JOIN pg_language l ON p.prolang = l.oid
-                    WHERE n.nspname = 'public';
+                    WHERE n.nspname = $1;
                 `;
-                const result = await this.postgresClient!.query(query);
+                const result = await this.queryPostgres(query, [schemaName]);
                 return result.rows;
             }
             case 'mysql': {
-                const [rows] = await this.mysqlConnection!.query(`
+                const [rows] = await this.queryMysql(`
                     SELECT 
                         ROUTINE_NAME as name,
+                        ROUTINE_SCHEMA as \`schema\`,
                         'SQL' as language,
                         DTD_IDENTIFIER as returnType,
                         CONCAT_WS(', ', 
@@ -159,37 +853,606 @@ export class DatabaseService {
                         ROUTINE_DEFINITION as definition
                     FROM information_schema.ROUTINES r
                     LEFT JOIN information_schema.PARAMETERS p
-                        ON r.SPECIFIC_NAME = p.SPECIFIC_NAME
-                    WHERE r.ROUTINE_SCHEMA = DATABASE()
+                        ON r.SPECIFIC_SCHEMA = p.SPECIFIC_SCHEMA
+                        AND r.SPECIFIC_NAME = p.SPECIFIC_NAME
+                    WHERE r.ROUTINE_SCHEMA = ?
                         AND r.ROUTINE_TYPE = 'FUNCTION'
                     GROUP BY r.SPECIFIC_NAME;
-                `);
+                `, [schemaName]);
                 return rows;
             }
             case 'firestore': {
                 // Firestore does not support stored functions
                 return [];
             }
+            case 'sqlite': {
+                // SQLite functions are registered by the host application, not stored in the database
+                return [];
+            }
+            case 'snapshot':
+                return this.offline().getFunctions(schemaName);
             default:
                 return [];
         }
     }
 
-    async executeQuery(query: string): Promise<any> {
+    async describeTable(tableName: string, schema?: string): Promise<TableDetails> {
+        if (!this.access) return this.inspectTable(tableName, schema);
+        this.access.assertTable(this.accessTarget(tableName, schema));
+        return this.access.filterDetails(await this.inspectTable(tableName, schema));
+    }
+
+    // Firestore collections are checked by name alone
+    private accessTarget(tableName: string, schema?: string): SqlRelation {
+        return this.config.type === 'firestore' ? { name: tableName } : this.resolveTable(tableName, schema);
+    }
+
+    private async inspectTable(tableName: string, schema?: string): Promise<TableDetails> {
+        const target = this.resolveTable(tableName, schema);
+        switch (this.config.type) {
+            case 'postgres':
+                return this.describePostgresTable(target.schema, target.name);
+            case 'mysql':
+                return this.describeMysqlTable(target.schema, target.name);
+            case 'sqlite':
+                return this.describeSqliteTable(target.schema, target.name);
+            case 'firestore': {
+                // Collection paths are not schema-qualified, so the name is used as given
+                return {
+                    name: tableName,
+                    comment: null,
+                    columns: await this.firestore.inferSchema(tableName),
+                    primaryKey: [],
+                    foreignKeys: [],
+                    referencedBy: [],
+                    uniqueConstraints: [],
+                    checkConstraints: [],
+                    indexes: [],
+                };
+            }
+            case 'snapshot':
+                return this.offline().describeTable(target.schema, target.name);
+            default:
+                throw new Error('Unsupported database type');
+        }
+    }
+
+    private async describePostgresTable(schemaName: string, tableName: string): Promise<TableDetails> {
+        const tableResult = await this.queryPostgres(`
+            SELECT c.oid, obj_description(c.oid, 'pg_class') as comment
+            FROM pg_class c
+            JOIN pg_namespace n ON c.relnamespace = n.oid
+            WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p', 'v', 'm', 'f');
+        `, [schemaName, tableName]);
+        const table = tableResult.rows[0];
+        if (!table) {
+            throw new Error(`Table "${schemaName}.${tableName}" not found`);
+        }
+
+        const columnsResult = await this.queryPostgres(`
+            SELECT
+                a.attname as name,
+                format_type(a.atttypid, a.atttypmod) as type,
+                NOT a.attnotnull as nullable,
+                pg_get_expr(d.adbin, d.adrelid) as "default",
+                col_description(a.attrelid, a.attnum) as comment,
+                a.attidentity <> '' OR coalesce(pg_get_expr(d.adbin, d.adrelid), '') LIKE 'nextval(%' as "autoIncrement",
+                a.attgenerated <> '' as generated
+            FROM pg_attribute a
+            LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+            WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped
+            ORDER BY a.attnum;
+        `, [table.oid]);
+
+        // Constraints on this table plus foreign keys elsewhere that reference it
+        const constraintsResult = await this.queryPostgres(`
+            SELECT
+                con.conname as name,
+                con.contype as type,
+                con.conrelid = $1 as own,
+                cn.nspname as schema,
+                c.relname as table,
+                ARRAY(
+                    SELECT a.attname::text
+                    FROM unnest(con.conkey) WITH ORDINALITY k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+                    ORDER BY k.ord
+                ) as columns,
+                fn.nspname as "referencedSchema",
+                fc.relname as "referencedTable",
+                ARRAY(
+                    SELECT a.attname::text
+                    FROM unnest(con.confkey) WITH ORDINALITY k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+                    ORDER BY k.ord
+                ) as "referencedColumns",
+                con.confupdtype as "onUpdate",
+                con.confdeltype as "onDelete",
+                pg_get_constraintdef(con.oid) as definition
+            FROM pg_constraint con
+            JOIN pg_class c ON c.oid = con.conrelid
+            JOIN pg_namespace cn ON cn.oid = c.relnamespace
+            LEFT JOIN pg_class fc ON fc.oid = con.confrelid
+            LEFT JOIN pg_namespace fn ON fn.oid = fc.relnamespace
+            WHERE con.conrelid = $1 OR (con.contype = 'f' AND con.confrelid = $1)
+            ORDER BY con.conname;
+        `, [table.oid]);
+
+        const indexesResult = await this.queryPostgres(`
+            SELECT
+                i.relname as name,
+                ARRAY(
+                    SELECT a.attname::text
+                    FROM unnest(ix.indkey::int2[]) WITH ORDINALITY k(attnum, ord)
+                    JOIN pg_attribute a ON a.attrelid = ix.indrelid AND a.attnum = k.attnum
+                    ORDER BY k.ord
+                ) as columns,
+                ix.indisunique as unique,
+                ix.indisprimary as primary,
+                am.amname as method,
+                pg_get_indexdef(ix.indexrelid) as definition
+            FROM pg_index ix
+            JOIN pg_class i ON i.oid = ix.indexrelid
+            JOIN pg_am am ON am.oid = i.relam
+            WHERE ix.indrelid = $1
+            ORDER BY i.relname;
+        `, [table.oid]);
+
+        const constraints = constraintsResult.rows;
+        const toForeignKey = (row: any): ForeignKeyInfo => ({
+            name: row.name,
+            schema: row.schema,
+            table: row.table,
+            columns: row.columns,
+            referencedSchema: row.referencedSchema,
+            referencedTable: row.referencedTable,
+            referencedColumns: row.referencedColumns,
+            onUpdate: POSTGRES_FK_ACTIONS[row.onUpdate] ?? row.onUpdate,
+            onDelete: POSTGRES_FK_ACTIONS[row.onDelete] ?? row.onDelete,
+        });
+        const own = constraints.filter(row => row.own);
+        const primaryKey: string[] = own.find(row => row.type === 'p')?.columns ?? [];
+
+        return {
+            schema: schemaName,
+            name: tableName,
+            comment: table.comment,
+            columns: columnsResult.rows.map(column => ({
+                ...column,
+                primaryKey: primaryKey.includes(column.name),
+            })),
+            primaryKey,
+            foreignKeys: own.filter(row => row.type === 'f').map(toForeignKey),
+            referencedBy: constraints
+                .filter(row => row.type === 'f' && row.referencedSchema === schemaName && row.referencedTable === tableName)
+                .map(toForeignKey),
+            uniqueConstraints: own
+                .filter(row => row.type === 'u')
+                .map(row => ({ name: row.name, columns: row.columns })),
+            checkConstraints: own
+                .filter(row => row.type === 'c')
+                .map(row => ({ name: row.name, expression: row.definition })),
+            indexes: indexesResult.rows,
+        };
+    }
+
+    private async describeMysqlTable(schemaName: string, tableName: string): Promise<TableDetails> {
+        const [tables] = await this.queryMysql(`
+            SELECT TABLE_COMMENT as comment
+            FROM information_schema.TABLES
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?;
+        `, [schemaName, tableName]);
+        if (tables.length === 0) {
+            throw new Error(`Table "${schemaName}.${tableName}" not found`);
+        }
+
+        const [columns] = await this.queryMysql(`
+            SELECT
+                COLUMN_NAME as name,
+                COLUMN_TYPE as type,
+                IS_NULLABLE = 'YES' as nullable,
+                COLUMN_DEFAULT as \`default\`,
+                COLUMN_COMMENT as comment,
+                COLUMN_KEY = 'PRI' as primaryKey,
+                EXTRA LIKE '%auto_increment%' as autoIncrement,
+                EXTRA LIKE '%VIRTUAL GENERATED%' OR EXTRA LIKE '%STORED GENERATED%' as generated,
+                EXTRA as extra,
+                COLLATION_NAME as collation
+            FROM information_schema.COLUMNS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+            ORDER BY ORDINAL_POSITION;
+        `, [schemaName, tableName]);
+
+        const [keyColumns] = await this.queryMysql(`
+            SELECT
+                k.CONSTRAINT_NAME as name,
+                k.TABLE_SCHEMA as \`schema\`,
+                k.TABLE_NAME as \`table\`,
+                k.COLUMN_NAME as \`column\`,
+                k.REFERENCED_TABLE_SCHEMA as referencedSchema,
+                k.REFERENCED_TABLE_NAME as referencedTable,
+                k.REFERENCED_COLUMN_NAME as referencedColumn,
+                t.CONSTRAINT_TYPE as type,
+                r.UPDATE_RULE as onUpdate,
+                r.DELETE_RULE as onDelete
+            FROM information_schema.KEY_COLUMN_USAGE k
+            JOIN information_schema.TABLE_CONSTRAINTS t
+                ON t.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+                AND t.TABLE_NAME = k.TABLE_NAME
+                AND t.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+            LEFT JOIN information_schema.REFERENTIAL_CONSTRAINTS r
+                ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+                AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+            WHERE (k.TABLE_SCHEMA = ? AND k.TABLE_NAME = ?)
+                OR (k.REFERENCED_TABLE_SCHEMA = ? AND k.REFERENCED_TABLE_NAME = ?)
+            ORDER BY k.TABLE_SCHEMA, k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION;
+        `, [schemaName, tableName, schemaName, tableName]);
+
+        let checks: any[] = [];
+        try {
+            [checks] = await this.queryMysql(`
+                SELECT c.CONSTRAINT_NAME as name, c.CHECK_CLAUSE as expression
+                FROM information_schema.CHECK_CONSTRAINTS c
+                JOIN information_schema.TABLE_CONSTRAINTS t
+                    ON t.CONSTRAINT_SCHEMA = c.CONSTRAINT_SCHEMA
+                    AND t.CONSTRAINT_NAME = c.CONSTRAINT_NAME
+                WHERE t.TABLE_SCHEMA = ? AND t.TABLE_NAME = ? AND t.CONSTRAINT_TYPE = 'CHECK';
+            `, [schemaName, tableName]);
+        } catch {
+            // CHECK_CONSTRAINTS only exists from MySQL 8.0.16
+        }
+
+        const [indexColumns] = await this.queryMysql(`
+            SELECT
+                INDEX_NAME as name,
+                COLUMN_NAME as \`column\`,
+                NON_UNIQUE = 0 as \`unique\`,
+                INDEX_TYPE as method
+            FROM information_schema.STATISTICS
+            WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+            ORDER BY INDEX_NAME, SEQ_IN_INDEX;
+        `, [schemaName, tableName]);
+
+        // KEY_COLUMN_USAGE and STATISTICS return one row per column; fold them per constraint/index
+        const constraints = new Map<string, any>();
+        for (const row of keyColumns) {
+            const key = `${row.schema}.${row.table}.${row.name}`;
+            const entry = constraints.get(key) ?? { ...row, columns: [], referencedColumns: [] };
+            entry.columns.push(row.column);
+            if (row.referencedColumn) entry.referencedColumns.push(row.referencedColumn);
+            constraints.set(key, entry);
+        }
+        const toForeignKey = (row: any): ForeignKeyInfo => ({
+            name: row.name,
+            schema: row.schema,
+            table: row.table,
+            columns: row.columns,
+            referencedSchema: row.referencedSchema,
+            referencedTable: row.referencedTable,
+            referencedColumns: row.referencedColumns,
+            onUpdate: row.onUpdate,
+            onDelete: row.onDelete,
+        });
+        const all = [...constraints.values()];
+        const own = all.filter(row => row.schema === schemaName && row.table === tableName);
+
+        const indexes = new Map<string, IndexInfo>();
+        for (const row of indexColumns) {
+            const entry: IndexInfo = indexes.get(row.name) ?? {
+                name: row.name,
+                columns: [],
+                unique: Boolean(row.unique),
+                primary: row.name === 'PRIMARY',
+                method: row.method,
+                definition: null,
+            };
+            if (row.column) entry.columns.push(row.column);
+            indexes.set(row.name, entry);
+        }
+
+        return {
+            schema: schemaName,
+            name: tableName,
+            comment: tables[0].comment || null,
+            columns: columns.map(({ extra, ...column }: any) => ({
+                ...column,
+                nullable: Boolean(column.nullable),
+                primaryKey: Boolean(column.primaryKey),
+                autoIncrement: Boolean(column.autoIncrement),
+                generated: Boolean(column.generated),
+                comment: column.comment || null,
+                onUpdate: /\bon update (.+)$/i.exec(extra ?? '')?.[1] ?? null,
+                collation: column.collation ?? null,
+            })),
+            primaryKey: own.find(row => row.type === 'PRIMARY KEY')?.columns ?? [],
+            foreignKeys: own.filter(row => row.type === 'FOREIGN KEY').map(toForeignKey),
+            referencedBy: all
+                .filter(row => row.type === 'FOREIGN KEY' && row.referencedSchema === schemaName && row.referencedTable === tableName)
+                .map(toForeignKey),
+            uniqueConstraints: own
+                .filter(row => row.type === 'UNIQUE')
+                .map(row => ({ name: row.name, columns: row.columns })),
+            checkConstraints: checks,
+            indexes: [...indexes.values()],
+        };
+    }
+
+    private async describeSqliteTable(schemaName: string, tableName: string): Promise<TableDetails> {
+        const master = `${quoteIdentifier(schemaName)}.sqlite_master`;
+        const [table] = this.querySqlite(
+            `SELECT sql FROM ${master} WHERE type IN ('table', 'view') AND name = ?`,
+            [tableName]
+        );
+        if (!table) {
+            throw new Error(`Table "${schemaName}.${tableName}" not found`);
+        }
+
+        // table_xinfo also lists generated columns (hidden 2 and 3); hidden 1 marks virtual table internals
+        const columns = this.querySqlite(
+            'SELECT * FROM pragma_table_xinfo(?, ?) WHERE hidden <> 1 ORDER BY cid',
+            [tableName, schemaName]
+        );
+        const primaryKey = columns
+            .filter((column: any) => column.pk > 0)
+            .sort((a: any, b: any) => a.pk - b.pk)
+            .map((column: any) => column.name);
+
+        const toForeignKeys = (owner: string): ForeignKeyInfo[] => {
+            const keys = new Map<number, ForeignKeyInfo>();
+            for (const row of this.querySqlite('SELECT * FROM pragma_foreign_key_list(?, ?) ORDER BY id, seq', [owner, schemaName])) {
+                const entry: ForeignKeyInfo = keys.get(row.id) ?? {
+                    name: `${owner}_fk_${row.id}`,
+                    schema: schemaName,
+                    table: owner,
+                    columns: [],
+                    // SQLite foreign keys always point into the same database
+                    referencedSchema: schemaName,
+                    referencedTable: row.table,
+                    referencedColumns: [],
+                    onUpdate: row.on_update,
+                    onDelete: row.on_delete,
+                };
+                entry.columns.push(row.from);
+                // A missing "to" column means the referenced table's primary key
+                if (row.to !== null) entry.referencedColumns.push(row.to);
+                keys.set(row.id, entry);
+            }
+            return [...keys.values()];
+        };
+
+        const otherTables = this.querySqlite(
+            `SELECT name FROM ${master} WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name <> ?`,
+            [tableName]
+        );
+
+        const indexes: IndexInfo[] = this.querySqlite('SELECT * FROM pragma_index_list(?, ?) ORDER BY name', [tableName, schemaName])
+            .map((index: any) => {
+                const [definition] = this.querySqlite(`SELECT sql FROM ${master} WHERE type = ? AND name = ?`, ['index', index.name]);
+                return {
+                    name: index.name,
+                    columns: this.querySqlite('SELECT name FROM pragma_index_info(?, ?) ORDER BY seqno', [index.name, schemaName])
+                        .map((column: any) => column.name),
+                    unique: index.unique === 1,
+                    primary: index.origin === 'pk',
+                    method: null,
+                    definition: definition?.sql ?? null,
+                    origin: index.origin,
+                };
+            });
+
+        return {
+            schema: schemaName,
+            name: tableName,
+            comment: null,
+            columns: columns.map((column: any) => ({
+                name: column.name,
+                type: column.type,
+                nullable: column.notnull === 0 && column.pk === 0,
+                default: column.dflt_value,
+                comment: null,
+                primaryKey: column.pk > 0,
+                // INTEGER PRIMARY KEY aliases the rowid and is assigned automatically
+                autoIncrement: primaryKey.length === 1 && column.pk === 1 && column.type.toUpperCase() === 'INTEGER',
+                generated: column.hidden === 2 || column.hidden === 3,
+            })),
+            primaryKey,
+            foreignKeys: toForeignKeys(tableName),
+            referencedBy: otherTables
+                .flatMap((other: any) => toForeignKeys(other.name))
+                .filter(key => key.referencedTable === tableName),
+            uniqueConstraints: indexes
+                .filter((index: any) => index.origin === 'u')
+                .map(index => ({ name: index.name, columns: index.columns })),
+            checkConstraints: extractCheckConstraints(table.sql ?? ''),
+            indexes: indexes.map(({ origin, ...index }: any) => index),
+        };
+    }
+
+    /**
+     * Runs a statement and returns its rows, masked by the connection's
+     * masking policy, or its command result.
+     */
+    async executeQuery(query: string, params?: QueryParams, page?: PageRequest): Promise<any> {
+        return (await this.executeMaskedQuery(query, params, page)).result;
+    }
+
+    /**
+     * Like executeQuery, but also reports which columns were masked.
+     */
+    async executeMaskedQuery(query: string, params?: QueryParams, page?: PageRequest): Promise<{ result: any; masked: MaskedColumn[] }> {
+        await this.assertQueryAccess(query);
+        let columns: ResultColumn[] | undefined;
+        const result = await this.runQuery(query, params, page, described => {
+            columns = described;
+        });
+        if (!this.masker || !Array.isArray(result)) {
+            return { result, masked: [] };
+        }
+        const relations = await this.queryRelations(query);
+        const sources = columns && await this.resultSources(query, relations, columns);
+        const { rows, masked } = this.masker.maskRows(result, relations, sources);
+        return { result: rows, masked };
+    }
+
+    /**
+     * Maps each output column to the table column it was read from, so that
+     * masking rules cannot be dodged by renaming a column. A source outside
+     * the query's own relations (a view's base table, a derived table) is
+     * treated like a computed column.
+     */
+    private async resultSources(query: string, relations: SqlRelation[], columns: ResultColumn[]): Promise<ResultSources> {
+        const tableIds = [...new Set(columns.flatMap(column => (column.tableId ? [column.tableId] : [])))];
+        const attributes = new Map<string, { schema?: string; table: string; column: string }>();
+        if (tableIds.length > 0) {
+            const result = await this.queryPostgres(`
+                SELECT c.oid AS table_id, a.attnum AS column_id, n.nspname AS schema, c.relname AS table, a.attname AS column
+                FROM pg_attribute a
+                JOIN pg_class c ON c.oid = a.attrelid
+                JOIN pg_namespace n ON n.oid = c.relnamespace
+                WHERE a.attrelid = ANY($1::oid[]) AND a.attnum > 0;
+            `, [tableIds]);
+            for (const row of result.rows) attributes.set(`${row.table_id}:${row.column_id}`, row);
+        }
+
+        const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+        const sources = new Map<string, ColumnSource>();
+        for (const column of columns) {
+            const origin = column.tableId
+                ? attributes.get(`${column.tableId}:${column.columnId}`)
+                : column.table && column.column ? { schema: column.schema, table: column.table, column: column.column } : undefined;
+            const relation = origin && relations.find(relation => sameName(relation.name, origin.table)
+                && (!relation.schema || !origin.schema || sameName(relation.schema, origin.schema)));
+            // A later column with the same name overwrites the earlier one, in the rows as here
+            sources.set(column.name, origin && relation ? { relation, column: origin.column } : null);
+        }
+        return { columns: sources, names: [...referencedNames(query, this.dialect!).names] };
+    }
+
+    private async runQuery(
+        query: string,
+        params?: QueryParams,
+        page?: PageRequest,
+        onColumns?: (columns: ResultColumn[]) => void
+    ): Promise<any> {
+        this.assertOnline();
+        if (this.sessionNotice) {
+            // Fail the first statement after an idle rollback instead of silently running it in autocommit
+            const notice = this.sessionNotice;
+            this.sessionNotice = undefined;
+            throw new Error(notice);
+        }
         switch (this.config.type) {
             case 'postgres': {
-                if (!this.postgresClient) {
+                if (!this.postgresPool) {
                     throw new Error('PostgreSQL connection not found');
                 }
-                const result = await this.postgresClient.query(query);
+                const bound = bindParameters(query, 'postgres', params);
+                const sql = page ? limitToPage(bound.sql, 'postgres', page)! : bound.sql;
+                const values = bound.values;
+                if (this.readOnly) {
+                    assertReadOnlySql(sql, 'postgres');
+                }
+                if (this.session) {
+                    return this.session.execute(sql, values, onColumns);
+                }
+                if (this.readOnly) {
+                    // The read-only transaction also blocks writes hidden in function calls
+                    const client = await this.postgresPool.connect();
+                    // A failed rollback leaves the client unusable, so it is discarded instead of returned to the pool
+                    let broken: Error | undefined;
+                    try {
+                        await client.query('BEGIN TRANSACTION READ ONLY');
+                        try {
+                            const result = await client.query(sql, values);
+                            if (result.fields) onColumns?.(postgresColumns(result.fields));
+                            return result.rows;
+                        } finally {
+                            await client.query('ROLLBACK').catch((error: Error) => {
+                                broken = error;
+                            });
+                        }
+                    } finally {
+                        client.release(broken);
+                    }
+                }
+                // Writes are never retried, they may already have been applied
+                const result = await this.queryPostgres(sql, values, classifySql(sql, 'postgres').readOnly);
+                if (result.fields) onColumns?.(postgresColumns(result.fields));
                 return result.rows;
             }
             case 'mysql': {
-                if (!this.mysqlConnection) {
+                if (!this.mysqlPool) {
                     throw new Error('MySQL connection not found');
                 }
-                const [rows] = await this.mysqlConnection.query(query);
-                return rows;
+                const bound = bindMysqlParameters(query, params);
+                const limited = page ? limitToPage(bound.sql, 'mysql', page) : bound.sql;
+                const sql = limited ?? bound.sql;
+                // Statements with a LIMIT of their own run whole, and the page is cut from their rows
+                const cut = (rows: any) => (page && limited === null && Array.isArray(rows) ? rows.slice(page.offset, page.offset + page.limit) : rows);
+                const values = bound.values;
+                if (this.readOnly) {
+                    assertReadOnlySql(sql, 'mysql');
+                }
+                if (this.session) {
+                    return cut(await this.session.execute(sql, values, onColumns));
+                }
+                if (this.readOnly) {
+                    const connection = await this.mysqlPool.getConnection();
+                    const timeout = this.config.pool?.statementTimeoutMillis ?? DEFAULT_STATEMENT_TIMEOUT_MS;
+                    let broken = false;
+                    try {
+                        await connection.query('START TRANSACTION READ ONLY');
+                        try {
+                            const [rows, fields] = await connection.query({ sql, timeout }, values);
+                            if (Array.isArray(rows)) onColumns?.(mysqlColumns(fields));
+                            return cut(rows);
+                        } finally {
+                            await connection.query('ROLLBACK').catch(() => {
+                                broken = true;
+                            });
+                        }
+                    } finally {
+                        if (broken) {
+                            connection.destroy();
+                        } else {
+                            connection.release();
+                        }
+                    }
+                }
+                const [rows, fields] = await this.queryMysql(sql, values, classifySql(sql, 'mysql').readOnly);
+                if (Array.isArray(rows)) onColumns?.(mysqlColumns(fields));
+                return cut(rows);
+            }
+            case 'sqlite': {
+                if (!this.sqliteDb) {
+                    throw new Error('SQLite connection not found');
+                }
+                const bound = bindParameters(query, 'sqlite', params);
+                const sql = page ? limitToPage(bound.sql, 'sqlite', page)! : bound.sql;
+                if (this.readOnly) {
+                    assertReadOnlySql(sql, 'sqlite');
+                }
+                const statements = splitStatements(tokenizeSql(sql, 'sqlite'));
+                if (statements.length > 1 && bound.values.length > 0) {
+                    throw new Error('Parameters are only supported for single statements on SQLite');
+                }
+                // better-sqlite3 prepares one statement at a time; batches return the last result
+                let result: any = [];
+                for (const tokens of statements) {
+                    const text = sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+                    if (this.session) {
+                        result = await this.session.execute(text, bound.values, onColumns);
+                        continue;
+                    }
+                    const statement = this.sqliteDb.prepare(text);
+                    if (statement.reader) {
+                        result = statement.all(...bound.values);
+                        onColumns?.(sqliteColumns(statement));
+                    } else {
+                        result = statement.run(...bound.values);
+                    }
+                }
+                return result;
             }
             case 'firestore': {
                 throw new Error('SQL queries are not supported for Firestore');
@@ -199,134 +1462,668 @@ export class DatabaseService {
         }
     }
 
+    /**
+     * Starts a transaction on a connection taken out of the pool. Until it
+     * ends, executeQuery runs every statement on that connection.
+     */
+    async beginTransaction(options: TransactionOptions = {}): Promise<TransactionStatus> {
+        this.assertOnline();
+        if (this.session) {
+            throw new Error('A transaction is already open on this connection; set a savepoint instead');
+        }
+        this.sessionNotice = undefined;
+        const session = await TransactionSession.begin(await this.pinConnection(), options, this.readOnly, report => {
+            this.session = undefined;
+            if (report.reason === 'idle timeout') {
+                this.sessionNotice = `The transaction was rolled back after ${session.status.idleTimeoutMillis / 1000}s `
+                    + 'without activity and its changes were discarded; start a new one to continue';
+            }
+        });
+        this.session = session;
+        return session.status;
+    }
+
+    async setSavepoint(name: string): Promise<TransactionStatus> {
+        await this.openSession().savepoint(name);
+        return this.openSession().status;
+    }
+
+    async releaseSavepoint(name: string): Promise<TransactionStatus> {
+        await this.openSession().releaseSavepoint(name);
+        return this.openSession().status;
+    }
+
+    async rollbackToSavepoint(name: string): Promise<TransactionStatus> {
+        await this.openSession().rollbackToSavepoint(name);
+        return this.openSession().status;
+    }
+
+    /**
+     * Commits the open transaction; a dry run is rolled back instead.
+     */
+    async commitTransaction(): Promise<TransactionReport> {
+        return this.openSession().commit();
+    }
+
+    async rollbackTransaction(): Promise<TransactionReport> {
+        return this.openSession().rollback();
+    }
+
+    private openSession(): TransactionSession {
+        if (!this.session) {
+            const notice = this.sessionNotice;
+            this.sessionNotice = undefined;
+            throw new Error(notice ?? 'No transaction is open on this connection');
+        }
+        return this.session;
+    }
+
+    private async pinConnection(): Promise<PinnedConnection> {
+        switch (this.config.type) {
+            case 'postgres': {
+                if (!this.postgresPool) {
+                    throw new Error('PostgreSQL connection not found');
+                }
+                const client = await this.postgresPool.connect();
+                return {
+                    dialect: 'postgres',
+                    query: async (sql, values) => {
+                        const results: pg.QueryResult<any> | pg.QueryResult<any>[] = await client.query(sql, values);
+                        // Several statements without parameters return one result each; keep the last
+                        const result = Array.isArray(results) ? results[results.length - 1] : results;
+                        return {
+                            rows: result.fields?.length ? result.rows : null,
+                            affectedRows: result.rowCount ?? null,
+                            command: result.command,
+                            ...(result.fields?.length && { columns: postgresColumns(result.fields) }),
+                        };
+                    },
+                    release: () => client.release(),
+                };
+            }
+            case 'mysql': {
+                if (!this.mysqlPool) {
+                    throw new Error('MySQL connection not found');
+                }
+                const connection = await this.mysqlPool.getConnection();
+                const timeout = this.config.pool?.statementTimeoutMillis ?? DEFAULT_STATEMENT_TIMEOUT_MS;
+                return {
+                    dialect: 'mysql',
+                    query: async (sql, values) => {
+                        const [rows, fields] = await connection.query({ sql, timeout }, values) as [any, any];
+                        return Array.isArray(rows)
+                            ? { rows, affectedRows: null, columns: mysqlColumns(fields) }
+                            : { rows: null, affectedRows: rows.affectedRows ?? null };
+                    },
+                    release: () => connection.release(),
+                };
+            }
+            case 'sqlite': {
+                const db = this.sqliteDb;
+                if (!db) {
+                    throw new Error('SQLite connection not found');
+                }
+                // SQLite has a single connection, so the transaction covers everything done on it
+                return {
+                    dialect: 'sqlite',
+                    query: async (sql, values = []) => {
+                        const statement = db.prepare(sql);
+                        if (statement.reader) {
+                            return { rows: statement.all(...values), affectedRows: null, columns: sqliteColumns(statement) };
+                        }
+                        return { rows: null, affectedRows: statement.run(...values).changes };
+                    },
+                    release: () => undefined,
+                };
+            }
+            default:
+                throw new Error('Transactions are not supported for this database type');
+        }
+    }
+
+    /**
+     * Plans a single statement and normalizes the plan. With `analyze` the
+     * statement is executed (Postgres only) inside a transaction that is
+     * always rolled back, so writes are measured but not kept.
+     */
+    async explainQuery(query: string, params?: QueryParams, analyze = false): Promise<QueryPlan> {
+        this.assertOnline();
+        await this.assertQueryAccess(query);
+        if (this.config.type !== 'postgres' && this.config.type !== 'mysql') {
+            throw new Error('EXPLAIN is only supported on PostgreSQL and MySQL');
+        }
+        const dialect = this.config.type;
+        const { sql, values } = dialect === 'mysql' ? bindMysqlParameters(query, params) : bindParameters(query, dialect, params);
+        const statements = classifySql(sql, dialect).statements;
+        if (statements.length !== 1) {
+            throw new Error('EXPLAIN takes exactly one statement');
+        }
+        if (statements[0].keyword === 'EXPLAIN') {
+            throw new Error('Pass the statement itself, without EXPLAIN');
+        }
+
+        if (dialect === 'mysql') {
+            if (analyze) {
+                throw new Error('ANALYZE is only supported on PostgreSQL');
+            }
+            const [rows] = await this.queryMysql(`EXPLAIN FORMAT=JSON ${sql}`, values);
+            return mysqlQueryPlan(rows[0].EXPLAIN);
+        }
+
+        if (!this.postgresPool) {
+            throw new Error('PostgreSQL connection not found');
+        }
+        if (analyze && this.readOnly) {
+            assertReadOnlySql(sql, 'postgres');
+        }
+        const client = await this.postgresPool.connect();
+        try {
+            await client.query(this.readOnly ? 'BEGIN TRANSACTION READ ONLY' : 'BEGIN');
+            try {
+                const options = analyze ? 'FORMAT JSON, ANALYZE, BUFFERS' : 'FORMAT JSON';
+                const result = await client.query(`EXPLAIN (${options}) ${sql}`, values);
+                return postgresQueryPlan(result.rows[0]['QUERY PLAN'], analyze);
+            } finally {
+                await client.query('ROLLBACK');
+            }
+        } finally {
+            client.release();
+        }
+    }
+
     async disconnect(): Promise<void> {
+        clearInterval(this.healthTimer);
+        if (this.session) {
+            // Returns the pinned connection so that the pool can close
+            await this.session.rollback('disconnect').catch(error => console.error('Failed to roll back open transaction:', error));
+        }
         switch (this.config.type) {
             case 'postgres':
-                await this.postgresClient?.end();
+                await this.postgresPool?.end();
+                this.postgresPool = undefined;
                 break;
             case 'mysql':
-                await this.mysqlConnection?.end();
+                await this.mysqlPool?.end();
+                this.mysqlPool = undefined;
+                break;
+            case 'sqlite':
+                this.sqliteDb?.close();
+                this.sqliteDb = undefined;
+                break;
+            case 'snapshot':
+                this.snapshot = undefined;
                 break;
             // Firestore için özel bir disconnect işlemi gerekmiyor
         }
     }
 
-    async exportTableSchema(tableName: string): Promise<string> {
+    async exportTableSchema(tableName: string, schema?: string): Promise<string> {
+        const target = this.resolveTable(tableName, schema);
+        if (this.access && this.config.type !== 'firestore') {
+            this.access.assertTable(target);
+            const columns = this.config.type === 'snapshot'
+                ? this.offline().describeTable(target.schema, target.name).columns.map(column => column.name)
+                : await this.columnNamesOf(target.schema, target.name);
+            if (columns.some(column => !this.access!.allowsColumn(target, column))) {
+                throw new Error(`Access denied: the DDL of "${target.name}" would show columns that are not allowed on this connection; use !describe instead`);
+            }
+        }
         switch (this.config.type) {
             case 'postgres': {
-                if (!this.postgresClient) {
+                if (!this.postgresPool) {
                     throw new Error('PostgreSQL connection not found');
                 }
-                const query = `
-                    SELECT 
-                        'CREATE TABLE ' || quote_ident($1) || ' (' ||
-                        string_agg(
-                            quote_ident(column_name) || ' ' ||
-                            data_type ||
-                            CASE 
-                                WHEN character_maximum_length IS NOT NULL 
-                                THEN '(' || character_maximum_length || ')'
-                                ELSE ''
-                            END ||
-                            CASE 
-                                WHEN is_nullable = 'NO' 
-                                THEN ' NOT NULL'
-                                ELSE ''
-                            END,
-                            ', '
-                        ) || ');' as create_table_sql
-                    FROM information_schema.columns
-                    WHERE table_name = $1 AND table_schema = 'public'
-                    GROUP BY table_name;
-                `;
-                const result = await this.postgresClient.query(query, [tableName]);
-                return result.rows[0]?.create_table_sql || '';
+                return new PostgresDdlGenerator(this.queryPostgres.bind(this)).tableScript(target.schema, target.name);
             }
             case 'mysql': {
-                if (!this.mysqlConnection) {
+                if (!this.mysqlPool) {
                     throw new Error('MySQL connection not found');
                 }
-                const [result] = await this.mysqlConnection.query(
-                    'SHOW CREATE TABLE ??',
-                    [tableName]
+                const [result] = await this.queryMysql(
+                    `SHOW CREATE TABLE ${quoteMysqlIdentifier(target.schema)}.${quoteMysqlIdentifier(target.name)}`
                 );
-                return result[0]?.['Create Table'] || '';
+                return result[0]?.['Create Table'] || result[0]?.['Create View'] || '';
+            }
+            case 'sqlite': {
+                const objects = this.querySqlite(`
+                    SELECT sql FROM ${quoteIdentifier(target.schema)}.sqlite_master
+                    WHERE tbl_name = ? AND sql IS NOT NULL
+                    ORDER BY CASE type WHEN 'table' THEN 0 WHEN 'index' THEN 1 ELSE 2 END, name;
+                `, [target.name]);
+                return objects.map((object: any) => `${object.sql};`).join('\n');
             }
             case 'firestore': {
                 throw new Error('SQL schema export is not supported for Firestore');
             }
+            case 'snapshot':
+                return this.offline().exportTableSchema(target.schema, target.name);
             default:
                 throw new Error('Unsupported database type');
         }
     }
 
-    async exportTableData(tableName: string): Promise<string> {
+    /**
+     * DDL for every table and view in a schema (every user schema on
+     * PostgreSQL when none is given), ordered so it can be replayed into an
+     * empty database.
+     */
+    async exportDatabaseSchema(schema?: string): Promise<string> {
+        // Without a schema PostgreSQL exports every schema
+        if (this.access && this.config.type !== 'firestore' && !this.access.coversSchema(schema || this.dialect !== 'postgres' ? this.resolveSchema(schema) : undefined)) {
+            throw new Error('Access denied: this connection hides part of the schema, so it cannot be exported whole; export the allowed tables with !export-schema');
+        }
         switch (this.config.type) {
             case 'postgres': {
-                if (!this.postgresClient) {
+                if (!this.postgresPool) {
                     throw new Error('PostgreSQL connection not found');
                 }
+                return new PostgresDdlGenerator(this.queryPostgres.bind(this)).databaseScript(schema);
+            }
+            case 'mysql': {
+                if (!this.mysqlPool) {
+                    throw new Error('MySQL connection not found');
+                }
+                const schemaName = this.resolveSchema(schema);
+                const [objects] = await this.queryMysql(`
+                    SELECT TABLE_NAME as name, TABLE_TYPE as type
+                    FROM information_schema.TABLES
+                    WHERE TABLE_SCHEMA = ?
+                    ORDER BY TABLE_NAME;
+                `, [schemaName]);
+                const [references] = await this.queryMysql(`
+                    SELECT DISTINCT TABLE_NAME as tableName, REFERENCED_TABLE_NAME as referencedTable
+                    FROM information_schema.KEY_COLUMN_USAGE
+                    WHERE TABLE_SCHEMA = ? AND REFERENCED_TABLE_SCHEMA = ?;
+                `, [schemaName, schemaName]);
 
-                // Önce tablo verilerini al
-                const dataQuery = `SELECT * FROM ${tableName};`;
-                const result = await this.postgresClient.query(dataQuery);
+                const tables: string[] = objects.filter((object: any) => object.type === 'BASE TABLE').map((object: any) => object.name);
+                const views: string[] = objects.filter((object: any) => object.type === 'VIEW').map((object: any) => object.name);
+                const ordered = topologicalSort(tables, table => references
+                    .filter((reference: any) => reference.tableName === table)
+                    .map((reference: any) => reference.referencedTable));
 
-                if (result.rows.length === 0) {
-                    return '';
+                const statements: string[] = [];
+                for (const table of ordered) {
+                    const [result] = await this.queryMysql(
+                        `SHOW CREATE TABLE ${quoteMysqlIdentifier(schemaName)}.${quoteMysqlIdentifier(table)}`
+                    );
+                    statements.push(`${result[0]['Create Table']};`);
+                }
+                for (const view of views) {
+                    const [result] = await this.queryMysql(
+                        `SHOW CREATE VIEW ${quoteMysqlIdentifier(schemaName)}.${quoteMysqlIdentifier(view)}`
+                    );
+                    // Definers name accounts that rarely exist on the target server
+                    statements.push(`${String(result[0]['Create View']).replace(/ DEFINER=\S+/, '')};`);
                 }
 
-                // Sütun isimlerini al
-                const columns = Object.keys(result.rows[0]);
+                // Foreign key cycles cannot be ordered away, so checks are disabled while replaying
+                return ['SET FOREIGN_KEY_CHECKS = 0;', ...statements, 'SET FOREIGN_KEY_CHECKS = 1;'].join('\n\n');
+            }
+            case 'sqlite': {
+                const schemaName = this.resolveSchema(schema);
+                const objects = this.querySqlite(`
+                    SELECT sql FROM ${quoteIdentifier(schemaName)}.sqlite_master
+                    WHERE sql IS NOT NULL AND name NOT LIKE 'sqlite_%'
+                    ORDER BY CASE type WHEN 'table' THEN 0 WHEN 'index' THEN 1 WHEN 'view' THEN 2 ELSE 3 END, rowid;
+                `);
+                return objects.map((object: any) => `${object.sql};`).join('\n\n');
+            }
+            case 'firestore': {
+                throw new Error('SQL schema export is not supported for Firestore');
+            }
+            case 'snapshot':
+                return this.offline().exportDatabaseSchema(schema);
+            default:
+                throw new Error('Unsupported database type');
+        }
+    }
 
-                // INSERT ifadelerini oluştur
-                const insertStatements = result.rows.map(row => {
-                    const values = columns.map(col => {
-                        const val = row[col];
-                        if (val === null) return 'NULL';
-                        if (typeof val === 'string') return `'${val.replace(/'/g, "''")}'`;
-                        return val;
-                    });
-                    return `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${values.join(', ')});`;
-                });
+    async exportTableData(
+        tableName: string,
+        schema?: string,
+        page?: PageRequest,
+        options?: Partial<InsertOptions>
+    ): Promise<string> {
+        const statements = await this.exportTableStatements(tableName, schema, page, options);
+        return statements.join('\n');
+    }
+
+    async exportTableStatements(
+        tableName: string,
+        schema?: string,
+        page?: PageRequest,
+        options?: Partial<InsertOptions>
+    ): Promise<string[]> {
+        const data = await this.readTableRows(tableName, schema, page);
+        return this.renderInserts(data, options);
+    }
+
+    renderInserts(data: TableRows, options: Partial<InsertOptions> = {}): string[] {
+        return buildInsertStatements(data, {
+            batchSize: options.batchSize ?? 1,
+            onConflict: options.onConflict ?? 'error',
+        }, this.config.type as SqlDialect);
+    }
+
+    /**
+     * Reads a page of rows for export, ordered by primary key, or by every
+     * column when there is none, so that consecutive pages neither skip nor
+     * repeat rows. Callers reading several pages can pass the table's
+     * `details` to describe it only once.
+     */
+    async readTableRows(tableName: string, schema?: string, page?: PageRequest, details?: TableDetails): Promise<TableRows> {
+        if (this.config.type === 'firestore') {
+            throw new Error('SQL data export is not supported for Firestore');
+        }
+        this.assertOnline();
+
+        details ??= await this.describeTable(tableName, schema);
+        const dialect = this.config.type as SqlDialect;
+        const quote = (name: string) => quoteSqlIdentifier(name, dialect);
+        const insertable = details.columns.filter(column => !column.generated);
+
+        const table = `${quote(details.schema!)}.${quote(details.name)}`;
+        // PostgreSQL compares the text form, since types such as json and point have no ordering
+        const orderColumns = details.primaryKey.length > 0
+            ? details.primaryKey.map(quote)
+            : insertable.map(column => (dialect === 'postgres' ? `${quote(column.name)}::text` : quote(column.name)));
+        const orderBy = orderColumns.length > 0 ? ` ORDER BY ${orderColumns.join(', ')}` : '';
+        const sql = `SELECT ${insertable.map(column => quote(column.name)).join(', ')} FROM ${table}${orderBy}${limitClause(page)}`;
 
-                return insertStatements.join('\n');
+        let rows: Record<string, unknown>[];
+        switch (this.config.type) {
+            case 'postgres': {
+                const result = await this.queryPostgres({ text: sql, types: POSTGRES_EXPORT_TYPES });
+                rows = result.rows;
+                break;
             }
             case 'mysql': {
-                if (!this.mysqlConnection) {
-                    throw new Error('MySQL connection not found');
+                const [result] = await this.queryMysql({ sql, ...MYSQL_EXPORT_OPTIONS } as mysql.QueryOptions);
+                rows = result;
+                break;
+            }
+            case 'sqlite': {
+                if (!this.sqliteDb) {
+                    throw new Error('SQLite connection not found');
                 }
+                // 64-bit integers beyond 2^53 would lose precision as numbers
+                rows = this.sqliteDb.prepare(sql).safeIntegers(true).all() as Record<string, unknown>[];
+                break;
+            }
+            default:
+                throw new Error('Unsupported database type');
+        }
 
-                // Önce tablo verilerini al
-                const [rows] = await this.mysqlConnection.query(
-                    'SELECT * FROM ??',
-                    [tableName]
-                );
+        let columns = insertable.map(column => column.name);
+        let masked: MaskedColumn[] = [];
+        if (this.masker) {
+            const relations = [{ schema: details.schema, name: details.name }];
+            const dropped = this.masker.droppedColumns(columns, relations);
+            columns = columns.filter(column => !dropped.includes(column));
+            ({ rows, masked } = this.masker.maskRows(rows, relations));
+        }
+
+        return {
+            schema: details.schema!,
+            name: details.name,
+            columns,
+            primaryKey: details.primaryKey.filter(column => columns.includes(column)),
+            identity: this.config.type === 'postgres' && insertable.some(column => column.autoIncrement && columns.includes(column.name)),
+            rows,
+            ...(masked.length > 0 && { masked }),
+        };
+    }
 
-                if (rows.length === 0) {
-                    return '';
+    /**
+     * Streams a whole table to a file, reading it in chunks so that large
+     * tables never sit in memory at once. Firestore collections are written
+     * as JSON Lines by FirestoreBrowser.exportCollection.
+     */
+    async exportTableDataToFile(
+        tableName: string,
+        schema: string | undefined,
+        path: string,
+        options: ExportOptions = {}
+    ): Promise<ExportFileResult> {
+        if (this.config.type === 'firestore') {
+            if (options.format && options.format !== 'jsonl') {
+                throw new Error('Firestore collections can only be exported as JSON Lines');
+            }
+            return this.firestore.exportCollection(tableName, path);
+        }
+        const format = options.format ?? 'sql';
+        const insert = { batchSize: DEFAULT_FILE_BATCH_SIZE, ...options.insert };
+        const details = await this.describeTable(tableName, schema);
+        const output = new FileWriter(path);
+
+        let rowCount = 0;
+        let statementCount = 0;
+        const reports: MaskedColumn[][] = [];
+        try {
+            for (let offset = 0; ; offset += EXPORT_CHUNK_ROWS) {
+                const data = await this.readTableRows(tableName, schema, { offset, limit: EXPORT_CHUNK_ROWS }, details);
+                reports.push(data.masked ?? []);
+                if (format === 'sql') {
+                    const statements = this.renderInserts(data, insert);
+                    await output.writeLines(statements);
+                    statementCount += statements.length;
+                } else {
+                    const formatter = createRowFormatter(format, data.columns, options.csv);
+                    await output.writeLines([
+                        ...(offset === 0 ? formatter.header() : []),
+                        ...data.rows.map(row => formatter.row(row)),
+                    ]);
                 }
+                rowCount += data.rows.length;
+                if (data.rows.length < EXPORT_CHUNK_ROWS) break;
+            }
+        } finally {
+            await output.close();
+        }
 
-                // Sütun isimlerini al
-                const columns = Object.keys(rows[0]);
+        const masked = mergeMaskedColumns(reports);
+        return {
+            path,
+            format,
+            rowCount,
+            ...(format === 'sql' && { statementCount }),
+            bytes: output.bytes,
+            ...(masked.length > 0 && { masked }),
+        };
+    }
 
-                // INSERT ifadelerini oluştur
-                const insertStatements = rows.map((row: any) => {
-                    const values = columns.map(col => {
-                        const val = row[col];
-                        if (val === null) return 'NULL';
-                        if (typeof val === 'string') return `'${val.replace(/'/g, "''")}'`;
-                        return val;
-                    });
-                    return `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${values.join(', ')});`;
-                });
+    /**
+     * Streams a query result to a file. Plain SELECTs are read in chunks;
+     * anything else is executed once.
+     */
+    async exportQueryToFile(
+        query: string,
+        params: QueryParams | undefined,
+        path: string,
+        format: TabularFormat,
+        csv?: Partial<CsvOptions>
+    ): Promise<ExportFileResult> {
+        this.assertOnline();
+        const dialect = this.dialect;
+        const pageable = dialect !== null && isPageableQuery(query, dialect);
+        const output = new FileWriter(path);
 
-                return insertStatements.join('\n');
+        let formatter: RowFormatter | undefined;
+        let rowCount = 0;
+        const reports: MaskedColumn[][] = [];
+        try {
+            for (let offset = 0; ; offset += EXPORT_CHUNK_ROWS) {
+                const { result: rows, masked } = pageable
+                    ? await this.executeMaskedQuery(query, params, { offset, limit: EXPORT_CHUNK_ROWS })
+                    : await this.executeMaskedQuery(query, params);
+                reports.push(masked);
+                if (!Array.isArray(rows)) {
+                    throw new Error('Query did not return rows');
+                }
+
+                if (!formatter && rows.length > 0) {
+                    formatter = createRowFormatter(format, Object.keys(rows[0]), csv);
+                    await output.writeLines(formatter.header());
+                }
+                await output.writeLines(rows.map(row => formatter!.row(row)));
+                rowCount += rows.length;
+                if (!pageable || rows.length < EXPORT_CHUNK_ROWS) break;
             }
-            case 'firestore': {
-                throw new Error('SQL data export is not supported for Firestore');
+        } finally {
+            await output.close();
+        }
+
+        const masked = mergeMaskedColumns(reports);
+        return { path, format, rowCount, bytes: output.bytes, ...(masked.length > 0 && { masked }) };
+    }
+
+    /**
+     * Profiles a table or collection. Statistics are computed from unmasked
+     * rows; the values the profile reveals are masked afterwards.
+     */
+    async profileTable(tableName: string, schema?: string, options?: ProfileOptions): Promise<TableProfile> {
+        this.access?.assertTable(this.accessTarget(tableName, schema));
+        const profiler = new TableProfiler(this, sql => this.runQuery(sql));
+        const profile = await profiler.profile(tableName, schema, options);
+        return this.masker ? this.masker.maskProfile(profile) : profile;
+    }
+
+    /**
+     * Inserts rows in one transaction. When the multi-row INSERT fails the rows
+     * are retried one at a time under savepoints to find the failing ones;
+     * with `stopOnError` any failure rolls the whole batch back.
+     */
+    async insertBatch(
+        schemaName: string,
+        tableName: string,
+        columns: string[],
+        rows: unknown[][],
+        stopOnError: boolean
+    ): Promise<BatchResult> {
+        if (this.readOnly) {
+            throw new Error('Connection is read-only; rejected import');
+        }
+        if (this.config.type === 'firestore') {
+            throw new Error('Use importDocuments for Firestore');
+        }
+
+        const dialect = this.config.type as SqlDialect;
+        const quote = (name: string) => quoteSqlIdentifier(name, dialect);
+        const prefix = `INSERT INTO ${quote(schemaName)}.${quote(tableName)} (${columns.map(quote).join(', ')}) VALUES `;
+        const tuple = (offset: number) => `(${columns
+            .map((_, i) => (dialect === 'postgres' ? `$${offset + i + 1}` : '?'))
+            .join(', ')})`;
+
+        const result: BatchResult = { inserted: 0, failures: [] };
+        await this.inTransaction(async run => {
+            await run('SAVEPOINT import_batch');
+            try {
+                await run(`${prefix}${rows.map((_, i) => tuple(i * columns.length)).join(', ')}`, rows.flat());
+                result.inserted = rows.length;
+                return true;
+            } catch {
+                await run('ROLLBACK TO SAVEPOINT import_batch');
+            }
+
+            for (const [index, row] of rows.entries()) {
+                await run('SAVEPOINT import_row');
+                try {
+                    await run(`${prefix}${tuple(0)}`, row);
+                    await run('RELEASE SAVEPOINT import_row');
+                    result.inserted++;
+                } catch (error: unknown) {
+                    await run('ROLLBACK TO SAVEPOINT import_row');
+                    result.failures.push({ index, error: error instanceof Error ? error.message : String(error) });
+                    if (stopOnError) break;
+                }
+            }
+
+            const commit = !(stopOnError && result.failures.length > 0);
+            if (!commit) result.inserted = 0;
+            return commit;
+        });
+        return result;
+    }
+
+    /**
+     * Writes documents into a collection; see FirestoreBrowser.writeDocuments.
+     */
+    async importDocuments(
+        collection: string,
+        documents: { id?: string; data: Record<string, unknown> }[],
+        stopOnError: boolean
+    ): Promise<BatchResult> {
+        return this.firestore.writeDocuments(collection, documents, stopOnError);
+    }
+
+    /**
+     * Runs `work` inside a transaction on a single connection. The transaction
+     * commits when `work` resolves to true and rolls back otherwise.
+     */
+    private async inTransaction(work: (run: (sql: string, values?: unknown[]) => Promise<void>) => Promise<boolean>): Promise<void> {
+        switch (this.config.type) {
+            case 'postgres': {
+                if (!this.postgresPool) {
+                    throw new Error('PostgreSQL connection not found');
+                }
+                const client = await this.postgresPool.connect();
+                try {
+                    await client.query('BEGIN');
+                    let commit = false;
+                    try {
+                        commit = await work(async (sql, values) => {
+                            await client.query(sql, values);
+                        });
+                    } finally {
+                        await client.query(commit ? 'COMMIT' : 'ROLLBACK');
+                    }
+                } finally {
+                    client.release();
+                }
+                break;
+            }
+            case 'mysql': {
+                if (!this.mysqlPool) {
+                    throw new Error('MySQL connection not found');
+                }
+                const connection = await this.mysqlPool.getConnection();
+                try {
+                    await connection.query('START TRANSACTION');
+                    let commit = false;
+                    try {
+                        commit = await work(async (sql, values) => {
+                            await connection.query(sql, values);
+                        });
+                    } finally {
+                        await connection.query(commit ? 'COMMIT' : 'ROLLBACK');
+                    }
+                } finally {
+                    connection.release();
+                }
+                break;
+            }
+            case 'sqlite': {
+                const db = this.sqliteDb;
+                if (!db) {
+                    throw new Error('SQLite connection not found');
+                }
+                if (this.session) {
+                    throw new Error('Commit or roll back the open transaction first');
+                }
+                db.exec('BEGIN');
+                let commit = false;
+                try {
+                    commit = await work(async (sql, values = []) => {
+                        db.prepare(sql).run(...values);
+                    });
+                } finally {
+                    db.exec(commit ? 'COMMIT' : 'ROLLBACK');
+                }
+                break;
             }
             default:
-                throw new Error('Unsupported database type');
+                throw new Error('Transactions are not supported for this database type');
         }
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,413 @@
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { CollectionReference, DocumentSnapshot, FieldPath, Firestore, Query } from '@google-cloud/firestore';
+import { ColumnInfo } from '../types/database.js';
+import { ExportFileResult } from '../types/export.js';
+import {
+    CollectionImportReport,
+    CollectionInfo,
+    DocumentInfo,
+    DocumentLine,
+    DocumentQueryResult,
+    FirestoreQuery,
+} from '../types/firestore.js';
+import { BatchResult, ImportErrorMode } from '../types/import.js';
+import { MaskedColumn } from '../types/masking.js';
+import { AccessControl } from './access.js';
+import { DataMasker, mergeMaskedColumns } from './masking.js';
+import { FileWriter } from '../utils/fileWriter.js';
+import { decodeFirestoreValue, encodeFirestoreValue, firestoreTypeOf, timestampToIso } from '../utils/firestoreValues.js';
+
+const DEFAULT_SAMPLE_SIZE = 100;
+const EXPORT_PAGE_SIZE = 500;
+// Firestore rejects write batches with more than 500 operations
+const MAX_WRITE_BATCH_SIZE = 500;
+// Keeps the report readable; the total is still counted
+const MAX_REPORTED_FAILURES = 100;
+
+function fieldPath(field: string): string | FieldPath {
+    return field === '__name__' ? FieldPath.documentId() : field;
+}
+
+// Field path segment, backquoted when it is not a plain identifier
+function pathSegment(key: string): string {
+    return /^[A-Za-z_][A-Za-z_0-9]*$/.test(key) ? key : `\`${key.replace(/[`\\]/g, '\\$&')}\``;
+}
+
+function isNestedMap(value: unknown): value is Record<string, unknown> {
+    return firestoreTypeOf(value) === 'map' && Object.keys(value as object).length > 0;
+}
+
+// Field values keyed by dotted path; nested maps appear both whole and by their fields
+function flattenFields(data: Record<string, unknown>, prefix = '', fields = new Map<string, unknown>()): Map<string, unknown> {
+    for (const [key, value] of Object.entries(data)) {
+        const path = prefix ? `${prefix}.${pathSegment(key)}` : pathSegment(key);
+        fields.set(path, value);
+        if (isNestedMap(value)) flattenFields(value, path, fields);
+    }
+    return fields;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+// Validates one line of a collection export
+function toDocumentLine(value: unknown): DocumentLine {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('Not a JSON object');
+    }
+    const { path, data } = value as Record<string, unknown>;
+    if (typeof path !== 'string' || path.split('/').some(segment => segment === '') || path.split('/').length % 2 !== 1) {
+        throw new Error('"path" must be a document path relative to the collection, like "alice" or "alice/orders/o1"');
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('"data" must be an object');
+    }
+    return { path, data: data as Record<string, unknown> };
+}
+
+function toDocumentInfo(snapshot: DocumentSnapshot, data: Record<string, unknown>): DocumentInfo {
+    return {
+        id: snapshot.id,
+        path: snapshot.ref.path,
+        createTime: snapshot.createTime ? timestampToIso(snapshot.createTime) : null,
+        updateTime: snapshot.updateTime ? timestampToIso(snapshot.updateTime) : null,
+        data: encodeFirestoreValue(data) as Record<string, unknown>,
+    };
+}
+
+/**
+ * Document-level access for Firestore connections. Values are returned and
+ * accepted in the tagged JSON form from utils/firestoreValues. Documents
+ * read by tools are masked by the connection's masking policy, and the
+ * access policy applies to every collection on a path, with the collection
+ * ID standing in for the table name.
+ */
+export class FirestoreBrowser {
+    constructor(private db: Firestore, private readOnly = false, private masker?: DataMasker, private access?: AccessControl) {}
+
+    // Collection IDs are every other segment of a collection or document path
+    private assertPath(path: string): void {
+        path.split('/').filter(Boolean).forEach((segment, index) => {
+            if (index % 2 === 0) this.access?.assertTable({ name: segment });
+        });
+    }
+
+    /**
+     * Leaves out the fields the access policy hides, named by the same dotted
+     * paths that inferSchema reports. A map stays when it is allowed itself or
+     * still holds an allowed field.
+     */
+    private visibleFields(collection: string, data: Record<string, unknown>, prefix: string[] = []): Record<string, unknown> {
+        if (!this.access?.restrictsColumns) return data;
+        const visible: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(data)) {
+            const path = [...prefix, pathSegment(key)];
+            const allowed = this.access.allowsField(collection, path);
+            if (isNestedMap(value)) {
+                const fields = this.visibleFields(collection, value, path);
+                if (allowed || Object.keys(fields).length > 0) visible[key] = fields;
+            } else if (allowed) {
+                visible[key] = value;
+            }
+        }
+        return visible;
+    }
+
+    // Filtering, ordering or selecting by a hidden field would reveal its values
+    private assertField(collection: string, field: string): void {
+        if (field === '__name__' || !this.access) return;
+        if (!this.access.allowsField(collection, field.split('.'))) {
+            throw new Error(`Access denied: field "${collection}.${field}" is not allowed on this connection`);
+        }
+    }
+
+    private maskData(collection: string, data: Record<string, unknown>[]): { data: Record<string, unknown>[]; masked: MaskedColumn[] } {
+        if (!this.masker) return { data, masked: [] };
+        const { rows, masked } = this.masker.maskRows(data, [{ name: collection }]);
+        return { data: rows, masked };
+    }
+
+    async getDocument(path: string): Promise<DocumentInfo> {
+        if (path.split('/').filter(Boolean).length % 2 !== 0) {
+            throw new Error(`"${path}" is a collection path; document paths have an even number of segments`);
+        }
+        this.assertPath(path);
+        const snapshot = await this.db.doc(path).get();
+        if (!snapshot.exists) {
+            throw new Error(`Document "${path}" not found`);
+        }
+        const document = toDocumentInfo(snapshot, this.visibleFields(snapshot.ref.parent.id, snapshot.data() ?? {}));
+        const { data: [data], masked } = this.maskData(snapshot.ref.parent.id, [document.data]);
+        return { ...document, data, ...(masked.length > 0 && { masked }) };
+    }
+
+    /**
+     * Root collections, or the subcollections of the document at `path`.
+     */
+    async listCollections(path?: string): Promise<CollectionInfo[]> {
+        if (path) this.assertPath(path);
+        const collections = path
+            ? await this.db.doc(path).listCollections()
+            : await this.db.listCollections();
+        return collections
+            .filter(collection => !this.access || this.access.allowsTable({ name: collection.id }))
+            .map(collection => ({ id: collection.id, path: collection.path }));
+    }
+
+    async query(request: FirestoreQuery, maxDocuments: number): Promise<DocumentQueryResult> {
+        this.assertPath(request.collection);
+        const collectionId = request.collection.split('/').filter(Boolean).pop() ?? request.collection;
+        const fields = [...(request.where ?? []), ...(request.orderBy ?? [])].map(({ field }) => field);
+        fields.concat(request.select ?? []).forEach(field => this.assertField(collectionId, field));
+        let query: Query = request.collectionGroup
+            ? this.db.collectionGroup(request.collection)
+            : this.db.collection(request.collection);
+
+        for (const filter of request.where ?? []) {
+            query = query.where(fieldPath(filter.field), filter.op, decodeFirestoreValue(filter.value, this.db));
+        }
+        for (const order of request.orderBy ?? []) {
+            query = query.orderBy(fieldPath(order.field), order.direction ?? 'asc');
+        }
+        if (request.select) {
+            query = query.select(...request.select);
+        }
+        if (request.startAfter) {
+            // Resuming from the snapshot keeps every orderBy field and the implicit ordering in step
+            const cursor = await this.db.doc(request.startAfter).get();
+            if (!cursor.exists) {
+                throw new Error(`Cursor document "${request.startAfter}" no longer exists`);
+            }
+            query = query.startAfter(cursor);
+        }
+
+        // Fetch one extra document to learn whether another page exists
+        const limit = Math.min(request.limit ?? maxDocuments, maxDocuments);
+        const snapshot = await query.limit(limit + 1).get();
+        const documents = snapshot.docs.slice(0, limit);
+        const infos = documents.map(document => toDocumentInfo(document, this.visibleFields(document.ref.parent.id, document.data())));
+        const { data, masked } = this.maskData(collectionId, infos.map(info => info.data));
+
+        return {
+            documents: infos.map((info, index) => ({ ...info, data: data[index] })),
+            nextStartAfter: snapshot.docs.length > limit ? documents[documents.length - 1].ref.path : null,
+            ...(masked.length > 0 && { masked }),
+        };
+    }
+
+    /**
+     * Infers columns from a sample of documents. Nested maps are flattened
+     * into dotted paths; `presence` is the share of sampled documents that
+     * have the field, and `type` lists the observed types, most common first.
+     */
+    async inferSchema(collection: string, sampleSize = DEFAULT_SAMPLE_SIZE): Promise<ColumnInfo[]> {
+        this.assertPath(collection);
+        const snapshot = await this.db.collection(collection).limit(sampleSize).get();
+        const fields = new Map<string, { count: number; types: Map<string, number> }>();
+
+        for (const document of snapshot.docs) {
+            for (const [path, value] of flattenFields(this.visibleFields(document.ref.parent.id, document.data()))) {
+                const field = fields.get(path) ?? { count: 0, types: new Map<string, number>() };
+                const type = firestoreTypeOf(value);
+                field.count++;
+                field.types.set(type, (field.types.get(type) ?? 0) + 1);
+                fields.set(path, field);
+            }
+        }
+
+        const total = snapshot.size;
+        return [...fields.entries()].map(([name, field]) => ({
+            name,
+            type: [...field.types.entries()].sort((a, b) => b[1] - a[1]).map(([type]) => type).join(' | '),
+            nullable: field.count < total || field.types.has('null'),
+            presence: Math.round((field.count / total) * 1000) / 1000,
+        }));
+    }
+
+    /**
+     * Counts the documents of a collection and reads the first `sampleSize`
+     * of them in document ID order, flattened into the same field paths as
+     * inferSchema.
+     */
+    async sampleCollection(collection: string, sampleSize: number): Promise<{ count: number; documents: Map<string, unknown>[] }> {
+        this.assertPath(collection);
+        const reference = this.db.collection(collection);
+        const [count, snapshot] = await Promise.all([reference.count().get(), reference.limit(sampleSize).get()]);
+        return {
+            count: count.data().count,
+            documents: snapshot.docs.map(document => flattenFields(this.visibleFields(document.ref.parent.id, document.data()))),
+        };
+    }
+
+    /**
+     * Writes documents into a collection in one atomic batch. IDs may be
+     * relative paths such as "alice/orders/o1" to reach subcollections. When
+     * the batch is rejected and `stopOnError` is not set, documents are
+     * retried one at a time so that only the bad ones are reported.
+     */
+    async writeDocuments(
+        collection: string,
+        documents: { id?: string; data: Record<string, unknown> }[],
+        stopOnError: boolean
+    ): Promise<BatchResult> {
+        if (this.readOnly) {
+            throw new Error('Connection is read-only; rejected import');
+        }
+        documents.forEach(document => this.assertPath(document.id ? `${collection}/${document.id}` : collection));
+
+        const target = this.db.collection(collection);
+        const reference = (id?: string) => (id ? target.doc(id) : target.doc());
+
+        const batch = this.db.batch();
+        documents.forEach(document => batch.set(reference(document.id), document.data));
+        try {
+            await batch.commit();
+            return { inserted: documents.length, failures: [] };
+        } catch (error: unknown) {
+            if (stopOnError) {
+                // The batch is atomic, so nothing was written
+                return { inserted: 0, failures: [{ index: 0, error: errorMessage(error) }] };
+            }
+        }
+
+        const result: BatchResult = { inserted: 0, failures: [] };
+        for (const [index, document] of documents.entries()) {
+            try {
+                await reference(document.id).set(document.data);
+                result.inserted++;
+            } catch (error: unknown) {
+                result.failures.push({ index, error: errorMessage(error) });
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Writes every document of a collection to a JSON Lines file, one
+     * DocumentLine per line with values in the tagged form. With `recursive`
+     * each document is followed by its subcollections; subcollections under
+     * documents that do not exist themselves are not reached.
+     */
+    async exportCollection(collection: string, path: string, recursive = false): Promise<ExportFileResult> {
+        this.assertPath(collection);
+        const output = new FileWriter(path);
+        let rowCount = 0;
+        const reports: MaskedColumn[][] = [];
+
+        const walk = async (reference: CollectionReference, prefix: string): Promise<void> => {
+            let cursor: DocumentSnapshot | undefined;
+            for (;;) {
+                let query = reference.orderBy(FieldPath.documentId()).limit(EXPORT_PAGE_SIZE);
+                if (cursor) query = query.startAfter(cursor);
+                const snapshot = await query.get();
+
+                for (const document of snapshot.docs) {
+                    const visible = this.visibleFields(reference.id, document.data());
+                    const { data: [data], masked } = this.maskData(reference.id, [encodeFirestoreValue(visible) as Record<string, unknown>]);
+                    reports.push(masked);
+                    const line: DocumentLine = { path: `${prefix}${document.id}`, data };
+                    await output.writeLines([JSON.stringify(line)]);
+                    rowCount++;
+                    if (recursive) {
+                        for (const subcollection of await document.ref.listCollections()) {
+                            // Hidden subcollections are left out of the file
+                            if (this.access && !this.access.allowsTable({ name: subcollection.id })) continue;
+                            await walk(subcollection, `${line.path}/${subcollection.id}/`);
+                        }
+                    }
+                }
+
+                if (snapshot.size < EXPORT_PAGE_SIZE) break;
+                cursor = snapshot.docs[snapshot.size - 1];
+            }
+        };
+
+        try {
+            await walk(this.db.collection(collection), '');
+        } finally {
+            await output.close();
+        }
+        const masked = mergeMaskedColumns(reports);
+        return { path, format: 'jsonl', rowCount, bytes: output.bytes, ...(masked.length > 0 && { masked }) };
+    }
+
+    /**
+     * Loads a file written by exportCollection into `collection`, which need
+     * not be the one it was exported from. Documents are overwritten.
+     */
+    async importCollection(
+        path: string,
+        collection: string,
+        options: { batchSize?: number; onError?: ImportErrorMode } = {}
+    ): Promise<CollectionImportReport> {
+        if (this.readOnly) {
+            throw new Error('Connection is read-only; rejected import');
+        }
+        this.assertPath(collection);
+        const stopOnError = (options.onError ?? 'abort') === 'abort';
+        const batchSize = Math.max(1, Math.min(options.batchSize ?? MAX_WRITE_BATCH_SIZE, MAX_WRITE_BATCH_SIZE));
+
+        const report: CollectionImportReport = {
+            collection,
+            documentsRead: 0,
+            written: 0,
+            failed: 0,
+            aborted: false,
+            failures: [],
+        };
+        const fail = (record: number, error: string) => {
+            report.failed++;
+            if (report.failures.length < MAX_REPORTED_FAILURES) report.failures.push({ record, error });
+        };
+
+        let batch: { record: number; id: string; data: Record<string, unknown> }[] = [];
+        const flush = async (): Promise<void> => {
+            if (batch.length === 0) return;
+            const result = await this.writeDocuments(collection, batch, stopOnError);
+            report.written += result.inserted;
+            result.failures.forEach(failure => fail(batch[failure.index].record, failure.error));
+            if (stopOnError && result.failures.length > 0) report.aborted = true;
+            batch = [];
+        };
+
+        const lines = createInterface({ input: createReadStream(path, 'utf8'), crlfDelay: Infinity });
+        let record = 0;
+        for await (const text of lines) {
+            if (text.trim() === '') continue;
+            record++;
+            report.documentsRead++;
+            try {
+                let value: unknown;
+                try {
+                    value = JSON.parse(text);
+                } catch {
+                    throw new Error('Not valid JSON');
+                }
+                const line = toDocumentLine(value);
+                batch.push({
+                    record,
+                    id: line.path,
+                    data: decodeFirestoreValue(line.data, this.db) as Record<string, unknown>,
+                });
+            } catch (error: unknown) {
+                fail(record, errorMessage(error));
+                if (stopOnError) {
+                    // Nothing from the pending batch has been written yet
+                    report.aborted = true;
+                    batch = [];
+                    break;
+                }
+                continue;
+            }
+
+            if (batch.length >= batchSize) await flush();
+            if (report.aborted) break;
+        }
+        lines.close();
+
+        if (!report.aborted) await flush();
+        return report;
+    }
+}
@@ -0,0 +1,315 @@
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { extname } from 'node:path';
+import { DatabaseService } from './database.js';
+import { ColumnInfo } from '../types/database.js';
+import { SqlDialect } from '../types/sql.js';
+import { BatchResult, ImportFailure, ImportFormat, ImportOptions, ImportReport } from '../types/import.js';
+import { CsvParser } from '../utils/formats.js';
+
+const DEFAULT_BATCH_SIZE = 500;
+// Firestore rejects write batches with more than 500 operations
+const FIRESTORE_MAX_BATCH_SIZE = 500;
+// Lowest bind parameter limit of the SQL engines (SQLite's default)
+const MAX_BIND_PARAMETERS = 32766;
+// Keeps the report readable; the total is still counted
+const MAX_REPORTED_FAILURES = 100;
+
+type ColumnKind = 'integer' | 'decimal' | 'boolean' | 'json' | 'binary' | 'array' | 'other';
+
+// A record that could not be read carries an error instead of values
+interface FileRecord {
+    record: number;
+    values?: Record<string, unknown>;
+    error?: string;
+}
+
+function columnKind(type: string, dialect: SqlDialect): ColumnKind {
+    const normalized = type.toLowerCase();
+    if (dialect === 'postgres' && normalized.endsWith('[]')) return 'array';
+    if (dialect === 'mysql' && /^(tinyint\(1\)|bool|boolean)/.test(normalized)) return 'boolean';
+    if (/^bool/.test(normalized)) return 'boolean';
+    if (/^(tiny|small|medium|big)?int(eger|[248])?\b|^(small|big)?serial/.test(normalized)) return 'integer';
+    if (/^(numeric|decimal|real|double|float|money)/.test(normalized)) return 'decimal';
+    if (/^jsonb?$/.test(normalized)) return 'json';
+    if (/^(bytea|blob|binary|varbinary|tinyblob|mediumblob|longblob)/.test(normalized)) return 'binary';
+    return 'other';
+}
+
+const TRUE_VALUES = new Set(['true', 't', '1', 'yes', 'y']);
+const FALSE_VALUES = new Set(['false', 'f', '0', 'no', 'n']);
+
+/**
+ * Converts a file value to what the driver expects for the column. Text from
+ * CSV files is checked against numeric and boolean columns up front so that
+ * bad values are reported per row instead of failing a whole batch.
+ */
+function coerceValue(value: unknown, column: ColumnInfo, dialect: SqlDialect): unknown {
+    if (value === null || value === undefined) return null;
+    const kind = columnKind(column.type, dialect);
+
+    switch (kind) {
+        case 'integer': {
+            const text = String(value).trim();
+            if (!/^[+-]?\d+$/.test(text)) throw new Error(`"${column.name}": ${JSON.stringify(value)} is not an integer`);
+            const number = Number(text);
+            return Number.isSafeInteger(number) ? number : text;
+        }
+        case 'decimal': {
+            const text = String(value).trim();
+            if (text === '' || !Number.isFinite(Number(text))) {
+                throw new Error(`"${column.name}": ${JSON.stringify(value)} is not a number`);
+            }
+            return typeof value === 'number' ? value : text;
+        }
+        case 'boolean': {
+            let flag: boolean;
+            if (typeof value === 'boolean') flag = value;
+            else if (TRUE_VALUES.has(String(value).trim().toLowerCase())) flag = true;
+            else if (FALSE_VALUES.has(String(value).trim().toLowerCase())) flag = false;
+            else throw new Error(`"${column.name}": ${JSON.stringify(value)} is not a boolean`);
+            return dialect === 'sqlite' ? Number(flag) : flag;
+        }
+        case 'json': {
+            if (typeof value !== 'string') return JSON.stringify(value);
+            try {
+                JSON.parse(value);
+            } catch {
+                throw new Error(`"${column.name}": value is not valid JSON`);
+            }
+            return value;
+        }
+        case 'binary': {
+            if (typeof value !== 'string') throw new Error(`"${column.name}": binary values must be hex or base64 text`);
+            // \x-prefixed hex as written by Postgres, base64 as written by the CSV and JSON Lines exports
+            return value.startsWith('\\x') ? Buffer.from(value.slice(2), 'hex') : Buffer.from(value, 'base64');
+        }
+        case 'array':
+            // JSON arrays are serialized by the driver; text is passed on as an array literal
+            return value;
+        default: {
+            if (typeof value === 'object') return JSON.stringify(value);
+            if (typeof value === 'boolean' && dialect === 'sqlite') return Number(value);
+            return value;
+        }
+    }
+}
+
+/**
+ * Best-effort typing of CSV text for schemaless Firestore documents.
+ */
+function inferValue(value: unknown): unknown {
+    if (typeof value !== 'string') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(value) && Number.isFinite(Number(value))) {
+        const number = Number(value);
+        if (!Number.isInteger(number) || Number.isSafeInteger(number)) return number;
+    }
+    return value;
+}
+
+export class DataImporter {
+    constructor(private service: DatabaseService) {}
+
+    async importFile(options: ImportOptions): Promise<ImportReport> {
+        if (this.service.readOnly) {
+            throw new Error('Connection is read-only; rejected import');
+        }
+        const format = options.format ?? this.formatFromPath(options.path);
+        const stopOnError = (options.onError ?? 'abort') === 'abort';
+        const firestore = this.service.type === 'firestore';
+
+        const report: ImportReport = {
+            table: options.table,
+            format,
+            mapping: {},
+            ignoredColumns: [],
+            rowsRead: 0,
+            inserted: 0,
+            failed: 0,
+            aborted: false,
+            failures: [],
+        };
+        const fail = (failure: ImportFailure) => {
+            report.failed++;
+            if (report.failures.length < MAX_REPORTED_FAILURES) report.failures.push(failure);
+        };
+
+        // Insertable table columns; Firestore has none and takes every field
+        const details = firestore ? null : await this.service.describeTable(options.table, options.schema);
+        const insertable = details?.columns.filter(column => !column.generated) ?? [];
+        const mapColumn = (fileColumn: string): string | undefined => {
+            if (firestore) return options.columnMap?.[fileColumn] ?? fileColumn;
+            const wanted = options.columnMap?.[fileColumn] ?? fileColumn;
+            return (insertable.find(column => column.name === wanted)
+                ?? insertable.find(column => column.name.toLowerCase() === wanted.toLowerCase()))?.name;
+        };
+
+        const maxBatch = firestore
+            ? FIRESTORE_MAX_BATCH_SIZE
+            : Math.max(1, Math.floor(MAX_BIND_PARAMETERS / Math.max(insertable.length, 1)));
+        const batchSize = Math.min(options.batchSize ?? DEFAULT_BATCH_SIZE, maxBatch);
+
+        let batch: { record: number; row: unknown[] | { id?: string; data: Record<string, unknown> } }[] = [];
+        let batchColumns: string[] = [];
+
+        const flush = async (): Promise<void> => {
+            if (batch.length === 0) return;
+            let result: BatchResult;
+            if (firestore) {
+                result = await this.service.importDocuments(
+                    options.table,
+                    batch.map(item => item.row as { id?: string; data: Record<string, unknown> }),
+                    stopOnError
+                );
+            } else {
+                result = await this.service.insertBatch(
+                    details!.schema!,
+                    details!.name,
+                    batchColumns,
+                    batch.map(item => item.row as unknown[]),
+                    stopOnError
+                );
+            }
+            report.inserted += result.inserted;
+            result.failures.forEach(failure => fail({ record: batch[failure.index].record, error: failure.error }));
+            if (stopOnError && result.failures.length > 0) report.aborted = true;
+            batch = [];
+        };
+
+        for await (const { record, values, error } of this.readRecords(options, format)) {
+            report.rowsRead++;
+            if (!values) {
+                fail({ record, error: error! });
+                if (stopOnError) {
+                    report.aborted = true;
+                    break;
+                }
+                continue;
+            }
+
+            const fileColumns = Object.keys(values);
+            for (const fileColumn of fileColumns) {
+                if (fileColumn in report.mapping || report.ignoredColumns.includes(fileColumn)) continue;
+                if (firestore && fileColumn === options.idField) continue;
+                const target = mapColumn(fileColumn);
+                if (target) report.mapping[fileColumn] = target;
+                else report.ignoredColumns.push(fileColumn);
+            }
+
+            try {
+                if (firestore) {
+                    const data: Record<string, unknown> = {};
+                    for (const fileColumn of fileColumns) {
+                        if (fileColumn === options.idField) continue;
+                        data[report.mapping[fileColumn]] = format === 'csv' ? inferValue(values[fileColumn]) : values[fileColumn];
+                    }
+                    const id = options.idField !== undefined ? values[options.idField] : undefined;
+                    if (options.idField !== undefined && (id === null || id === undefined || id === '')) {
+                        throw new Error(`Missing document ID field "${options.idField}"`);
+                    }
+                    batch.push({ record, row: { id: id === undefined ? undefined : String(id), data } });
+                } else {
+                    // One statement per batch needs one column list, so rows with other columns start a new batch
+                    const mapped = fileColumns.filter(fileColumn => report.mapping[fileColumn]);
+                    const columns = mapped.map(fileColumn => report.mapping[fileColumn]);
+                    if (columns.join('\u0000') !== batchColumns.join('\u0000')) {
+                        await flush();
+                        if (report.aborted) break;
+                        batchColumns = columns;
+                    }
+                    if (columns.length === 0) {
+                        throw new Error('No columns match the table');
+                    }
+                    const row = mapped.map(fileColumn => coerceValue(
+                        values[fileColumn],
+                        insertable.find(column => column.name === report.mapping[fileColumn])!,
+                        this.service.type as SqlDialect
+                    ));
+                    batch.push({ record, row });
+                }
+            } catch (error: unknown) {
+                fail({ record, error: error instanceof Error ? error.message : String(error) });
+                if (stopOnError) {
+                    // Nothing from the pending batch has been written yet
+                    report.aborted = true;
+                    batch = [];
+                    break;
+                }
+                continue;
+            }
+
+            if (batch.length >= batchSize) await flush();
+            if (report.aborted) break;
+        }
+
+        if (!report.aborted) await flush();
+        return report;
+    }
+
+    private formatFromPath(path: string): ImportFormat {
+        const extension = extname(path).toLowerCase();
+        if (extension === '.csv' || extension === '.tsv') return 'csv';
+        if (extension === '.jsonl' || extension === '.ndjson') return 'jsonl';
+        throw new Error(`Cannot tell the format of "${path}"; pass format: "csv" or "jsonl"`);
+    }
+
+    private async *readRecords(options: ImportOptions, format: ImportFormat): AsyncGenerator<FileRecord> {
+        if (format === 'jsonl') {
+            const lines = createInterface({ input: createReadStream(options.path, 'utf8'), crlfDelay: Infinity });
+            let record = 0;
+            for await (const line of lines) {
+                if (line.trim() === '') continue;
+                record++;
+                let values: unknown;
+                try {
+                    values = JSON.parse(line);
+                } catch {
+                    yield { record, error: 'Not valid JSON' };
+                    continue;
+                }
+                if (!values || typeof values !== 'object' || Array.isArray(values)) {
+                    yield { record, error: 'Not a JSON object' };
+                    continue;
+                }
+                yield { record, values: values as Record<string, unknown> };
+            }
+            return;
+        }
+
+        const hasHeader = options.csv?.header ?? !options.columns;
+        const parser = new CsvParser(options.csv?.delimiter ?? (extname(options.path).toLowerCase() === '.tsv' ? '\t' : ','));
+        const nullValue = options.nullValue ?? '';
+        let header = hasHeader ? undefined : options.columns;
+        if (!hasHeader && !header) {
+            throw new Error('CSV files without a header row need columns');
+        }
+
+        let record = 0;
+        const toRecord = (fields: string[]): FileRecord | undefined => {
+            if (!header) {
+                header = options.columns ?? fields;
+                return undefined;
+            }
+            record++;
+            if (fields.length !== header.length) {
+                return { record, error: `Has ${fields.length} fields, expected ${header.length}` };
+            }
+            return {
+                record,
+                values: Object.fromEntries(header.map((name, i) => [name, fields[i] === nullValue ? null : fields[i]])),
+            };
+        };
+
+        for await (const chunk of createReadStream(options.path, 'utf8')) {
+            for (const fields of parser.push(chunk as string)) {
+                const next = toRecord(fields);
+                if (next) yield next;
+            }
+        }
+        for (const fields of parser.end()) {
+            const next = toRecord(fields);
+            if (next) yield next;
+        }
+    }
+}
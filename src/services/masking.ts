@@ -0,0 +1,304 @@
+import { createHash } from 'node:crypto';
+import { MaskedColumn, MaskingMode, MaskingPolicy, MaskingRule, ResultSources, ValueDetector } from '../types/masking.js';
+import { TableProfile } from '../types/profile.js';
+import { SqlRelation } from '../types/sql.js';
+import { globPattern } from '../utils/glob.js';
+import { REDACTED } from '../utils/redact.js';
+
+export const MASKING_MODES: MaskingMode[] = ['hash', 'partial', 'drop'];
+export const VALUE_DETECTORS: ValueDetector[] = ['email', 'credit-card', 'phone', 'ip-address'];
+
+const VALUE_PATTERNS: Record<ValueDetector, RegExp> = {
+    'email': /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+    'credit-card': /\b\d(?:[ -]?\d){12,18}\b/g,
+    // International numbers only; local formats are too easily confused with dates and ids
+    'phone': /\+\d{1,3}(?:[ .-]?\(?\d{1,4}\)?){2,5}/g,
+    'ip-address': /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+};
+
+const HASH_LENGTH = 16;
+
+// Card numbers carry a Luhn check digit, which rules out most other digit runs
+function passesLuhn(text: string): boolean {
+    const digits = text.replace(/\D/g, '');
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+function isDetected(detector: ValueDetector, match: string): boolean {
+    switch (detector) {
+        case 'credit-card':
+            return passesLuhn(match);
+        case 'phone':
+            return match.replace(/\D/g, '').length >= 8;
+        default:
+            return true;
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (value === null || typeof value !== 'object') return false;
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+function valueText(value: unknown): string {
+    if (typeof value === 'string') return value;
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof Uint8Array) return Buffer.from(value).toString('hex');
+    if (typeof value === 'object') return JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item));
+    return String(value);
+}
+
+/**
+ * Keeps the domain of email addresses and the last quarter (at most four
+ * characters) of anything else.
+ */
+function partialMask(text: string): string {
+    const at = text.lastIndexOf('@');
+    if (at > 0 && /^[^@\s]+@[^@\s]+$/.test(text)) {
+        return `${text[0]}***${text.slice(at)}`;
+    }
+    const keep = Math.min(4, Math.floor(text.length / 4));
+    return '*'.repeat(text.length - keep) + text.slice(text.length - keep);
+}
+
+function ruleLabel(rule: MaskingRule): string {
+    return [
+        rule.tables && `tables: ${rule.tables.join(', ')}`,
+        rule.columns && `columns: ${rule.columns.join(', ')}`,
+        rule.values && `values: ${rule.values.join(', ')}`,
+    ].filter(Boolean).join('; ') || 'all columns';
+}
+
+interface CompiledRule {
+    rule: MaskingRule;
+    label: string;
+    tables: { pattern: RegExp; qualified: boolean }[] | null;
+    columns: RegExp[] | null;
+}
+
+/**
+ * Sums the counts of reports from several pages or chunks of one result.
+ */
+export function mergeMaskedColumns(reports: MaskedColumn[][]): MaskedColumn[] {
+    const merged = new Map<string, MaskedColumn>();
+    for (const entry of reports.flat()) {
+        const key = `${entry.column}\u0000${entry.mode}\u0000${entry.rule}`;
+        const existing = merged.get(key);
+        if (existing) existing.count += entry.count;
+        else merged.set(key, { ...entry });
+    }
+    return [...merged.values()];
+}
+
+/**
+ * Applies a masking policy to rows on their way out of DatabaseService.
+ * Columns are matched by name; table patterns are matched against the
+ * relations the result was read from. With the sources of a query's result
+ * columns, renamed columns are also matched by the table column they were
+ * read from, and computed ones by every name the query mentions.
+ */
+export class DataMasker {
+    private rules: CompiledRule[];
+
+    constructor(private policy: MaskingPolicy) {
+        this.rules = policy.rules.map(rule => ({
+            rule,
+            label: ruleLabel(rule),
+            tables: rule.tables?.map(table => ({ pattern: globPattern(table), qualified: table.includes('.') })) ?? null,
+            columns: rule.columns?.map(globPattern) ?? null,
+        }));
+    }
+
+    maskRows(
+        rows: Record<string, unknown>[],
+        relations: SqlRelation[],
+        sources?: ResultSources
+    ): { rows: Record<string, unknown>[]; masked: MaskedColumn[] } {
+        const report = new Map<string, MaskedColumn>();
+        const rules = this.rulesFor(relations);
+        const columnRule = sources && ((column: string) => this.sourceRuleFor(rules, column, sources));
+        const masked = rows.map(row => this.maskRecord(row, rules, '', report, columnRule));
+        return { rows: masked, masked: [...report.values()] };
+    }
+
+    /**
+     * Columns a whole-column drop rule removes from results of the relations.
+     */
+    droppedColumns(columns: string[], relations: SqlRelation[]): string[] {
+        const rules = this.rulesFor(relations);
+        return columns.filter(column => {
+            const rule = this.ruleFor(rules, column)?.rule;
+            return rule?.mode === 'drop' && !rule.values;
+        });
+    }
+
+    /**
+     * Masks the values a profile reveals. Averages and histograms of masked
+     * columns are removed, since they describe the values themselves.
+     */
+    maskProfile(profile: TableProfile): TableProfile {
+        const rules = this.rulesFor([{ schema: profile.schema, name: profile.table }]);
+        const masked: MaskedColumn[] = [];
+        const dropped: string[] = [];
+        const columns = profile.columns.flatMap(column => {
+            const rule = this.ruleFor(rules, column.name);
+            if (!rule) return [column];
+            const { mode } = rule.rule;
+            if (!rule.rule.values && mode === 'drop') {
+                masked.push({ column: column.name, mode, rule: rule.label, count: profile.sampleRows });
+                dropped.push(column.name);
+                return [];
+            }
+
+            let count = 0;
+            const mask = (text: string): string => {
+                const [result, changed] = rule.rule.values ? this.maskDetected(text, rule) : [this.maskWhole(text, mode), 1];
+                count += changed;
+                return result as string;
+            };
+            const result = { ...column };
+            if (result.min != null) result.min = mask(result.min);
+            if (result.max != null) result.max = mask(result.max);
+            result.topValues = result.topValues?.map(frequency => ({ ...frequency, value: mask(frequency.value) }));
+            if (!rule.rule.values) {
+                delete result.avg;
+                delete result.histogram;
+            }
+            if (count > 0 || !rule.rule.values) {
+                masked.push({ column: column.name, mode, rule: rule.label, count });
+            }
+            return [result];
+        });
+        return {
+            ...profile,
+            columns,
+            // Findings start with the column name they are about
+            findings: profile.findings.filter(finding => !dropped.some(column => finding.startsWith(`${column}: `))),
+            ...(masked.length > 0 && { masked }),
+        };
+    }
+
+    // Rules whose table patterns match one of the relations
+    private rulesFor(relations: SqlRelation[]): CompiledRule[] {
+        return this.rules.filter(rule => !rule.tables || rule.tables.some(({ pattern, qualified }) =>
+            relations.some(relation => pattern.test(qualified ? `${relation.schema ?? ''}.${relation.name}` : relation.name))));
+    }
+
+    // The first rule that matches the column's name or dotted path decides
+    private ruleFor(rules: CompiledRule[], column: string, path = column): CompiledRule | undefined {
+        return rules.find(rule => !rule.columns || rule.columns.some(pattern => pattern.test(column) || pattern.test(path)));
+    }
+
+    /**
+     * The first rule that matches an output column by its name, by the table
+     * column it was read from or, when it is computed, by any name the query
+     * mentions. Columns without a known source are matched by name alone.
+     */
+    private sourceRuleFor(rules: CompiledRule[], column: string, sources: ResultSources): CompiledRule | undefined {
+        const source = sources.columns.get(column);
+        if (source === undefined) return this.ruleFor(rules, column);
+        const names = source ? [column] : [column, ...sources.names];
+        const sourceRules = source ? this.rulesFor([source.relation]) : [];
+        return this.rules.find(rule =>
+            (rules.includes(rule) && names.some(name => this.ruleFor([rule], name)))
+            || (sourceRules.includes(rule) && this.ruleFor([rule], source!.column)));
+    }
+
+    /**
+     * Masks one row or document. Nested objects (JSON columns, Firestore maps)
+     * are searched for matching keys, which are reported by dotted path.
+     */
+    private maskRecord(
+        record: Record<string, unknown>,
+        rules: CompiledRule[],
+        prefix: string,
+        report: Map<string, MaskedColumn>,
+        columnRule?: (column: string) => CompiledRule | undefined
+    ): Record<string, unknown> {
+        const result: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(record)) {
+            const path = prefix ? `${prefix}.${key}` : key;
+            const rule = columnRule ? columnRule(key) : this.ruleFor(rules, key, path);
+            if (!rule) {
+                result[key] = isPlainObject(value) ? this.maskRecord(value, rules, path, report) : value;
+                continue;
+            }
+
+            const entry = report.get(path) ?? { column: path, mode: rule.rule.mode, rule: rule.label, count: 0 };
+            if (rule.rule.values) {
+                const [masked, count] = this.maskDetected(value, rule);
+                result[key] = masked;
+                entry.count += count;
+                if (entry.count > 0) report.set(path, entry);
+                continue;
+            }
+            // Column rules are reported even when every value was null
+            report.set(path, entry);
+            if (rule.rule.mode === 'drop') {
+                entry.count++;
+            } else if (value === null || value === undefined) {
+                result[key] = value;
+            } else {
+                result[key] = this.maskWhole(valueText(value), rule.rule.mode);
+                entry.count++;
+            }
+        }
+        return result;
+    }
+
+    private maskWhole(text: string, mode: MaskingMode): string {
+        switch (mode) {
+            case 'hash':
+                return `sha256:${createHash('sha256').update(`${this.policy.hashSalt ?? ''}${text}`).digest('hex').slice(0, HASH_LENGTH)}`;
+            case 'partial':
+                return partialMask(text);
+            case 'drop':
+                return REDACTED;
+        }
+    }
+
+    /**
+     * Replaces the detected values inside text, numbers, arrays and objects,
+     * returning the new value and the number of replacements.
+     */
+    private maskDetected(value: unknown, rule: CompiledRule): [unknown, number] {
+        if (typeof value === 'string') {
+            let count = 0;
+            let text = value;
+            for (const detector of rule.rule.values!) {
+                text = text.replace(VALUE_PATTERNS[detector], match => {
+                    if (!isDetected(detector, match)) return match;
+                    count++;
+                    return this.maskWhole(match, rule.rule.mode);
+                });
+            }
+            return [text, count];
+        }
+        if (typeof value === 'number' || typeof value === 'bigint') {
+            // Card numbers kept in numeric columns
+            const [text, count] = this.maskDetected(String(value), rule);
+            return count > 0 ? [text, count] : [value, 0];
+        }
+        if (Array.isArray(value) || isPlainObject(value)) {
+            let count = 0;
+            const mapped = Object.entries(value).map(([key, item]) => {
+                const [masked, changed] = this.maskDetected(item, rule);
+                count += changed;
+                return [key, masked] as const;
+            });
+            if (count === 0) return [value, 0];
+            return [Array.isArray(value) ? mapped.map(([, item]) => item) : Object.fromEntries(mapped), count];
+        }
+        return [value, 0];
+    }
+}
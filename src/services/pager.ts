@@ -0,0 +1,235 @@
+import { randomUUID } from 'node:crypto';
+import { DatabaseService } from './database.js';
+import { ConnectionRegistry } from './connections.js';
+import { QueryParams } from '../types/sql.js';
+import { ExportPage, PageInfo, QueryPage, ResultLimits } from '../types/results.js';
+import { CsvOptions, ExportOptions, TabularFormat } from '../types/export.js';
+import { MaskedColumn } from '../types/masking.js';
+import { createRowFormatter } from '../utils/formats.js';
+import { isPageableQuery } from '../utils/sql.js';
+
+// Cursors are re-executed with a new offset, so they only need to outlive a conversation turn
+const CURSOR_TTL_MS = 15 * 60 * 1000;
+
+interface CursorBase {
+    connection: string;
+    service: DatabaseService;
+    offset: number;
+    limits: ResultLimits;
+    expiresAt: number;
+}
+
+interface QueryCursor extends CursorBase {
+    kind: 'query';
+    query: string;
+    params?: QueryParams;
+    // Set for !export-query, which renders rows instead of returning JSON
+    format?: TabularFormat;
+    csv?: Partial<CsvOptions>;
+}
+
+interface ExportCursor extends CursorBase {
+    kind: 'export';
+    table: string;
+    schema?: string;
+    options: ExportOptions;
+}
+
+type PageCursor = QueryCursor | ExportCursor;
+
+/**
+ * Keeps items within the row and byte budget. At least one item is kept so
+ * that a single oversized row cannot stall pagination.
+ */
+function fitToBudget<T>(items: T[], limits: ResultLimits, measure: (item: T) => number) {
+    let kept = items.slice(0, limits.maxRows);
+    let truncatedBy: PageInfo['truncatedBy'] = kept.length < items.length ? 'rows' : null;
+
+    let bytes = 0;
+    for (let i = 0; i < kept.length; i++) {
+        bytes += measure(kept[i]);
+        if (bytes > limits.maxBytes && i > 0) {
+            kept = kept.slice(0, i);
+            truncatedBy = 'bytes';
+            break;
+        }
+    }
+
+    return { kept, truncatedBy };
+}
+
+function jsonSize(row: unknown): number {
+    return Buffer.byteLength(JSON.stringify(row) ?? '') + 1;
+}
+
+function textSize(line: string): number {
+    return Buffer.byteLength(line) + 1;
+}
+
+export class ResultPager {
+    private cursors = new Map<string, PageCursor>();
+
+    constructor(private connections: ConnectionRegistry, private defaults: ResultLimits) {}
+
+    /**
+     * Applies per-call overrides, which may only tighten the server-wide budget.
+     */
+    limits(overrides: Partial<ResultLimits> = {}): ResultLimits {
+        return {
+            maxRows: Math.min(overrides.maxRows ?? this.defaults.maxRows, this.defaults.maxRows),
+            maxBytes: Math.min(overrides.maxBytes ?? this.defaults.maxBytes, this.defaults.maxBytes),
+        };
+    }
+
+    async query(
+        service: DatabaseService,
+        connection: string,
+        query: string,
+        params: QueryParams | undefined,
+        limits: ResultLimits,
+        offset = 0
+    ): Promise<QueryPage> {
+        const { rows, pageable, masked } = await this.fetchQueryRows(service, query, params, limits, offset);
+
+        if (!Array.isArray(rows)) {
+            // Command results (affected rows etc.) are returned untouched
+            return { rows: [rows], rowCount: 1, offset, truncated: false, truncatedBy: null, nextCursor: null };
+        }
+
+        const { kept, truncatedBy } = fitToBudget(rows, limits, jsonSize);
+        const truncated = kept.length < rows.length;
+        const nextCursor = pageable && truncated
+            ? this.issue({ kind: 'query', connection, service, query, params, offset: offset + kept.length, limits })
+            : null;
+
+        return { rows: kept, rowCount: kept.length, offset, truncated, truncatedBy, nextCursor, ...(masked.length > 0 && { masked }) };
+    }
+
+    /**
+     * Like query, but renders the rows as CSV, JSON Lines or Markdown.
+     */
+    async exportQuery(
+        service: DatabaseService,
+        connection: string,
+        query: string,
+        params: QueryParams | undefined,
+        format: TabularFormat,
+        csv: Partial<CsvOptions> | undefined,
+        limits: ResultLimits,
+        offset = 0
+    ): Promise<ExportPage> {
+        const { rows, pageable, masked } = await this.fetchQueryRows(service, query, params, limits, offset);
+        if (!Array.isArray(rows)) {
+            throw new Error('Query did not return rows');
+        }
+
+        const formatter = createRowFormatter(format, rows.length > 0 ? Object.keys(rows[0]) : [], csv);
+        const { kept, truncatedBy } = fitToBudget(rows, limits, row => textSize(formatter.row(row)));
+        const truncated = kept.length < rows.length;
+        const nextCursor = pageable && truncated
+            ? this.issue({ kind: 'query', connection, service, query, params, format, csv, offset: offset + kept.length, limits })
+            : null;
+
+        const lines = [...this.headerFor(format, offset, formatter.header()), ...kept.map(row => formatter.row(row))];
+        return { format, lines, rowCount: kept.length, offset, truncated, truncatedBy, nextCursor, ...(masked.length > 0 && { masked }) };
+    }
+
+    async exportData(
+        service: DatabaseService,
+        connection: string,
+        table: string,
+        schema: string | undefined,
+        limits: ResultLimits,
+        offset = 0,
+        options: ExportOptions = {}
+    ): Promise<ExportPage> {
+        const format = options.format ?? 'sql';
+        const data = await service.readTableRows(table, schema, { offset, limit: limits.maxRows + 1 });
+
+        // Budget by each row's own line or INSERT so the page size does not depend on batching
+        const formatter = format === 'sql' ? null : createRowFormatter(format, data.columns, options.csv);
+        const render = (row: Record<string, unknown>) => formatter
+            ? formatter.row(row)
+            : service.renderInserts({ ...data, rows: [row] }, { ...options.insert, batchSize: 1 })[0];
+
+        const { kept, truncatedBy } = fitToBudget(data.rows, limits, row => textSize(render(row)));
+        const truncated = kept.length < data.rows.length;
+        const nextCursor = truncated
+            ? this.issue({ kind: 'export', connection, service, table, schema, options, offset: offset + kept.length, limits })
+            : null;
+
+        const lines = format === 'sql'
+            ? service.renderInserts({ ...data, rows: kept }, options.insert)
+            : [...this.headerFor(format, offset, formatter!.header()), ...kept.map(row => formatter!.row(row))];
+        return { format, lines, rowCount: kept.length, offset, truncated, truncatedBy, nextCursor, ...(data.masked && { masked: data.masked }) };
+    }
+
+    /**
+     * Fetches the page a continuation token points at.
+     */
+    async next(token: string): Promise<QueryPage | ExportPage> {
+        this.prune();
+
+        const cursor = this.cursors.get(token);
+        if (!cursor) {
+            throw new Error('Cursor not found or expired; rerun the original tool');
+        }
+        if (this.connections.get(cursor.connection) !== cursor.service) {
+            this.cursors.delete(token);
+            throw new Error(`Connection "${cursor.connection}" was closed or replaced; rerun the original tool`);
+        }
+
+        switch (cursor.kind) {
+            case 'query':
+                if (cursor.format) {
+                    return this.exportQuery(
+                        cursor.service, cursor.connection, cursor.query, cursor.params,
+                        cursor.format, cursor.csv, cursor.limits, cursor.offset
+                    );
+                }
+                return this.query(cursor.service, cursor.connection, cursor.query, cursor.params, cursor.limits, cursor.offset);
+            case 'export':
+                return this.exportData(cursor.service, cursor.connection, cursor.table, cursor.schema, cursor.limits, cursor.offset, cursor.options);
+        }
+    }
+
+    private async fetchQueryRows(
+        service: DatabaseService,
+        query: string,
+        params: QueryParams | undefined,
+        limits: ResultLimits,
+        offset: number
+    ): Promise<{ rows: any; pageable: boolean; masked: MaskedColumn[] }> {
+        const pageable = service.dialect !== null && isPageableQuery(query, service.dialect);
+
+        // Fetch one extra row to learn whether another page exists
+        const { result, masked } = pageable
+            ? await service.executeMaskedQuery(query, params, { offset, limit: limits.maxRows + 1 })
+            : await service.executeMaskedQuery(query, params);
+        return { rows: result, pageable, masked };
+    }
+
+    /**
+     * CSV headers are only written on the first page so that pages concatenate;
+     * Markdown tables need theirs on every page.
+     */
+    private headerFor(format: TabularFormat, offset: number, header: string[]): string[] {
+        return offset === 0 || format === 'markdown' ? header : [];
+    }
+
+    private issue(cursor: Omit<QueryCursor, 'expiresAt'> | Omit<ExportCursor, 'expiresAt'>): string {
+        this.prune();
+        const token = randomUUID();
+        this.cursors.set(token, { ...cursor, expiresAt: Date.now() + CURSOR_TTL_MS } as PageCursor);
+        return token;
+    }
+
+    private prune(): void {
+        const now = Date.now();
+        for (const [token, cursor] of this.cursors) {
+            if (cursor.expiresAt <= now) {
+                this.cursors.delete(token);
+            }
+        }
+    }
+}
@@ -0,0 +1,507 @@
+import pg from 'pg';
+import { topologicalSort } from '../utils/graph.js';
+
+type QueryFn = (text: string, values?: unknown[]) => Promise<pg.QueryResult<any>>;
+
+interface Relation {
+    oid: number;
+    schema: string;
+    name: string;
+    kind: string;
+    persistence: string;
+    partitionOf: number | null;
+    partitionBound: string | null;
+    partitionKey: string | null;
+    viewDefinition: string | null;
+    comment: string | null;
+}
+
+interface Column {
+    relation: number;
+    name: string;
+    type: string;
+    typeOid: number;
+    notNull: boolean;
+    default: string | null;
+    identity: string;
+    generated: string;
+    collation: string | null;
+    comment: string | null;
+}
+
+interface Constraint {
+    relation: number;
+    name: string;
+    type: string;
+    definition: string;
+    referencedRelation: number | null;
+}
+
+interface Sequence {
+    oid: number;
+    schema: string;
+    name: string;
+    dataType: string;
+    start: string;
+    increment: string;
+    min: string;
+    max: string;
+    cache: string;
+    cycle: boolean;
+    ownerRelation: number | null;
+    ownerColumn: string | null;
+}
+
+interface UserType {
+    oid: number;
+    schema: string;
+    name: string;
+    kind: 'e' | 'd';
+    labels: string[] | null;
+    baseType: string | null;
+    baseTypeOid: number | null;
+    notNull: boolean;
+    default: string | null;
+    collation: string | null;
+    constraints: { name: string; definition: string }[];
+}
+
+interface Catalog {
+    relations: Relation[];
+    columns: Column[];
+    constraints: Constraint[];
+    indexes: { relation: number; definition: string }[];
+    sequences: Sequence[];
+    types: UserType[];
+    viewDependencies: { view: number; dependency: number }[];
+}
+
+const SYSTEM_SCHEMA_FILTER = `
+    n.nspname NOT IN ('pg_catalog', 'information_schema')
+    AND n.nspname NOT LIKE 'pg_toast%'
+    AND n.nspname NOT LIKE 'pg_temp_%'
+`;
+
+// Constraint emission order inside CREATE TABLE
+const CONSTRAINT_ORDER = ['p', 'u', 'c', 'x', 'f'];
+
+function quoteIdent(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteLiteral(value: string): string {
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+function qualified(schema: string, name: string): string {
+    return `${quoteIdent(schema)}.${quoteIdent(name)}`;
+}
+
+/**
+ * Builds ownership- and privilege-free DDL from the Postgres system catalogs.
+ */
+export class PostgresDdlGenerator {
+    constructor(private query: QueryFn) {}
+
+    /**
+     * DDL for a single table: the enum/domain types and sequences it needs,
+     * the table with its constraints, its indexes and comments. Views get
+     * their CREATE VIEW statement instead.
+     */
+    async tableScript(schema: string, table: string): Promise<string> {
+        const found = await this.query(`
+            SELECT c.oid
+            FROM pg_class c
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p', 'v', 'm');
+        `, [schema, table]);
+        const oid = found.rows[0]?.oid;
+        if (!oid) {
+            throw new Error(`Table "${schema}.${table}" not found`);
+        }
+
+        const catalog = await this.loadCatalog(null, oid);
+        const relation = catalog.relations.find(candidate => candidate.oid === oid)!;
+        if (relation.kind === 'v' || relation.kind === 'm') {
+            return [...this.viewStatements(relation, catalog), ...this.commentStatements(relation, catalog)].join('\n\n');
+        }
+        const columns = catalog.columns.filter(column => column.relation === oid);
+        const sequences = catalog.sequences.filter(sequence => sequence.ownerRelation === oid);
+
+        const typeOids = new Set(columns.map(column => column.typeOid));
+        const types = this.withBaseTypes(catalog.types, typeOids);
+
+        return [
+            ...types.map(type => this.typeStatement(type)),
+            ...sequences.map(sequence => this.sequenceStatement(sequence)),
+            this.tableStatement(relation, catalog, () => true),
+            ...this.indexStatements(relation, catalog),
+            ...sequences.flatMap(sequence => this.sequenceOwnershipStatement(sequence, catalog)),
+            ...this.commentStatements(relation, catalog),
+        ].join('\n\n');
+    }
+
+    /**
+     * DDL for every schema (or just one), ordered so that the script can be
+     * replayed into an empty database: schemas, types, sequences, tables in
+     * foreign key order, deferred foreign keys, indexes, views, comments.
+     */
+    async databaseScript(schema?: string): Promise<string> {
+        const catalog = await this.loadCatalog(schema ?? null, null);
+
+        const schemas = schema
+            ? [schema]
+            : [...new Set([
+                ...catalog.relations.map(relation => relation.schema),
+                ...catalog.types.map(type => type.schema),
+                ...catalog.sequences.map(sequence => sequence.schema),
+            ])].sort();
+
+        const tables = catalog.relations.filter(relation => relation.kind === 'r' || relation.kind === 'p');
+        const orderedTables = topologicalSort(tables, table => {
+            const references = catalog.constraints
+                .filter(constraint => constraint.relation === table.oid && constraint.type === 'f')
+                .map(constraint => constraint.referencedRelation);
+            return tables.filter(other => references.includes(other.oid) || other.oid === table.partitionOf);
+        });
+
+        // Foreign keys whose target is created later (cycles) are added once all tables exist
+        const created = new Set<number>();
+        const deferred: string[] = [];
+        const tableStatements = orderedTables.map(table => {
+            created.add(table.oid);
+            return this.tableStatement(table, catalog, (constraint) => {
+                const inline = constraint.referencedRelation === null || created.has(constraint.referencedRelation);
+                if (!inline) {
+                    deferred.push(`ALTER TABLE ${qualified(table.schema, table.name)} ADD CONSTRAINT ${quoteIdent(constraint.name)} ${constraint.definition};`);
+                }
+                return inline;
+            });
+        });
+
+        const views = catalog.relations.filter(relation => relation.kind === 'v' || relation.kind === 'm');
+        const orderedViews = topologicalSort(views, view => {
+            const dependencies = catalog.viewDependencies
+                .filter(dependency => dependency.view === view.oid)
+                .map(dependency => dependency.dependency);
+            return views.filter(other => dependencies.includes(other.oid));
+        });
+
+        const sections = [
+            schemas.filter(name => name !== 'public').map(name => `CREATE SCHEMA IF NOT EXISTS ${quoteIdent(name)};`),
+            this.withBaseTypes(catalog.types, new Set(catalog.types.map(type => type.oid))).map(type => this.typeStatement(type)),
+            catalog.sequences.map(sequence => this.sequenceStatement(sequence)),
+            tableStatements,
+            deferred,
+            orderedTables.flatMap(table => this.indexStatements(table, catalog)),
+            orderedViews.flatMap(view => this.viewStatements(view, catalog)),
+            catalog.sequences.flatMap(sequence => this.sequenceOwnershipStatement(sequence, catalog)),
+            [...orderedTables, ...orderedViews].flatMap(relation => this.commentStatements(relation, catalog)),
+        ];
+
+        return sections
+            .filter(section => section.length > 0)
+            .map(section => section.join('\n\n'))
+            .join('\n\n');
+    }
+
+    /**
+     * Loads the catalog rows for one schema (or all user schemas), optionally
+     * narrowed to a single relation.
+     */
+    private async loadCatalog(schema: string | null, relation: number | null): Promise<Catalog> {
+        const scope = [schema, relation];
+
+        const relations = await this.query(`
+            SELECT
+                c.oid,
+                n.nspname as schema,
+                c.relname as name,
+                c.relkind as kind,
+                c.relpersistence as persistence,
+                (SELECT i.inhparent FROM pg_inherits i WHERE i.inhrelid = c.oid AND c.relispartition) as "partitionOf",
+                CASE WHEN c.relispartition THEN pg_get_expr(c.relpartbound, c.oid) END as "partitionBound",
+                CASE WHEN c.relkind = 'p' THEN pg_get_partkeydef(c.oid) END as "partitionKey",
+                CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid, true) END as "viewDefinition",
+                obj_description(c.oid, 'pg_class') as comment
+            FROM pg_class c
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            WHERE ${SYSTEM_SCHEMA_FILTER}
+                AND c.relkind IN ('r', 'p', 'v', 'm')
+                AND ($1::text IS NULL OR n.nspname = $1)
+                AND ($2::oid IS NULL OR c.oid = $2)
+            ORDER BY n.nspname, c.relname;
+        `, scope);
+
+        const columns = await this.query(`
+            SELECT
+                a.attrelid as relation,
+                a.attname as name,
+                format_type(a.atttypid, a.atttypmod) as type,
+                CASE WHEN t.typcategory = 'A' THEN t.typelem ELSE a.atttypid END as "typeOid",
+                a.attnotnull as "notNull",
+                pg_get_expr(d.adbin, d.adrelid) as "default",
+                a.attidentity as identity,
+                a.attgenerated as generated,
+                CASE WHEN a.attcollation <> t.typcollation THEN co.collname END as collation,
+                col_description(a.attrelid, a.attnum) as comment
+            FROM pg_attribute a
+            JOIN pg_class c ON c.oid = a.attrelid
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            JOIN pg_type t ON t.oid = a.atttypid
+            LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+            LEFT JOIN pg_collation co ON co.oid = a.attcollation
+            WHERE ${SYSTEM_SCHEMA_FILTER}
+                AND c.relkind IN ('r', 'p', 'v', 'm')
+                AND a.attnum > 0 AND NOT a.attisdropped
+                AND ($1::text IS NULL OR n.nspname = $1)
+                AND ($2::oid IS NULL OR c.oid = $2)
+            ORDER BY a.attrelid, a.attnum;
+        `, scope);
+
+        // Inherited constraints come from the parent; NOT NULL is emitted on the column
+        const constraints = await this.query(`
+            SELECT
+                con.conrelid as relation,
+                con.conname as name,
+                con.contype as type,
+                pg_get_constraintdef(con.oid, true) as definition,
+                nullif(con.confrelid, 0) as "referencedRelation"
+            FROM pg_constraint con
+            JOIN pg_class c ON c.oid = con.conrelid
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            WHERE ${SYSTEM_SCHEMA_FILTER}
+                AND con.contype IN ('p', 'u', 'c', 'x', 'f')
+                AND con.conislocal
+                AND ($1::text IS NULL OR n.nspname = $1)
+                AND ($2::oid IS NULL OR c.oid = $2)
+            ORDER BY con.conrelid, con.conname;
+        `, scope);
+
+        // Indexes backing constraints are created by the constraint itself
+        const indexes = await this.query(`
+            SELECT ix.indrelid as relation, pg_get_indexdef(ix.indexrelid) as definition
+            FROM pg_index ix
+            JOIN pg_class c ON c.oid = ix.indrelid
+            JOIN pg_class i ON i.oid = ix.indexrelid
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            WHERE ${SYSTEM_SCHEMA_FILTER}
+                AND NOT EXISTS (
+                    SELECT 1 FROM pg_constraint con
+                    WHERE con.conindid = ix.indexrelid AND con.conrelid = ix.indrelid AND con.contype IN ('p', 'u', 'x')
+                )
+                AND NOT EXISTS (SELECT 1 FROM pg_inherits inh WHERE inh.inhrelid = ix.indexrelid)
+                AND ($1::text IS NULL OR n.nspname = $1)
+                AND ($2::oid IS NULL OR c.oid = $2)
+            ORDER BY ix.indrelid, i.relname;
+        `, scope);
+
+        // Identity sequences (deptype 'i') belong to their column definition
+        const sequences = await this.query(`
+            SELECT
+                c.oid,
+                n.nspname as schema,
+                c.relname as name,
+                format_type(s.seqtypid, NULL) as "dataType",
+                s.seqstart::text as start,
+                s.seqincrement::text as increment,
+                s.seqmin::text as min,
+                s.seqmax::text as max,
+                s.seqcache::text as cache,
+                s.seqcycle as cycle,
+                d.refobjid as "ownerRelation",
+                a.attname as "ownerColumn"
+            FROM pg_sequence s
+            JOIN pg_class c ON c.oid = s.seqrelid
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            LEFT JOIN pg_depend d
+                ON d.classid = 'pg_class'::regclass AND d.objid = c.oid
+                AND d.refclassid = 'pg_class'::regclass AND d.deptype IN ('a', 'i')
+            LEFT JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+            WHERE ${SYSTEM_SCHEMA_FILTER}
+                AND (d.deptype IS NULL OR d.deptype = 'a')
+                AND ($1::text IS NULL OR n.nspname = $1)
+                AND ($2::oid IS NULL OR d.refobjid = $2)
+            ORDER BY n.nspname, c.relname;
+        `, scope);
+
+        // Types are few, so they are loaded across schemas; tables may use types from elsewhere
+        const types = await this.query(`
+            SELECT
+                t.oid,
+                n.nspname as schema,
+                t.typname as name,
+                t.typtype as kind,
+                CASE WHEN t.typtype = 'e' THEN ARRAY(
+                    SELECT e.enumlabel::text FROM pg_enum e WHERE e.enumtypid = t.oid ORDER BY e.enumsortorder
+                ) END as labels,
+                CASE WHEN t.typtype = 'd' THEN format_type(t.typbasetype, t.typtypmod) END as "baseType",
+                nullif(t.typbasetype, 0) as "baseTypeOid",
+                t.typnotnull as "notNull",
+                t.typdefault as "default",
+                CASE WHEN t.typcollation <> bt.typcollation THEN co.collname END as collation,
+                coalesce((
+                    SELECT json_agg(json_build_object('name', con.conname, 'definition', pg_get_constraintdef(con.oid, true)) ORDER BY con.conname)
+                    FROM pg_constraint con WHERE con.contypid = t.oid
+                ), '[]'::json) as constraints
+            FROM pg_type t
+            JOIN pg_namespace n ON n.oid = t.typnamespace
+            LEFT JOIN pg_type bt ON bt.oid = t.typbasetype
+            LEFT JOIN pg_collation co ON co.oid = t.typcollation
+            WHERE ${SYSTEM_SCHEMA_FILTER}
+                AND t.typtype IN ('e', 'd')
+                AND ($1::text IS NULL OR $2::oid IS NOT NULL OR n.nspname = $1)
+            ORDER BY n.nspname, t.typname;
+        `, scope);
+
+        const viewDependencies = relation === null
+            ? await this.query(`
+                SELECT DISTINCT r.ev_class as view, d.refobjid as dependency
+                FROM pg_rewrite r
+                JOIN pg_depend d ON d.classid = 'pg_rewrite'::regclass AND d.objid = r.oid
+                WHERE d.refclassid = 'pg_class'::regclass AND d.refobjid <> r.ev_class;
+            `)
+            : { rows: [] };
+
+        return {
+            relations: relations.rows,
+            columns: columns.rows,
+            constraints: constraints.rows,
+            indexes: indexes.rows,
+            sequences: sequences.rows,
+            types: types.rows,
+            viewDependencies: viewDependencies.rows,
+        };
+    }
+
+    /**
+     * Picks the given types plus the domain base types they build on, base types first.
+     */
+    private withBaseTypes(types: UserType[], oids: Set<number>): UserType[] {
+        const byOid = new Map(types.map(type => [type.oid, type]));
+        const needed = new Set<UserType>();
+
+        const visit = (oid: number | null) => {
+            const type = oid === null ? undefined : byOid.get(oid);
+            if (!type || needed.has(type)) return;
+            needed.add(type);
+            visit(type.baseTypeOid);
+        };
+        oids.forEach(oid => visit(oid));
+
+        const selected = types.filter(type => needed.has(type));
+        return topologicalSort(selected, type => selected.filter(other => other.oid === type.baseTypeOid));
+    }
+
+    private typeStatement(type: UserType): string {
+        const name = qualified(type.schema, type.name);
+        if (type.kind === 'e') {
+            return `CREATE TYPE ${name} AS ENUM (${(type.labels ?? []).map(quoteLiteral).join(', ')});`;
+        }
+
+        const parts = [`CREATE DOMAIN ${name} AS ${type.baseType}`];
+        if (type.collation) parts.push(`COLLATE ${quoteIdent(type.collation)}`);
+        if (type.default !== null) parts.push(`DEFAULT ${type.default}`);
+        if (type.notNull) parts.push('NOT NULL');
+        for (const constraint of type.constraints) {
+            parts.push(`CONSTRAINT ${quoteIdent(constraint.name)} ${constraint.definition}`);
+        }
+        return `${parts.join(' ')};`;
+    }
+
+    private sequenceStatement(sequence: Sequence): string {
+        return [
+            `CREATE SEQUENCE ${qualified(sequence.schema, sequence.name)}`,
+            `    AS ${sequence.dataType}`,
+            `    INCREMENT BY ${sequence.increment}`,
+            `    MINVALUE ${sequence.min}`,
+            `    MAXVALUE ${sequence.max}`,
+            `    START WITH ${sequence.start}`,
+            `    CACHE ${sequence.cache}`,
+            `    ${sequence.cycle ? 'CYCLE' : 'NO CYCLE'};`,
+        ].join('\n');
+    }
+
+    private sequenceOwnershipStatement(sequence: Sequence, catalog: Catalog): string[] {
+        const owner = catalog.relations.find(relation => relation.oid === sequence.ownerRelation);
+        if (!owner || !sequence.ownerColumn) return [];
+        return [
+            `ALTER SEQUENCE ${qualified(sequence.schema, sequence.name)} OWNED BY ${qualified(owner.schema, owner.name)}.${quoteIdent(sequence.ownerColumn)};`,
+        ];
+    }
+
+    private columnDefinition(column: Column): string {
+        const parts = [quoteIdent(column.name), column.type];
+        if (column.collation) parts.push(`COLLATE ${quoteIdent(column.collation)}`);
+
+        if (column.generated === 's') {
+            parts.push(`GENERATED ALWAYS AS (${column.default}) STORED`);
+        } else if (column.identity) {
+            parts.push(`GENERATED ${column.identity === 'a' ? 'ALWAYS' : 'BY DEFAULT'} AS IDENTITY`);
+        } else if (column.default !== null) {
+            parts.push(`DEFAULT ${column.default}`);
+        }
+
+        if (column.notNull) parts.push('NOT NULL');
+        return parts.join(' ');
+    }
+
+    /**
+     * CREATE TABLE with inline constraints. Foreign keys rejected by `inlineForeignKey`
+     * are left for the caller to add later.
+     */
+    private tableStatement(relation: Relation, catalog: Catalog, inlineForeignKey: (constraint: Constraint) => boolean): string {
+        const name = qualified(relation.schema, relation.name);
+        const unlogged = relation.persistence === 'u' ? 'UNLOGGED ' : '';
+        const constraints = catalog.constraints
+            .filter(constraint => constraint.relation === relation.oid)
+            .filter(constraint => constraint.type !== 'f' || inlineForeignKey(constraint))
+            .sort((a, b) => CONSTRAINT_ORDER.indexOf(a.type) - CONSTRAINT_ORDER.indexOf(b.type));
+        const constraintLines = constraints.map(constraint => `CONSTRAINT ${quoteIdent(constraint.name)} ${constraint.definition}`);
+
+        if (relation.partitionOf !== null) {
+            // Partitions inherit their columns from the parent
+            const parent = catalog.relations.find(candidate => candidate.oid === relation.partitionOf);
+            const parentName = parent ? qualified(parent.schema, parent.name) : `${relation.partitionOf}::regclass`;
+            const body = constraintLines.length > 0 ? ` (\n    ${constraintLines.join(',\n    ')}\n)` : '';
+            const partitioned = relation.partitionKey ? ` PARTITION BY ${relation.partitionKey}` : '';
+            return `CREATE ${unlogged}TABLE ${name} PARTITION OF ${parentName}${body} ${relation.partitionBound}${partitioned};`;
+        }
+
+        const lines = [
+            ...catalog.columns.filter(column => column.relation === relation.oid).map(column => this.columnDefinition(column)),
+            ...constraintLines,
+        ];
+        const partitioned = relation.partitionKey ? ` PARTITION BY ${relation.partitionKey}` : '';
+        return `CREATE ${unlogged}TABLE ${name} (\n    ${lines.join(',\n    ')}\n)${partitioned};`;
+    }
+
+    private indexStatements(relation: Relation, catalog: Catalog): string[] {
+        return catalog.indexes
+            .filter(index => index.relation === relation.oid)
+            .map(index => `${index.definition};`);
+    }
+
+    private viewStatements(view: Relation, catalog: Catalog): string[] {
+        const definition = (view.viewDefinition ?? '').trim().replace(/;$/, '');
+        const kind = view.kind === 'm' ? 'MATERIALIZED VIEW' : 'VIEW';
+        return [
+            `CREATE ${kind} ${qualified(view.schema, view.name)} AS\n${definition};`,
+            ...this.indexStatements(view, catalog),
+        ];
+    }
+
+    private commentStatements(relation: Relation, catalog: Catalog): string[] {
+        const name = qualified(relation.schema, relation.name);
+        const kind = relation.kind === 'v' ? 'VIEW' : relation.kind === 'm' ? 'MATERIALIZED VIEW' : 'TABLE';
+        const statements: string[] = [];
+
+        if (relation.comment !== null) {
+            statements.push(`COMMENT ON ${kind} ${name} IS ${quoteLiteral(relation.comment)};`);
+        }
+        for (const column of catalog.columns.filter(column => column.relation === relation.oid && column.comment !== null)) {
+            statements.push(`COMMENT ON COLUMN ${name}.${quoteIdent(column.name)} IS ${quoteLiteral(column.comment!)};`);
+        }
+        return statements;
+    }
+}
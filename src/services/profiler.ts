@@ -0,0 +1,426 @@
+import { Timestamp } from '@google-cloud/firestore';
+import { DatabaseService } from './database.js';
+import { ColumnInfo } from '../types/database.js';
+import { SqlDialect } from '../types/sql.js';
+import { ColumnKind, ColumnProfile, HistogramBucket, ProfileOptions, TableProfile, ValueFrequency } from '../types/profile.js';
+import { quoteSqlIdentifier } from '../utils/sqlValues.js';
+import { encodeFirestoreValue, firestoreTypeOf, timestampToIso } from '../utils/firestoreValues.js';
+
+const DEFAULT_SAMPLE_SIZE = 10000;
+const DEFAULT_TOP_VALUES = 5;
+const DEFAULT_HISTOGRAM_BUCKETS = 10;
+// Keeps the report compact and the statement well below SQLite's limit of 500 compound SELECTs
+const MAX_PROFILED_COLUMNS = 100;
+const MAX_VALUE_LENGTH = 100;
+// The random filter keeps each row independently, so draw a little more than needed
+const OVERSAMPLING = 1.2;
+const MOSTLY_NULL_RATIO = 0.5;
+
+// Text columns of the statistics statement; every branch of the UNION fills some of them
+const STAT_FIELDS = [
+    'value', 'amount', 'non_null', 'distinct_count', 'min_value', 'max_value', 'avg_value', 'min_length', 'avg_length', 'max_length',
+] as const;
+
+type StatField = typeof STAT_FIELDS[number];
+
+type StatRow = { column_index: number | string; kind: string } & Record<StatField, string | null>;
+
+const ORDERED_KINDS: ColumnKind[] = ['numeric', 'string', 'temporal'];
+
+/**
+ * Classifies a column by its declared type, as reported by getTables for
+ * PostgreSQL, MySQL and SQLite.
+ */
+export function columnKind(type: string): ColumnKind {
+    const name = type.toLowerCase();
+    if (/bytea|blob|binary/.test(name)) return 'binary';
+    if (/^bool/.test(name)) return 'boolean';
+    if (/\b(tiny|small|medium|big)?int(eger)?\b|numeric|decimal|real|double|float|serial/.test(name)) return 'numeric';
+    if (/date|time|interval|year/.test(name)) return 'temporal';
+    if (/char|text|clob|enum|string/.test(name)) return 'string';
+    return 'other';
+}
+
+function firestoreKind(type: string): ColumnKind {
+    switch (type) {
+        case 'integer':
+        case 'double':
+            return 'numeric';
+        case 'string':
+            return 'string';
+        case 'timestamp':
+            return 'temporal';
+        case 'boolean':
+            return 'boolean';
+        case 'bytes':
+            return 'binary';
+        default:
+            return 'other';
+    }
+}
+
+function shorten(text: string): string {
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+}
+
+function round(value: number, digits = 2): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+function ratio(part: number, total: number): number {
+    return total === 0 ? 0 : round(part / total, 3);
+}
+
+function topFrequencies(counts: Map<string, number>, limit: number): ValueFrequency[] {
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, limit)
+        .map(([value, count]) => ({ value: shorten(value), count }));
+}
+
+function bucketIndex(value: number, low: number, high: number, buckets: number): number {
+    return high === low ? 0 : Math.floor(((value - low) * buckets) / (high - low));
+}
+
+/**
+ * Equal-width buckets between the lowest and highest value. The highest
+ * value falls in the last bucket; a constant column gets a single bucket.
+ */
+function histogram(low: number, high: number, buckets: number, counts: Map<number, number>): HistogramBucket[] {
+    const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+    if (high === low) {
+        return [{ from: low, to: high, count: total }];
+    }
+    const width = (high - low) / buckets;
+    const result = Array.from({ length: buckets }, (_, index) => ({
+        from: Number((low + index * width).toPrecision(6)),
+        to: Number((index === buckets - 1 ? high : low + (index + 1) * width).toPrecision(6)),
+        count: 0,
+    }));
+    for (const [index, count] of counts) {
+        result[Math.min(Math.max(index, 0), buckets - 1)].count += count;
+    }
+    return result;
+}
+
+function findings(columns: ColumnProfile[], sampleRows: number): string[] {
+    if (sampleRows === 0) return [];
+    return columns.flatMap(column => {
+        if (column.nulls === sampleRows) {
+            return [`${column.name}: every sampled value is null`];
+        }
+        const result: string[] = [];
+        if (column.distinct === 1) {
+            result.push(`${column.name}: has a single value in the sample`);
+        }
+        if (column.nullRatio >= MOSTLY_NULL_RATIO) {
+            result.push(`${column.name}: ${Math.round(column.nullRatio * 100)}% of sampled values are null`);
+        }
+        return result;
+    });
+}
+
+function selectColumns<T extends { name: string }>(available: T[], requested: string[] | undefined, table: string) {
+    const columns = requested
+        ? requested.map(name => {
+            const column = available.find(candidate => candidate.name === name);
+            if (!column) {
+                throw new Error(`Column "${name}" not found in "${table}"`);
+            }
+            return column;
+        })
+        : available;
+    return {
+        columns: columns.slice(0, MAX_PROFILED_COLUMNS),
+        omittedColumns: columns.slice(MAX_PROFILED_COLUMNS).map(column => column.name),
+    };
+}
+
+/**
+ * Builds per-column statistics for a table or Firestore collection from a
+ * random sample of its rows, so that large tables can be profiled without
+ * reading them into the server. Queries go through `query`, which reads
+ * unmasked rows; DatabaseService.profileTable masks the finished profile.
+ */
+export class TableProfiler {
+    constructor(private service: DatabaseService, private query: (sql: string) => Promise<any>) {}
+
+    async profile(tableName: string, schema?: string, options: ProfileOptions = {}): Promise<TableProfile> {
+        if (this.service.type === 'firestore') {
+            return this.profileCollection(tableName, options);
+        }
+
+        const dialect = this.service.dialect;
+        if (!dialect) {
+            throw new Error('Profiling is not supported for this connection');
+        }
+        // Schema-qualified names as accepted by the other table tools
+        const qualified = /^([^.]+)\.(.+)$/.exec(tableName);
+        if (!schema && qualified) {
+            [, schema, tableName] = qualified;
+        }
+        const table = (await this.service.getTables(schema)).find(candidate => candidate.name === tableName);
+        if (!table) {
+            throw new Error(`Table "${tableName}" not found`);
+        }
+
+        const quote = (name: string) => quoteSqlIdentifier(name, dialect);
+        const relation = table.schema ? `${quote(table.schema)}.${quote(table.name)}` : quote(table.name);
+        const { columns, omittedColumns } = selectColumns(table.columns, options.columns, tableName);
+        const sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+
+        const [{ row_count }] = await this.query(`SELECT COUNT(*) AS row_count FROM ${relation}`);
+        const rowCount = Number(row_count);
+        const sampled = rowCount > sampleSize;
+
+        const rows: StatRow[] = columns.length === 0
+            ? []
+            : await this.query(this.statisticsSql(dialect, relation, columns, rowCount, sampleSize, options));
+        const sampleRows = Number(rows.find(row => row.kind === 'rows')?.amount ?? 0);
+        const byColumn = new Map<number, StatRow[]>();
+        for (const row of rows) {
+            const index = Number(row.column_index);
+            byColumn.set(index, [...(byColumn.get(index) ?? []), row]);
+        }
+
+        const profiles = columns.map((column, index) =>
+            this.columnProfile(column, byColumn.get(index) ?? [], sampleRows, options));
+        return {
+            schema: table.schema,
+            table: table.name,
+            rowCount,
+            sampleRows,
+            sampled,
+            columns: profiles,
+            omittedColumns,
+            findings: findings(profiles, sampleRows),
+        };
+    }
+
+    /**
+     * One statement over a single sample, so that every statistic describes
+     * the same rows. Each UNION branch yields the aggregates of a column, one
+     * of its most frequent values or one histogram bucket; all values are
+     * cast to text so that the branches line up on every engine.
+     */
+    private statisticsSql(
+        dialect: SqlDialect,
+        relation: string,
+        columns: ColumnInfo[],
+        rowCount: number,
+        sampleSize: number,
+        options: ProfileOptions
+    ): string {
+        const quote = (name: string) => quoteSqlIdentifier(name, dialect);
+        const text = (expression: string) => `CAST(${expression} AS ${dialect === 'mysql' ? 'CHAR' : 'TEXT'})`;
+        const branch = (index: number, kind: string, fields: Partial<Record<StatField, string>>, from: string) => {
+            const values = STAT_FIELDS.map(field => `${text(fields[field] ?? 'NULL')} AS ${field}`);
+            return `SELECT ${index} AS column_index, '${kind}' AS kind, ${values.join(', ')} ${from}`;
+        };
+        const topValues = options.topValues ?? DEFAULT_TOP_VALUES;
+        const buckets = options.histogramBuckets ?? DEFAULT_HISTOGRAM_BUCKETS;
+
+        let sample = `SELECT ${columns.map(column => quote(column.name)).join(', ')} FROM ${relation}`;
+        if (rowCount > sampleSize) {
+            const share = Math.min(1, (sampleSize * OVERSAMPLING) / rowCount);
+            const random = {
+                postgres: 'random()',
+                mysql: 'RAND()',
+                sqlite: '(abs(random()) / 9223372036854775807.0)',
+            }[dialect];
+            sample += ` WHERE ${random} < ${share} LIMIT ${sampleSize}`;
+        }
+
+        const branches = [branch(-1, 'rows', { amount: 'COUNT(*)' }, 'FROM sample')];
+        columns.forEach((column, index) => {
+            const kind = columnKind(column.type);
+            const name = `sample.${quote(column.name)}`;
+            // Other types are compared as text; Postgres json has no equality operator
+            const key = kind === 'other' ? text(name) : name;
+
+            const fields: Partial<Record<StatField, string>> = {
+                non_null: `COUNT(${name})`,
+                distinct_count: `COUNT(DISTINCT ${key})`,
+            };
+            if (ORDERED_KINDS.includes(kind)) {
+                fields.min_value = `MIN(${name})`;
+                fields.max_value = `MAX(${name})`;
+            }
+            if (kind === 'numeric') {
+                fields.avg_value = `AVG(${name})`;
+            }
+            if (kind === 'string' || kind === 'binary') {
+                const length = kind === 'binary'
+                    ? { postgres: 'octet_length', mysql: 'LENGTH', sqlite: 'length' }[dialect]
+                    : { postgres: 'length', mysql: 'CHAR_LENGTH', sqlite: 'length' }[dialect];
+                fields.min_length = `MIN(${length}(${name}))`;
+                fields.avg_length = `AVG(${length}(${name}))`;
+                fields.max_length = `MAX(${length}(${name}))`;
+            }
+            branches.push(branch(index, 'stats', fields, 'FROM sample'));
+
+            if (topValues > 0 && kind !== 'binary') {
+                // Wrapped so that ORDER BY and LIMIT apply to this branch alone
+                branches.push(`SELECT * FROM (${branch(
+                    index,
+                    'top',
+                    { value: key, amount: 'COUNT(*)' },
+                    `FROM sample WHERE ${name} IS NOT NULL GROUP BY ${key} ORDER BY COUNT(*) DESC, ${key} LIMIT ${topValues}`
+                )}) AS top_${index}`);
+            }
+
+            if (buckets > 0 && kind === 'numeric') {
+                const position = `(${name} - bounds.low) * ${buckets}.0 / (bounds.high - bounds.low)`;
+                const bucket = dialect === 'sqlite' ? `CAST(${position} AS INTEGER)` : `FLOOR(${position})`;
+                branches.push(branch(
+                    index,
+                    'histogram',
+                    { value: 'bucket', amount: 'COUNT(*)' },
+                    `FROM (SELECT CASE WHEN bounds.high = bounds.low THEN 0 ELSE ${bucket} END AS bucket`
+                    + ` FROM sample, (SELECT MIN(${name}) AS low, MAX(${name}) AS high FROM sample) AS bounds`
+                    + ` WHERE ${name} IS NOT NULL) AS buckets GROUP BY bucket`
+                ));
+            }
+        });
+
+        // random() makes Postgres and MySQL materialize the sample once; SQLite needs the hint
+        return `WITH sample AS ${dialect === 'sqlite' ? 'MATERIALIZED ' : ''}(${sample})\n${branches.join('\nUNION ALL\n')}`;
+    }
+
+    private columnProfile(column: ColumnInfo, rows: StatRow[], sampleRows: number, options: ProfileOptions): ColumnProfile {
+        const kind = columnKind(column.type);
+        const stats = rows.find(row => row.kind === 'stats');
+        const nonNull = Number(stats?.non_null ?? 0);
+        const profile: ColumnProfile = {
+            name: column.name,
+            type: column.type,
+            kind,
+            nulls: sampleRows - nonNull,
+            nullRatio: ratio(sampleRows - nonNull, sampleRows),
+            distinct: Number(stats?.distinct_count ?? 0),
+        };
+
+        if (ORDERED_KINDS.includes(kind)) {
+            profile.min = stats?.min_value == null ? null : shorten(stats.min_value);
+            profile.max = stats?.max_value == null ? null : shorten(stats.max_value);
+        }
+        if (kind === 'numeric') {
+            profile.avg = stats?.avg_value == null ? null : round(Number(stats.avg_value), 4);
+        }
+        if (kind === 'string' || kind === 'binary') {
+            profile.length = stats?.min_length == null ? null : {
+                min: Number(stats.min_length),
+                avg: round(Number(stats.avg_length)),
+                max: Number(stats.max_length),
+            };
+        }
+        // Every value being unique says more than a list of values seen once
+        if ((options.topValues ?? DEFAULT_TOP_VALUES) > 0 && kind !== 'binary' && profile.distinct < nonNull) {
+            const counts = new Map(rows
+                .filter(row => row.kind === 'top' && row.value !== null)
+                .map(row => [row.value as string, Number(row.amount)]));
+            profile.topValues = topFrequencies(counts, counts.size);
+        }
+
+        const buckets = options.histogramBuckets ?? DEFAULT_HISTOGRAM_BUCKETS;
+        const low = Number(stats?.min_value);
+        const high = Number(stats?.max_value);
+        // SQLite columns can hold text whatever their declared type
+        if (buckets > 0 && kind === 'numeric' && stats?.min_value != null && Number.isFinite(low) && Number.isFinite(high)) {
+            const counts = new Map(rows
+                .filter(row => row.kind === 'histogram')
+                .map(row => [Number(row.value), Number(row.amount)]));
+            profile.histogram = histogram(low, high, buckets, counts);
+        }
+        return profile;
+    }
+
+    /**
+     * Firestore has no aggregates beyond counting, so the statistics are
+     * computed here from the first documents of the collection. Fields are
+     * the dotted paths seen in the sample; a missing field counts as null.
+     */
+    private async profileCollection(collection: string, options: ProfileOptions): Promise<TableProfile> {
+        const sampleSize = options.sampleSize ?? DEFAULT_SAMPLE_SIZE;
+        const topValues = options.topValues ?? DEFAULT_TOP_VALUES;
+        const buckets = options.histogramBuckets ?? DEFAULT_HISTOGRAM_BUCKETS;
+        const { count, documents } = await this.service.firestore.sampleCollection(collection, sampleSize);
+
+        const paths = [...new Set(documents.flatMap(document => [...document.keys()]))].map(name => ({ name }));
+        const { columns, omittedColumns } = selectColumns(paths, options.columns, collection);
+        const asText = (value: unknown): string => {
+            const type = firestoreTypeOf(value);
+            if (type === 'string') return value as string;
+            if (type === 'integer' || type === 'double' || type === 'boolean') return String(value);
+            if (type === 'timestamp') return timestampToIso(value as Timestamp);
+            return JSON.stringify(encodeFirestoreValue(value));
+        };
+
+        const profiles = columns.map(({ name }): ColumnProfile => {
+            const present = documents.map(document => document.get(name)).filter(value => value !== undefined && value !== null);
+            const types = new Map<string, number>();
+            present.forEach(value => types.set(firestoreTypeOf(value), (types.get(firestoreTypeOf(value)) ?? 0) + 1));
+            const ranked = [...types.entries()].sort((a, b) => b[1] - a[1]).map(([type]) => type);
+            const kind = firestoreKind(ranked[0] ?? 'null');
+            // Values of other types are counted but left out of min/max, lengths and histograms
+            const matching = present.filter(value => firestoreKind(firestoreTypeOf(value)) === kind);
+
+            const counts = new Map<string, number>();
+            present.forEach(value => counts.set(asText(value), (counts.get(asText(value)) ?? 0) + 1));
+            const profile: ColumnProfile = {
+                name,
+                type: ranked.join(' | ') || 'null',
+                kind,
+                nulls: documents.length - present.length,
+                nullRatio: ratio(documents.length - present.length, documents.length),
+                distinct: counts.size,
+            };
+
+            if (kind === 'numeric') {
+                const numbers = matching as number[];
+                // Reduced rather than spread; samples can exceed the argument limit
+                const low = numbers.length ? numbers.reduce((a, b) => Math.min(a, b)) : null;
+                const high = numbers.length ? numbers.reduce((a, b) => Math.max(a, b)) : null;
+                profile.min = low === null ? null : String(low);
+                profile.max = high === null ? null : String(high);
+                profile.avg = numbers.length ? round(numbers.reduce((sum, value) => sum + value, 0) / numbers.length, 4) : null;
+                if (buckets > 0 && low !== null && high !== null) {
+                    const indexes = new Map<number, number>();
+                    numbers.forEach(value => {
+                        const index = bucketIndex(value, low, high, buckets);
+                        indexes.set(index, (indexes.get(index) ?? 0) + 1);
+                    });
+                    profile.histogram = histogram(low, high, buckets, indexes);
+                }
+            } else if (kind === 'string' || kind === 'temporal') {
+                // ISO timestamps sort like the instants they name
+                const texts = matching.map(asText).sort();
+                profile.min = texts.length ? shorten(texts[0]) : null;
+                profile.max = texts.length ? shorten(texts[texts.length - 1]) : null;
+            }
+            if (kind === 'string' || kind === 'binary') {
+                const lengths = matching.map(value => (kind === 'string' ? (value as string).length : (value as Uint8Array).byteLength));
+                profile.length = lengths.length ? {
+                    min: lengths.reduce((a, b) => Math.min(a, b)),
+                    avg: round(lengths.reduce((sum, length) => sum + length, 0) / lengths.length),
+                    max: lengths.reduce((a, b) => Math.max(a, b)),
+                } : null;
+            }
+            if (topValues > 0 && kind !== 'binary' && counts.size < present.length) {
+                profile.topValues = topFrequencies(counts, topValues);
+            }
+            return profile;
+        });
+
+        return {
+            table: collection,
+            rowCount: count,
+            sampleRows: documents.length,
+            sampled: count > documents.length,
+            columns: profiles,
+            omittedColumns,
+            findings: findings(profiles, documents.length),
+        };
+    }
+}
@@ -0,0 +1,202 @@
+import { readFileSync } from 'node:fs';
+import YAML from 'yaml';
+import { ConnectionProfile, ServerConfig } from '../types/config.js';
+import { DatabaseConfig, DatabaseType } from '../types/database.js';
+import { MaskingPolicy } from '../types/masking.js';
+import { parseConnectionUrl } from '../utils/connectionUrl.js';
+import { MASKING_MODES, VALUE_DETECTORS } from './masking.js';
+
+const DATABASE_TYPES: DatabaseType[] = ['postgres', 'mysql', 'firestore', 'sqlite', 'snapshot'];
+// DB_MCP_PROFILE_<NAME>=<connection url> defines a profile named <name>
+const PROFILE_ENV_PREFIX = 'DB_MCP_PROFILE_';
+// Profile created from DATABASE_URL
+const DATABASE_URL_PROFILE = 'default';
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Replaces ${NAME} and ${NAME:-fallback} in every string of a profile.
+ */
+function interpolate<T>(value: T, env: Env, owner: string): T {
+    if (typeof value === 'string') {
+        return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_match, name: string, fallback?: string) => {
+            const resolved = env[name] ?? fallback;
+            if (resolved === undefined) {
+                throw new Error(`${owner} needs environment variable ${name}`);
+            }
+            return resolved;
+        }) as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => interpolate(item, env, owner)) as T;
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolate(item, env, owner)])) as T;
+    }
+    return value;
+}
+
+function validateMasking(owner: string, masking: unknown): MaskingPolicy {
+    const { rules, hashSalt } = (masking ?? {}) as MaskingPolicy;
+    if (!Array.isArray(rules)) {
+        throw new Error(`${owner}: masking needs a list of rules`);
+    }
+    const isStringList = (value: unknown) => value === undefined || (Array.isArray(value) && value.every(item => typeof item === 'string'));
+    rules.forEach((rule, index) => {
+        const label = `${owner}: masking rule ${index + 1}`;
+        if (!MASKING_MODES.includes(rule?.mode)) {
+            throw new Error(`${label} has mode "${rule?.mode}"; use one of ${MASKING_MODES.join(', ')}`);
+        }
+        if (!isStringList(rule.tables) || !isStringList(rule.columns) || !isStringList(rule.values)) {
+            throw new Error(`${label}: tables, columns and values must be lists of strings`);
+        }
+        const unknown = rule.values?.find(detector => !VALUE_DETECTORS.includes(detector));
+        if (unknown !== undefined) {
+            throw new Error(`${label} has unknown value pattern "${unknown}"; use one of ${VALUE_DETECTORS.join(', ')}`);
+        }
+    });
+    if (hashSalt !== undefined && typeof hashSalt !== 'string') {
+        throw new Error(`${owner}: masking hashSalt must be a string`);
+    }
+    return { rules, hashSalt };
+}
+
+function validateAccess(owner: string, access: unknown): void {
+    if (!access || typeof access !== 'object' || Array.isArray(access)) {
+        throw new Error(`${owner}: access must be an object with allow and deny lists`);
+    }
+    for (const [key, rules] of Object.entries(access)) {
+        if (key !== 'allow' && key !== 'deny') {
+            throw new Error(`${owner}: access has unknown key "${key}"; use allow and deny`);
+        }
+        for (const [kind, patterns] of Object.entries(rules ?? {})) {
+            if (!['schemas', 'tables', 'columns'].includes(kind)) {
+                throw new Error(`${owner}: access.${key} has unknown key "${kind}"; use schemas, tables and columns`);
+            }
+            if (!Array.isArray(patterns) || !patterns.every(pattern => typeof pattern === 'string')) {
+                throw new Error(`${owner}: access.${key}.${kind} must be a list of strings`);
+            }
+        }
+    }
+}
+
+function validateProfile(name: string, profile: unknown): ConnectionProfile {
+    if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+        throw new Error(`Profile "${name}" must be an object`);
+    }
+    const { type, url, connection } = profile as ConnectionProfile;
+    if (type !== undefined && !DATABASE_TYPES.includes(type)) {
+        throw new Error(`Profile "${name}" has unknown type "${type}"; use one of ${DATABASE_TYPES.join(', ')}`);
+    }
+    if (url === undefined && (type === undefined || connection === undefined)) {
+        throw new Error(`Profile "${name}" needs either a url or a type and connection`);
+    }
+    const { masking, access } = profile as ConnectionProfile;
+    if (masking !== undefined) {
+        validateMasking(`Profile "${name}"`, masking);
+    }
+    if (access !== undefined) {
+        validateAccess(`Profile "${name}"`, access);
+    }
+    return profile as ConnectionProfile;
+}
+
+/**
+ * Named connection profiles read from a JSON or YAML config file and from the
+ * environment. Profiles from the environment take precedence over the file.
+ */
+export class ProfileStore {
+    private constructor(private config: ServerConfig, private env: Env) {}
+
+    /**
+     * Reads the config file at `path`, if any, and the profile variables in
+     * `env`.
+     */
+    static load(path: string | undefined, env: Env): ProfileStore {
+        const profiles: Record<string, ConnectionProfile> = {};
+        let defaultProfile: string | undefined;
+        let masking: MaskingPolicy | undefined;
+
+        if (path) {
+            let document: any;
+            try {
+                // YAML is a superset of JSON, so one parser reads both
+                document = YAML.parse(readFileSync(path, 'utf8')) ?? {};
+            } catch (error: unknown) {
+                throw new Error(`Cannot read config file "${path}": ${error instanceof Error ? error.message : String(error)}`);
+            }
+            for (const [name, profile] of Object.entries(document.profiles ?? {})) {
+                profiles[name] = validateProfile(name, profile);
+            }
+            defaultProfile = document.defaultProfile;
+            if (document.masking !== undefined) {
+                masking = interpolate(validateMasking('Config', document.masking), env, 'Masking policy');
+            }
+        }
+
+        if (env.DATABASE_URL) {
+            profiles[DATABASE_URL_PROFILE] = { url: env.DATABASE_URL };
+            defaultProfile ??= DATABASE_URL_PROFILE;
+        }
+        for (const [key, value] of Object.entries(env)) {
+            if (key.startsWith(PROFILE_ENV_PREFIX) && value) {
+                profiles[key.slice(PROFILE_ENV_PREFIX.length).toLowerCase()] = { url: value };
+            }
+        }
+        defaultProfile = env.DB_MCP_DEFAULT_PROFILE || defaultProfile;
+
+        if (defaultProfile !== undefined && !(defaultProfile in profiles)) {
+            throw new Error(`Default profile "${defaultProfile}" is not defined`);
+        }
+        return new ProfileStore({ defaultProfile, profiles, masking }, env);
+    }
+
+    get names(): string[] {
+        return Object.keys(this.config.profiles);
+    }
+
+    get defaultProfile(): string | undefined {
+        return this.config.defaultProfile;
+    }
+
+    /**
+     * The server-wide masking policy, for connections opened without a profile.
+     */
+    get masking(): MaskingPolicy | undefined {
+        return this.config.masking;
+    }
+
+    /**
+     * Builds the connection config for a profile, resolving its environment
+     * references.
+     */
+    resolve(name: string, defaultReadOnly: boolean): DatabaseConfig {
+        const raw = this.config.profiles[name];
+        if (!raw) {
+            const available = this.names.length > 0 ? `; available profiles: ${this.names.join(', ')}` : '; no profiles are configured';
+            throw new Error(`Profile "${name}" not found${available}`);
+        }
+
+        const profile = interpolate(raw, this.env, `Profile "${name}"`);
+        const fromUrl = profile.url ? parseConnectionUrl(profile.url) : undefined;
+        const type = profile.type ?? fromUrl!.type;
+        if (fromUrl && fromUrl.type !== type) {
+            throw new Error(`Profile "${name}" has type "${type}" but a ${fromUrl.type} url`);
+        }
+
+        return {
+            type,
+            connection: { ...fromUrl?.connection, ...profile.connection },
+            readOnly: defaultReadOnly || profile.readOnly === true,
+            defaultSchema: profile.defaultSchema,
+            pool: profile.pool,
+            masking: profile.masking
+                ? {
+                    rules: [...profile.masking.rules, ...(this.masking?.rules ?? [])],
+                    hashSalt: profile.masking.hashSalt ?? this.masking?.hashSalt,
+                }
+                : this.masking,
+            access: profile.access,
+        };
+    }
+}
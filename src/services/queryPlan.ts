@@ -0,0 +1,308 @@
+import { ExpensiveNode, PlanFinding, PlanNode, QueryPlan } from '../types/explain.js';
+
+// Scans filtering fewer rows than this are not worth an index
+const MIN_FILTERED_ROWS = 1000;
+// Estimates off by this factor in either direction are reported...
+const ESTIMATE_MISMATCH_FACTOR = 10;
+// ...once the larger side reaches this many rows
+const ESTIMATE_MISMATCH_MIN_ROWS = 100;
+const MAX_EXPENSIVE_NODES = 3;
+// Expensive nodes above this share of the plan are also reported as findings
+const EXPENSIVE_NODE_SHARE = 0.3;
+
+type RawNode = Record<string, any>;
+
+function number(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function omit(raw: RawNode, keys: Set<string>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(raw).filter(([key]) => !keys.has(key)));
+}
+
+function parseJson(value: unknown): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+}
+
+function numberNodes(root: PlanNode): void {
+    let next = 0;
+    const visit = (node: PlanNode) => {
+        node.id = next++;
+        node.children.forEach(visit);
+    };
+    visit(root);
+}
+
+function allNodes(root: PlanNode): PlanNode[] {
+    return [root, ...root.children.flatMap(allNodes)];
+}
+
+const POSTGRES_CONDITION_KEYS = ['Index Cond', 'Recheck Cond', 'Hash Cond', 'Merge Cond', 'Join Filter', 'Filter'];
+const POSTGRES_MAPPED_KEYS = new Set([
+    'Node Type', 'Parallel Aware', 'Relation Name', 'Schema', 'Alias', 'Index Name', 'Total Cost',
+    'Plan Rows', 'Actual Rows', 'Actual Loops', 'Actual Total Time', 'Plans', ...POSTGRES_CONDITION_KEYS,
+]);
+
+function postgresNode(raw: RawNode): PlanNode {
+    const children = ((raw.Plans ?? []) as RawNode[]).map(postgresNode);
+    const conditions = POSTGRES_CONDITION_KEYS.map(key => raw[key]).filter(Boolean);
+    const totalCost = number(raw['Total Cost']);
+    const loops = number(raw['Actual Loops']);
+    // Actual Total Time is per loop
+    const actualTimeMs = raw['Actual Total Time'] !== undefined ? number(raw['Actual Total Time'])! * (loops ?? 1) : undefined;
+
+    const childCost = children.reduce((sum, child) => sum + (child.totalCost ?? 0), 0);
+    const childTime = children.reduce((sum, child) => sum + (child.actualTimeMs ?? 0), 0);
+
+    return {
+        id: 0,
+        operation: `${raw['Parallel Aware'] ? 'Parallel ' : ''}${raw['Node Type']}`,
+        relation: raw['Relation Name'] && (raw.Schema ? `${raw.Schema}.${raw['Relation Name']}` : raw['Relation Name']),
+        alias: raw.Alias,
+        index: raw['Index Name'],
+        condition: conditions.length > 0 ? conditions.join(' AND ') : undefined,
+        estimatedRows: number(raw['Plan Rows']),
+        actualRows: number(raw['Actual Rows']),
+        loops,
+        totalCost,
+        selfCost: totalCost !== undefined ? Math.max(0, totalCost - childCost) : undefined,
+        actualTimeMs,
+        selfTimeMs: actualTimeMs !== undefined ? Math.max(0, actualTimeMs - childTime) : undefined,
+        details: omit(raw, POSTGRES_MAPPED_KEYS),
+        children,
+    };
+}
+
+/**
+ * Normalizes the output of `EXPLAIN (FORMAT JSON[, ANALYZE])`: the single
+ * "QUERY PLAN" value, already parsed or as text.
+ */
+export function postgresQueryPlan(output: unknown, analyzed: boolean): QueryPlan {
+    const [top] = parseJson(output) as RawNode[];
+    const plan = postgresNode(top.Plan);
+    numberNodes(plan);
+    return {
+        dialect: 'postgres',
+        analyzed,
+        totalCost: plan.totalCost,
+        planningTimeMs: number(top['Planning Time']),
+        executionTimeMs: number(top['Execution Time']),
+        ...summarize(plan, analyzed),
+        plan,
+    };
+}
+
+// Containers that hold other plan parts, named as in MySQL's JSON output
+const MYSQL_OPERATIONS: Record<string, string> = {
+    query_block: 'Query Block',
+    nested_loop: 'Nested Loop',
+    ordering_operation: 'Order',
+    grouping_operation: 'Group',
+    duplicates_removal: 'Distinct',
+    windowing: 'Window',
+    union_result: 'Union',
+    materialized_from_subquery: 'Materialize',
+};
+const MYSQL_ACCESS_TYPES: Record<string, string> = {
+    ALL: 'Full Table Scan',
+    index: 'Full Index Scan',
+    range: 'Index Range Scan',
+    ref: 'Index Lookup',
+    ref_or_null: 'Index Lookup',
+    eq_ref: 'Unique Index Lookup',
+    fulltext: 'Fulltext Index Lookup',
+    index_merge: 'Index Merge',
+    unique_subquery: 'Unique Subquery Lookup',
+    index_subquery: 'Index Subquery Lookup',
+    const: 'Constant Row',
+    system: 'Constant Row',
+};
+// Lists of { dependent, cacheable, query_block } entries
+const MYSQL_SUBQUERY_KEYS = new Set([
+    'query_specifications',
+    'attached_subqueries',
+    'optimized_away_subqueries',
+    'order_by_subqueries',
+    'group_by_subqueries',
+    'having_subqueries',
+    'select_list_subqueries',
+    'update_value_subqueries',
+]);
+const MYSQL_TABLE_KEYS = new Set(['table_name', 'access_type', 'key', 'attached_condition', 'rows_examined_per_scan']);
+
+// Splits a MySQL plan object into child nodes and plain fields
+function mysqlParts(raw: RawNode): { children: PlanNode[]; details: Record<string, unknown> } {
+    const children: PlanNode[] = [];
+    const details: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(raw)) {
+        if (key === 'table') {
+            children.push(mysqlTable(value));
+        } else if (key === 'nested_loop') {
+            children.push({
+                id: 0,
+                operation: MYSQL_OPERATIONS.nested_loop,
+                details: {},
+                children: (value as RawNode[]).flatMap(item => mysqlParts(item).children),
+            });
+        } else if (key in MYSQL_OPERATIONS) {
+            children.push(mysqlContainer(key, value));
+        } else if (MYSQL_SUBQUERY_KEYS.has(key) && Array.isArray(value)) {
+            children.push(...value.flatMap(item => mysqlParts(item).children));
+        } else {
+            details[key] = value;
+        }
+    }
+    return { children, details };
+}
+
+function mysqlContainer(key: string, raw: RawNode): PlanNode {
+    const { children, details } = mysqlParts(raw);
+    const operation = key === 'ordering_operation' && raw.using_filesort ? 'Sort' : MYSQL_OPERATIONS[key];
+    return {
+        id: 0,
+        operation,
+        totalCost: key === 'query_block' ? number(raw.cost_info?.query_cost) : undefined,
+        selfCost: number(raw.cost_info?.sort_cost),
+        details,
+        children,
+    };
+}
+
+function mysqlTable(raw: RawNode): PlanNode {
+    const { children, details } = mysqlParts(raw);
+    const readCost = number(raw.cost_info?.read_cost);
+    const evalCost = number(raw.cost_info?.eval_cost);
+    return {
+        id: 0,
+        operation: MYSQL_ACCESS_TYPES[raw.access_type] ?? raw.access_type ?? 'Table',
+        relation: raw.table_name,
+        index: raw.key,
+        condition: raw.attached_condition,
+        estimatedRows: number(raw.rows_examined_per_scan),
+        selfCost: readCost !== undefined || evalCost !== undefined ? (readCost ?? 0) + (evalCost ?? 0) : undefined,
+        details: omit(details, MYSQL_TABLE_KEYS),
+        children,
+    };
+}
+
+/**
+ * Normalizes the document returned by `EXPLAIN FORMAT=JSON`.
+ */
+export function mysqlQueryPlan(output: unknown): QueryPlan {
+    const document = parseJson(output) as RawNode;
+    const plan = mysqlContainer('query_block', document.query_block);
+    numberNodes(plan);
+    return {
+        dialect: 'mysql',
+        analyzed: false,
+        totalCost: plan.totalCost,
+        ...summarize(plan, false),
+        plan,
+    };
+}
+
+function isFullScan(node: PlanNode): boolean {
+    return /Seq Scan$/.test(node.operation) || node.operation === MYSQL_ACCESS_TYPES.ALL;
+}
+
+function describeNode(node: PlanNode): string {
+    return node.relation ? `${node.operation} on ${node.relation}` : node.operation;
+}
+
+function scanFindings(node: PlanNode, analyzed: boolean): PlanFinding[] {
+    const finding = (kind: PlanFinding['kind'], message: string): PlanFinding => ({
+        kind,
+        node: node.id,
+        operation: node.operation,
+        relation: node.relation,
+        message,
+    });
+    const loops = node.loops ?? 1;
+    const removed = number(node.details['Rows Removed by Filter']);
+    const findings: PlanFinding[] = [];
+
+    if (analyzed && node.actualRows !== undefined) {
+        const returned = node.actualRows * loops;
+        findings.push(finding('seq-scan', `Sequential scan on ${node.relation} returned ${returned} rows`
+            + (removed !== undefined ? ` and discarded ${removed * loops} rows by filter` : '')
+            + (loops > 1 ? ` over ${loops} loops` : '')));
+        if (node.condition && removed !== undefined
+            && ((removed * loops >= MIN_FILTERED_ROWS && removed > node.actualRows) || loops > 1)) {
+            findings.push(finding('missing-index', `Rows of ${node.relation} are filtered by ${node.condition} after reading them`
+                + `${loops > 1 ? `, once per loop (${loops} loops)` : ''}; an index on the filtered columns would avoid the scan`));
+        }
+        return findings;
+    }
+
+    findings.push(finding('seq-scan', `Sequential scan on ${node.relation}`
+        + (node.estimatedRows !== undefined ? ` (${node.estimatedRows} rows estimated)` : '')));
+    if (node.condition) {
+        // MySQL estimates the rows a scan reads; Postgres only the rows left after the filter
+        const scanned = node.operation === MYSQL_ACCESS_TYPES.ALL ? node.estimatedRows : undefined;
+        const candidates = node.details.possible_keys as string[] | undefined;
+        if (candidates?.length) {
+            findings.push(finding('missing-index', `Indexes ${candidates.join(', ')} on ${node.relation} could serve ${node.condition} `
+                + 'but were not used; the condition may not be selective enough or may not match the index order'));
+        } else if (scanned === undefined || scanned >= MIN_FILTERED_ROWS) {
+            findings.push(finding('missing-index', `No index serves ${node.condition} on ${node.relation}; `
+                + 'an index on the filtered columns may avoid the scan'));
+        }
+    }
+    return findings;
+}
+
+function summarize(plan: PlanNode, analyzed: boolean): Pick<QueryPlan, 'findings' | 'expensiveNodes'> {
+    const nodes = allNodes(plan);
+    const findings: PlanFinding[] = [];
+
+    for (const node of nodes) {
+        if (isFullScan(node)) findings.push(...scanFindings(node, analyzed));
+
+        if (analyzed && node.estimatedRows !== undefined && node.actualRows !== undefined && (node.loops ?? 1) > 0) {
+            const larger = Math.max(node.estimatedRows, node.actualRows);
+            const smaller = Math.max(Math.min(node.estimatedRows, node.actualRows), 1);
+            if (larger >= ESTIMATE_MISMATCH_MIN_ROWS && larger / smaller >= ESTIMATE_MISMATCH_FACTOR) {
+                findings.push({
+                    kind: 'estimate-mismatch',
+                    node: node.id,
+                    operation: node.operation,
+                    relation: node.relation,
+                    message: `${describeNode(node)} was estimated at ${node.estimatedRows} rows but produced ${node.actualRows}`
+                        + `${(node.loops ?? 1) > 1 ? ' per loop' : ''}`
+                        + (node.relation ? `; statistics on ${node.relation} may be stale` : ''),
+                });
+            }
+        }
+    }
+
+    // Time is what matters once measured; cost is the planner's guess otherwise
+    const weight = (node: PlanNode) => (analyzed ? node.selfTimeMs : node.selfCost) ?? 0;
+    const total = nodes.reduce((sum, node) => sum + weight(node), 0);
+    const expensiveNodes: ExpensiveNode[] = total === 0 ? [] : nodes
+        .filter(node => weight(node) > 0)
+        .sort((a, b) => weight(b) - weight(a))
+        .slice(0, MAX_EXPENSIVE_NODES)
+        .map(node => ({
+            node: node.id,
+            operation: node.operation,
+            relation: node.relation,
+            selfCost: node.selfCost,
+            selfTimeMs: node.selfTimeMs,
+            share: Math.round((weight(node) / total) * 1000) / 1000,
+        }));
+
+    for (const expensive of expensiveNodes.filter(node => node.share >= EXPENSIVE_NODE_SHARE)) {
+        findings.push({
+            kind: 'expensive-node',
+            node: expensive.node,
+            operation: expensive.operation,
+            relation: expensive.relation,
+            message: `${describeNode(nodes[expensive.node])} accounts for ${Math.round(expensive.share * 100)}% of the plan's `
+                + (analyzed ? 'execution time' : 'estimated cost'),
+        });
+    }
+
+    return { findings, expensiveNodes };
+}
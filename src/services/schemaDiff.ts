@@ -0,0 +1,371 @@
+import { ColumnInfo, FunctionInfo, TriggerInfo } from '../types/database.js';
+import { ColumnChange, ColumnDefinition, ObjectChanges, SchemaDiff, TableChange } from '../types/schemaDiff.js';
+import { SnapshotSchema, SnapshotTable } from '../types/snapshot.js';
+import { SqlDialect } from '../types/sql.js';
+import { topologicalSort } from '../utils/graph.js';
+import { quoteSqlIdentifier, sqlLiteral } from '../utils/sqlValues.js';
+
+/**
+ * One side of a comparison: a schema captured from a connection or read
+ * from a snapshot file.
+ */
+export interface DiffSide {
+    // Connection alias or snapshot path, used in the report
+    label: string;
+    dialect: SqlDialect;
+    schema: SnapshotSchema;
+}
+
+interface TriggerDefinition {
+    name: string;
+    table: string;
+    timing: string;
+    events: string[];
+    statement: string;
+    definition?: string;
+}
+
+function viewKind(table: SnapshotTable): 'VIEW' | 'MATERIALIZED VIEW' | null {
+    const match = /\bCREATE\b[^;(]*?\b(MATERIALIZED\s+)?VIEW\b/i.exec(table.ddl);
+    if (!match) return null;
+    return match[1] ? 'MATERIALIZED VIEW' : 'VIEW';
+}
+
+function columnDefinition(column: ColumnInfo): ColumnDefinition {
+    return {
+        type: column.type,
+        nullable: Boolean(column.nullable),
+        default: column.default ?? null,
+        ...(column.autoIncrement && { autoIncrement: true }),
+        ...(column.generated && { generated: true }),
+        ...(column.onUpdate && { onUpdate: column.onUpdate }),
+        ...(column.collation && { collation: column.collation }),
+        ...(column.comment && { comment: column.comment }),
+    };
+}
+
+function sameColumn(a: ColumnDefinition, b: ColumnDefinition): boolean {
+    return a.type.toLowerCase() === b.type.toLowerCase() && a.nullable === b.nullable && a.default === b.default;
+}
+
+// Schema qualifiers as they appear in generated DDL, quoted or not
+function qualifierPattern(schema: string): RegExp {
+    const escaped = schema.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?:"${escaped}"|\`${escaped}\`|\\b${escaped})\\.`, 'g');
+}
+
+// Definitions are compared without their own schema name, so two schemas of one database can be diffed
+function normalized(text: string | undefined, schema: string): string {
+    return (text ?? '').replace(qualifierPattern(schema), '').replace(/\s+/g, ' ').trim();
+}
+
+function terminated(sql: string): string {
+    const trimmed = sql.trim();
+    return trimmed.endsWith(';') ? trimmed : `${trimmed};`;
+}
+
+function groupTriggers(triggers: TriggerInfo[]): Map<string, TriggerDefinition> {
+    const groups = new Map<string, TriggerDefinition>();
+    // PostgreSQL and MySQL report one row per event
+    for (const trigger of triggers) {
+        const key = `${trigger.table}.${trigger.name}`;
+        const group = groups.get(key);
+        if (group) {
+            group.events.push(trigger.event);
+        } else {
+            groups.set(key, {
+                name: trigger.name,
+                table: trigger.table,
+                timing: trigger.timing,
+                events: [trigger.event],
+                statement: trigger.statement,
+                definition: trigger.definition,
+            });
+        }
+    }
+    for (const group of groups.values()) {
+        group.events.sort();
+    }
+    return groups;
+}
+
+function functionKey(fn: FunctionInfo): string {
+    return `${fn.name}(${fn.arguments ?? ''})`;
+}
+
+function compareKeys<T>(from: Map<string, T>, to: Map<string, T>, same: (a: T, b: T) => boolean): ObjectChanges {
+    return {
+        added: [...to.keys()].filter(key => !from.has(key)),
+        removed: [...from.keys()].filter(key => !to.has(key)),
+        changed: [...to.keys()].filter(key => from.has(key) && !same(from.get(key)!, to.get(key)!)),
+    };
+}
+
+/**
+ * Compares two schemas of the same dialect and builds the statements that
+ * turn `from` into `to`. Columns are compared by type, nullability and
+ * default; views, triggers and functions by their definitions.
+ */
+export function diffSchemas(from: DiffSide, to: DiffSide): SchemaDiff {
+    if (from.dialect !== to.dialect) {
+        throw new Error(`Cannot compare a ${from.dialect} schema with a ${to.dialect} schema`);
+    }
+    return new MigrationBuilder(from, to).build();
+}
+
+class MigrationBuilder {
+    private readonly dialect: SqlDialect;
+    private readonly warnings: string[] = [];
+
+    constructor(private from: DiffSide, private to: DiffSide) {
+        this.dialect = from.dialect;
+    }
+
+    build(): SchemaDiff {
+        const fromTables = new Map(this.from.schema.tables.map(table => [table.name, table]));
+        const toTables = new Map(this.to.schema.tables.map(table => [table.name, table]));
+        const tableChanges = [...toTables.values()]
+            .filter(table => fromTables.has(table.name))
+            .map(table => this.compareTable(fromTables.get(table.name)!, table))
+            .filter((change): change is TableChange => change !== null);
+        const addedTables = [...toTables.values()].filter(table => !fromTables.has(table.name));
+        const removedTables = [...fromTables.values()].filter(table => !toTables.has(table.name));
+
+        const fromTriggers = groupTriggers(this.from.schema.triggers);
+        const toTriggers = groupTriggers(this.to.schema.triggers);
+        const triggers = compareKeys(fromTriggers, toTriggers, (a, b) =>
+            a.timing === b.timing
+            && a.events.join() === b.events.join()
+            && normalized(a.definition ?? a.statement, this.from.schema.name) === normalized(b.definition ?? b.statement, this.to.schema.name));
+
+        const fromFunctions = new Map(this.from.schema.functions.map(fn => [functionKey(fn), fn]));
+        const toFunctions = new Map(this.to.schema.functions.map(fn => [functionKey(fn), fn]));
+        const functions = compareKeys(fromFunctions, toFunctions, (a, b) =>
+            a.returnType === b.returnType
+            && a.language === b.language
+            && normalized(a.definition, this.from.schema.name) === normalized(b.definition, this.to.schema.name));
+
+        if (this.from.schema.name !== this.to.schema.name) {
+            this.warnings.push(`Definitions copied from schema "${this.to.schema.name}" were requalified to "${this.from.schema.name}"; review them before running`);
+        }
+
+        const statements = [
+            // Dependent objects go first and come back last
+            ...[...triggers.removed, ...triggers.changed].map(key => this.dropTrigger(fromTriggers.get(key)!)),
+            ...[...removedTables, ...tableChanges.filter(change => change.definitionChanged).map(change => fromTables.get(change.table)!)]
+                .filter(table => viewKind(table))
+                .map(table => this.dropTable(table)),
+            ...[...functions.added, ...functions.changed].flatMap(key => this.createFunction(toFunctions.get(key)!, fromFunctions.get(key))),
+            ...this.orderByForeignKeys(addedTables.filter(table => !viewKind(table))).map(table => this.copyDefinition(table.ddl)),
+            ...tableChanges.filter(change => !change.definitionChanged)
+                .flatMap(change => this.alterTable(change, fromTables.get(change.table)!, toTables.get(change.table)!)),
+            ...this.orderByForeignKeys(removedTables.filter(table => !viewKind(table))).reverse().map(table => this.dropTable(table)),
+            ...[...addedTables, ...tableChanges.filter(change => change.definitionChanged).map(change => toTables.get(change.table)!)]
+                .filter(table => viewKind(table))
+                .map(table => this.copyDefinition(table.ddl)),
+            ...[...triggers.added, ...triggers.changed].map(key => this.createTrigger(toTriggers.get(key)!)),
+            ...functions.removed.map(key => this.dropFunction(fromFunctions.get(key)!)),
+        ];
+
+        for (const table of removedTables.filter(table => !viewKind(table))) {
+            this.warnings.push(`Dropping table "${table.name}" deletes its data`);
+        }
+
+        const tables = {
+            added: addedTables.map(table => table.name),
+            removed: removedTables.map(table => table.name),
+            changed: tableChanges,
+        };
+        return {
+            from: this.from.label,
+            to: this.to.label,
+            dialect: this.dialect,
+            identical: tables.added.length + tables.removed.length + tables.changed.length === 0
+                && [triggers, functions].every(changes => changes.added.length + changes.removed.length + changes.changed.length === 0),
+            tables,
+            triggers,
+            functions,
+            migration: statements.join('\n\n'),
+            warnings: this.warnings,
+        };
+    }
+
+    private compareTable(from: SnapshotTable, to: SnapshotTable): TableChange | null {
+        if (viewKind(from) || viewKind(to)) {
+            const changed = viewKind(from) !== viewKind(to)
+                || normalized(from.ddl, this.from.schema.name) !== normalized(to.ddl, this.to.schema.name);
+            return changed
+                ? { table: to.name, addedColumns: [], removedColumns: [], changedColumns: [], definitionChanged: true }
+                : null;
+        }
+
+        const fromColumns = new Map(from.columns.map(column => [column.name, columnDefinition(column)]));
+        const toColumns = new Map(to.columns.map(column => [column.name, columnDefinition(column)]));
+        const changedColumns: ColumnChange[] = [...toColumns.entries()]
+            .filter(([name, definition]) => fromColumns.has(name) && !sameColumn(fromColumns.get(name)!, definition))
+            .map(([name, definition]) => ({ column: name, from: fromColumns.get(name)!, to: definition }));
+        const change: TableChange = {
+            table: to.name,
+            addedColumns: [...toColumns.keys()].filter(name => !fromColumns.has(name)),
+            removedColumns: [...fromColumns.keys()].filter(name => !toColumns.has(name)),
+            changedColumns,
+            definitionChanged: false,
+        };
+        return change.addedColumns.length + change.removedColumns.length + changedColumns.length > 0 ? change : null;
+    }
+
+    private alterTable(change: TableChange, from: SnapshotTable, to: SnapshotTable): string[] {
+        const table = this.qualified(change.table);
+        const statements: string[] = [];
+
+        for (const name of change.addedColumns) {
+            const column = columnDefinition(to.columns.find(candidate => candidate.name === name)!);
+            if (!column.nullable && column.default === null) {
+                this.warnings.push(`Adding NOT NULL column "${change.table}.${name}" without a default fails if the table has rows`);
+            }
+            if (this.dialect === 'mysql' && column.autoIncrement) {
+                this.warnings.push(`AUTO_INCREMENT column "${change.table}.${name}" must be a key, which is not migrated; add the key in the same statement`);
+            }
+            statements.push(`ALTER TABLE ${table} ADD COLUMN ${this.columnSql(name, column)};`);
+        }
+
+        for (const { column, from: before, to: after } of change.changedColumns) {
+            statements.push(...this.alterColumn(change.table, column, before, after));
+        }
+
+        for (const name of change.removedColumns) {
+            this.warnings.push(`Dropping column "${change.table}.${name}" deletes its data`);
+            statements.push(`ALTER TABLE ${table} DROP COLUMN ${this.quote(name)};`);
+        }
+
+        // Only the primary key is checked; other keys and indexes are not compared
+        if (from.primaryKey.join() !== to.primaryKey.join()) {
+            this.warnings.push(`Primary key of "${change.table}" differs (${from.primaryKey.join(', ') || 'none'} vs ${to.primaryKey.join(', ') || 'none'}) and is not migrated`);
+        }
+        return statements;
+    }
+
+    private alterColumn(tableName: string, name: string, before: ColumnDefinition, after: ColumnDefinition): string[] {
+        const table = this.qualified(tableName);
+        const column = this.quote(name);
+        switch (this.dialect) {
+            case 'postgres': {
+                const statements: string[] = [];
+                if (before.type.toLowerCase() !== after.type.toLowerCase()) {
+                    this.warnings.push(`Changing the type of "${tableName}.${name}" from ${before.type} to ${after.type} may need a USING clause`);
+                    statements.push(`ALTER TABLE ${table} ALTER COLUMN ${column} TYPE ${after.type};`);
+                }
+                if (before.nullable !== after.nullable) {
+                    statements.push(`ALTER TABLE ${table} ALTER COLUMN ${column} ${after.nullable ? 'DROP' : 'SET'} NOT NULL;`);
+                }
+                if (before.default !== after.default) {
+                    statements.push(after.default === null
+                        ? `ALTER TABLE ${table} ALTER COLUMN ${column} DROP DEFAULT;`
+                        : `ALTER TABLE ${table} ALTER COLUMN ${column} SET DEFAULT ${after.default};`);
+                }
+                return statements;
+            }
+            case 'mysql':
+                if (before.generated || after.generated) {
+                    this.warnings.push(`"${tableName}.${name}" is a generated column; MODIFY COLUMN does not restate its expression, so add it by hand`);
+                }
+                // MODIFY restates the whole column, including attributes that did not change
+                return [`ALTER TABLE ${table} MODIFY COLUMN ${this.columnSql(name, after)};`];
+            case 'sqlite':
+                this.warnings.push(`SQLite cannot alter column "${tableName}.${name}"; rebuild the table to change it`);
+                return [`-- Rebuild ${table} to change ${column} to ${this.columnSql(name, after)}`];
+        }
+    }
+
+    private columnSql(name: string, column: ColumnDefinition): string {
+        const mysql = this.dialect === 'mysql';
+        return [
+            this.quote(name),
+            column.type,
+            mysql && column.collation ? `COLLATE ${column.collation}` : '',
+            column.nullable ? '' : 'NOT NULL',
+            column.default === null ? '' : `DEFAULT ${this.defaultSql(column.default)}`,
+            mysql && column.onUpdate ? `ON UPDATE ${column.onUpdate}` : '',
+            mysql && column.autoIncrement ? 'AUTO_INCREMENT' : '',
+            mysql && column.comment ? `COMMENT ${sqlLiteral(column.comment, 'mysql')}` : '',
+        ].filter(Boolean).join(' ');
+    }
+
+    private defaultSql(value: string): string {
+        // MySQL reports literal defaults unquoted; PostgreSQL and SQLite report expressions
+        if (this.dialect !== 'mysql' || /^(-?\d+(\.\d+)?|NULL|CURRENT_TIMESTAMP(\(\d*\))?|\(.*\))$/i.test(value)) {
+            return value;
+        }
+        return sqlLiteral(value, 'mysql');
+    }
+
+    private dropTable(table: SnapshotTable): string {
+        return `DROP ${viewKind(table) ?? 'TABLE'} ${this.qualified(table.name)};`;
+    }
+
+    private dropTrigger(trigger: TriggerDefinition): string {
+        return this.dialect === 'postgres'
+            ? `DROP TRIGGER ${this.quote(trigger.name)} ON ${this.qualified(trigger.table)};`
+            : `DROP TRIGGER ${this.qualified(trigger.name)};`;
+    }
+
+    private createTrigger(trigger: TriggerDefinition): string {
+        if (this.dialect === 'sqlite' || trigger.definition) {
+            return this.copyDefinition(trigger.definition ?? trigger.statement);
+        }
+        if (this.dialect === 'postgres') {
+            this.warnings.push(`Trigger "${trigger.name}" was rebuilt from its parts and assumed to be FOR EACH ROW`);
+        }
+        return terminated(`CREATE TRIGGER ${this.qualifiedTrigger(trigger.name)} ${trigger.timing} ${trigger.events.join(' OR ')} ON ${this.qualified(trigger.table)} FOR EACH ROW ${trigger.statement}`);
+    }
+
+    private createFunction(fn: FunctionInfo, previous?: FunctionInfo): string[] {
+        if (this.dialect === 'postgres') {
+            // CREATE OR REPLACE cannot change the return type
+            const drop = previous && previous.returnType !== fn.returnType ? [this.dropFunction(previous)] : [];
+            return [...drop, this.copyDefinition(fn.definition)];
+        }
+        this.warnings.push(`Function "${fn.name}" was rebuilt from its body; characteristics such as DETERMINISTIC are not captured`);
+        return [
+            ...(previous ? [this.dropFunction(previous)] : []),
+            terminated(`CREATE FUNCTION ${this.qualified(fn.name)}(${fn.arguments ?? ''}) RETURNS ${fn.returnType}\n${fn.definition}`),
+        ];
+    }
+
+    private dropFunction(fn: FunctionInfo): string {
+        if (this.dialect === 'postgres') {
+            // Argument defaults are not part of the signature
+            const signature = (fn.arguments ?? '').replace(/\s+DEFAULT\s+[^,]*/gi, '');
+            return `DROP FUNCTION ${this.qualified(fn.name)}(${signature});`;
+        }
+        return `DROP FUNCTION IF EXISTS ${this.qualified(fn.name)};`;
+    }
+
+    // DDL taken from "to", pointed at the schema of "from"
+    private copyDefinition(ddl: string): string {
+        const requalified = this.from.schema.name === this.to.schema.name
+            ? ddl
+            : ddl.replace(qualifierPattern(this.to.schema.name), `${this.quote(this.from.schema.name)}.`);
+        return terminated(requalified);
+    }
+
+    private orderByForeignKeys(tables: SnapshotTable[]): SnapshotTable[] {
+        const byName = new Map(tables.map(table => [table.name, table]));
+        return topologicalSort(tables, table => table.foreignKeys
+            .map(key => byName.get(key.referencedTable))
+            .filter((dependency): dependency is SnapshotTable => dependency !== undefined));
+    }
+
+    private qualifiedTrigger(name: string): string {
+        // PostgreSQL triggers live in the schema of their table
+        return this.dialect === 'postgres' ? this.quote(name) : this.qualified(name);
+    }
+
+    private qualified(name: string): string {
+        return `${this.quote(this.from.schema.name)}.${this.quote(name)}`;
+    }
+
+    private quote(name: string): string {
+        return quoteSqlIdentifier(name, this.dialect);
+    }
+}
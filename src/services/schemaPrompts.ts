@@ -0,0 +1,117 @@
+import { ConnectionRegistry } from './connections.js';
+import { DatabaseService } from './database.js';
+import { TableInfo } from '../types/database.js';
+import { SqlDialect } from '../types/sql.js';
+import { tokenizeSql } from '../utils/sql.js';
+
+// Larger schemas are cut off so the prompt stays within a model's context
+const MAX_PROMPT_TABLES = 200;
+
+const DIALECT_NAMES: Record<SqlDialect, string> = {
+    postgres: 'PostgreSQL',
+    mysql: 'MySQL',
+    sqlite: 'SQLite',
+};
+
+function sqlBlock(sql: string): string {
+    return `\`\`\`sql\n${sql.trim()}\n\`\`\``;
+}
+
+function jsonBlock(value: unknown): string {
+    return `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``;
+}
+
+function tableOutline(table: TableInfo): string {
+    const columns = table.columns.map(column => `${column.name} ${column.type}${column.nullable ? '' : ' NOT NULL'}`);
+    return `- ${table.name}(${columns.join(', ')})`;
+}
+
+/**
+ * Builds the text of the built-in prompts from the live schema of a SQL
+ * connection, so every client gets the same grounded instructions.
+ */
+export class SchemaPrompts {
+    constructor(private connections: ConnectionRegistry) {}
+
+    /**
+     * Tables of the named (or active) connection, for argument completion.
+     */
+    async tableNames(connection?: string): Promise<string[]> {
+        const service = this.connections.get(connection);
+        if (!service || service.type === 'firestore') return [];
+        return (await service.getTables()).map(table => table.name);
+    }
+
+    async explainTable(table: string, schema?: string, connection?: string): Promise<string> {
+        const { service, dialect } = this.resolve(connection);
+        const [details, ddl] = await Promise.all([
+            service.describeTable(table, schema),
+            service.exportTableSchema(table, schema),
+        ]);
+        return [
+            `Explain the ${DIALECT_NAMES[dialect]} table "${details.schema ?? schema}.${details.name}" to a developer who is new to this database.`,
+            'Describe what the table most likely stores, what each column means, how it relates to other tables through its foreign keys, and which indexes and constraints shape how it should be queried. Point out anything surprising, such as missing keys or nullable columns that look required.',
+            `DDL:\n${sqlBlock(ddl)}`,
+            `Column and key metadata:\n${jsonBlock(details)}`,
+        ].join('\n\n');
+    }
+
+    async writeQuery(request: string, schema?: string, connection?: string): Promise<string> {
+        const { service, dialect } = this.resolve(connection);
+        const tables = await service.getTables(schema);
+        const outline = tables.slice(0, MAX_PROMPT_TABLES).map(tableOutline);
+        if (tables.length > MAX_PROMPT_TABLES) {
+            outline.push(`- ... and ${tables.length - MAX_PROMPT_TABLES} more tables; use !tables to list them`);
+        }
+        return [
+            `Write a ${DIALECT_NAMES[dialect]} query for the following request:\n\n${request}`,
+            'Use only the tables and columns below. Qualify ambiguous columns, prefer explicit JOINs, and pass user-supplied values as parameters rather than literals. If the request cannot be answered from this schema, say what is missing instead of guessing. Use !describe for keys and indexes of a table and !explain to check the plan of a query that may be slow.',
+            `Tables${schema ? ` in schema "${schema}"` : ''}:\n${outline.join('\n')}`,
+        ].join('\n\n');
+    }
+
+    async reviewMigration(migration: string, schema?: string, connection?: string): Promise<string> {
+        const { service, dialect } = this.resolve(connection);
+        const tables = await service.getTables(schema);
+        // Existing tables named anywhere in the migration, compared case-insensitively
+        const mentioned = new Set(tokenizeSql(migration, dialect)
+            .filter(token => token.type === 'word' || token.type === 'quoted')
+            .map(token => token.value.toLowerCase()));
+        const touched = tables.filter(table => mentioned.has(table.name.toLowerCase()));
+        const ddl = await Promise.all(touched.map(table => service.exportTableSchema(table.name, schema)));
+
+        return [
+            `Review this ${DIALECT_NAMES[dialect]} migration before it is applied:\n\n${sqlBlock(migration)}`,
+            'Check it against the current definitions below. Look for data loss, statements that lock or rewrite large tables, changes that break existing queries or foreign keys, missing or redundant indexes, NOT NULL columns added without defaults, and anything that cannot be rolled back. List each problem with its severity and a suggested fix, then say whether the migration is safe to run as is.',
+            touched.length > 0
+                ? `Current definitions of the tables it touches:\n${ddl.map(sqlBlock).join('\n\n')}`
+                : 'The migration does not touch any existing table.',
+        ].join('\n\n');
+    }
+
+    async findDataQualityIssues(table: string, schema?: string, connection?: string): Promise<string> {
+        const { service, dialect } = this.resolve(connection);
+        const [details, ddl] = await Promise.all([
+            service.describeTable(table, schema),
+            service.exportTableSchema(table, schema),
+        ]);
+        const name = `${details.schema ?? schema}.${details.name}`;
+        return [
+            `Find data quality issues in the ${DIALECT_NAMES[dialect]} table "${name}".`,
+            'Based on the definition below, write read-only queries that look for unexpected NULLs, empty strings, duplicates where values should be unique, orphaned rows whose foreign keys point nowhere, out-of-range or future dates, inconsistent casing or formats, and values outside the expected domain of each column. Run them with !query, keeping samples small with LIMIT, and summarize each issue with the number of affected rows and a suggested fix.',
+            `DDL:\n${sqlBlock(ddl)}`,
+            `Column and key metadata:\n${jsonBlock(details)}`,
+        ].join('\n\n');
+    }
+
+    private resolve(connection?: string): { service: DatabaseService; dialect: SqlDialect } {
+        const service = this.connections.get(connection);
+        if (!service) {
+            throw new Error(connection ? `Connection "${connection}" not found` : 'You must connect to a database first');
+        }
+        if (!service.dialect) {
+            throw new Error('Prompts are not available for Firestore connections');
+        }
+        return { service, dialect: service.dialect };
+    }
+}
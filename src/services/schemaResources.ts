@@ -0,0 +1,137 @@
+import { ConnectionRegistry } from './connections.js';
+import { DatabaseService } from './database.js';
+
+export const TABLE_URI_TEMPLATE = 'db://{connection}/{schema}/{table}';
+export const FUNCTION_URI_TEMPLATE = 'db://{connection}/{schema}/functions/{function}';
+export const TRIGGER_URI_TEMPLATE = 'db://{connection}/{schema}/triggers/{trigger}';
+
+const JSON_MIME_TYPE = 'application/json';
+
+// Type aliases rather than interfaces so they satisfy the SDK's open result types
+export type SchemaResource = {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType: string;
+};
+
+export type SchemaResourceContents = {
+    uri: string;
+    mimeType: string;
+    text: string;
+};
+
+function resourceUri(connection: string, schema: string, ...path: string[]): string {
+    return `db://${[connection, schema, ...path].map(encodeURIComponent).join('/')}`;
+}
+
+// Template variables arrive percent-encoded
+function variable(value: string | string[]): string {
+    return decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+}
+
+/**
+ * Tables, views, functions and triggers of the open SQL connections as
+ * read-only MCP resources, so clients can attach schema without tool calls.
+ */
+export class SchemaResources {
+    constructor(private connections: ConnectionRegistry) {}
+
+    connectionNames(): string[] {
+        return this.connections.list().filter(summary => summary.type !== 'firestore').map(summary => summary.name);
+    }
+
+    /**
+     * Every table, view, function and trigger in every schema. A connection
+     * that fails to answer is left out rather than failing the whole list.
+     */
+    async list(): Promise<SchemaResource[]> {
+        const resources: SchemaResource[] = [];
+        for (const name of this.connectionNames()) {
+            const service = this.connections.get(name)!;
+            try {
+                for (const { name: schema } of await service.getSchemas()) {
+                    resources.push(...await this.listSchema(name, service, schema));
+                }
+            } catch (error: unknown) {
+                console.error(`Failed to list resources of connection "${name}":`, error);
+            }
+        }
+        return resources;
+    }
+
+    async readTable(variables: Record<string, string | string[]>, uri: string): Promise<SchemaResourceContents> {
+        const { service, connection, schema } = this.resolve(variables);
+        const table = variable(variables.table);
+        const [details, ddl] = await Promise.all([
+            service.describeTable(table, schema),
+            service.exportTableSchema(table, schema),
+        ]);
+        return this.json(uri, { connection, type: service.type, ...details, ddl });
+    }
+
+    async readFunction(variables: Record<string, string | string[]>, uri: string): Promise<SchemaResourceContents> {
+        const { service, connection, schema } = this.resolve(variables);
+        const name = variable(variables.function);
+        // Overloads share a name and are returned together
+        const overloads = (await service.getFunctions(schema)).filter(candidate => candidate.name === name);
+        if (overloads.length === 0) {
+            throw new Error(`Function "${schema}.${name}" not found`);
+        }
+        return this.json(uri, { connection, type: service.type, schema, name, overloads });
+    }
+
+    async readTrigger(variables: Record<string, string | string[]>, uri: string): Promise<SchemaResourceContents> {
+        const { service, connection, schema } = this.resolve(variables);
+        const name = variable(variables.trigger);
+        // A trigger on several events is reported once per event
+        const events = (await service.getTriggers(schema)).filter(candidate => candidate.name === name);
+        if (events.length === 0) {
+            throw new Error(`Trigger "${schema}.${name}" not found`);
+        }
+        return this.json(uri, { connection, type: service.type, schema, name, table: events[0].table, events });
+    }
+
+    private async listSchema(connection: string, service: DatabaseService, schema: string): Promise<SchemaResource[]> {
+        const [tables, functions, triggers] = await Promise.all([
+            service.getTables(schema),
+            service.getFunctions(schema),
+            service.getTriggers(schema),
+        ]);
+        return [
+            ...tables.map(table => ({
+                uri: resourceUri(connection, schema, table.name),
+                name: `${connection}: ${schema}.${table.name}`,
+                description: `${table.columns.length} columns: ${table.columns.map(column => column.name).join(', ')}`,
+                mimeType: JSON_MIME_TYPE,
+            })),
+            ...[...new Set(functions.map(fn => fn.name))].map(name => ({
+                uri: resourceUri(connection, schema, 'functions', name),
+                name: `${connection}: function ${schema}.${name}`,
+                mimeType: JSON_MIME_TYPE,
+            })),
+            ...[...new Map(triggers.map(trigger => [trigger.name, trigger])).values()].map(trigger => ({
+                uri: resourceUri(connection, schema, 'triggers', trigger.name),
+                name: `${connection}: trigger ${schema}.${trigger.name}`,
+                description: `On ${trigger.table}`,
+                mimeType: JSON_MIME_TYPE,
+            })),
+        ];
+    }
+
+    private resolve(variables: Record<string, string | string[]>) {
+        const connection = variable(variables.connection);
+        const service = this.connections.has(connection) ? this.connections.get(connection)! : undefined;
+        if (!service) {
+            throw new Error(`Connection "${connection}" not found`);
+        }
+        if (service.type === 'firestore') {
+            throw new Error('Schema resources are not available for Firestore connections');
+        }
+        return { service, connection, schema: variable(variables.schema) };
+    }
+
+    private json(uri: string, value: unknown): SchemaResourceContents {
+        return { uri, mimeType: JSON_MIME_TYPE, text: JSON.stringify(value, null, 2) };
+    }
+}
@@ -0,0 +1,83 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { DatabaseService } from './database.js';
+import { SchemaSnapshot, SnapshotSchema } from '../types/snapshot.js';
+
+export const SCHEMA_SNAPSHOT_VERSION = 1;
+
+/**
+ * Tables with their DDL, triggers and functions of one schema.
+ */
+export async function captureSchema(service: DatabaseService, schema: string): Promise<SnapshotSchema> {
+    const [tables, triggers, functions] = await Promise.all([
+        service.getTables(schema),
+        service.getTriggers(schema),
+        service.getFunctions(schema),
+    ]);
+    const details = [];
+    // One table at a time so a large schema does not exhaust the pool
+    for (const table of tables.sort((a, b) => a.name.localeCompare(b.name))) {
+        const [description, ddl] = await Promise.all([
+            service.describeTable(table.name, schema),
+            service.exportTableSchema(table.name, schema),
+        ]);
+        details.push({ ...description, ddl });
+    }
+    // Stable order keeps snapshot files diffable under version control
+    return {
+        name: schema,
+        tables: details,
+        triggers: triggers.sort((a, b) => `${a.table}.${a.name}.${a.event}`.localeCompare(`${b.table}.${b.name}.${b.event}`)),
+        functions: functions.sort((a, b) => `${a.name}(${a.arguments})`.localeCompare(`${b.name}(${b.arguments})`)),
+    };
+}
+
+/**
+ * Captures the given schemas of a SQL connection, or its default schema when
+ * none are given.
+ */
+export async function captureSnapshot(service: DatabaseService, schemas?: string[]): Promise<SchemaSnapshot> {
+    const dialect = service.dialect;
+    if (!dialect) {
+        throw new Error('Schema snapshots are not supported for Firestore');
+    }
+    const available = await service.getSchemas();
+    const defaultSchema = available.find(schema => schema.default)?.name ?? available[0]?.name;
+    if (!defaultSchema) {
+        throw new Error('The database has no schemas to capture');
+    }
+
+    const captured: SnapshotSchema[] = [];
+    for (const name of schemas ?? [defaultSchema]) {
+        if (!available.some(schema => schema.name === name)) {
+            throw new Error(`Schema "${name}" not found`);
+        }
+        captured.push(await captureSchema(service, name));
+    }
+    return {
+        version: SCHEMA_SNAPSHOT_VERSION,
+        dialect,
+        capturedAt: new Date().toISOString(),
+        defaultSchema,
+        schemas: captured,
+    };
+}
+
+export async function readSnapshotFile(path: string): Promise<SchemaSnapshot> {
+    let snapshot: SchemaSnapshot;
+    try {
+        snapshot = JSON.parse(await readFile(path, 'utf8'));
+    } catch (error: unknown) {
+        throw new Error(`Failed to read snapshot "${path}": ${error instanceof Error ? error.message : error}`);
+    }
+    if (typeof snapshot?.version !== 'number' || !Array.isArray(snapshot.schemas)) {
+        throw new Error(`"${path}" is not a schema snapshot`);
+    }
+    if (snapshot.version > SCHEMA_SNAPSHOT_VERSION) {
+        throw new Error(`Snapshot "${path}" has version ${snapshot.version}; this server reads up to version ${SCHEMA_SNAPSHOT_VERSION}`);
+    }
+    return snapshot;
+}
+
+export async function writeSnapshotFile(path: string, snapshot: SchemaSnapshot): Promise<void> {
+    await writeFile(path, `${JSON.stringify(snapshot, null, 2)}\n`);
+}
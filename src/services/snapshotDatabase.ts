@@ -0,0 +1,94 @@
+import { FunctionInfo, SchemaInfo, TableDetails, TableInfo, TriggerInfo } from '../types/database.js';
+import { SchemaSnapshot, SnapshotSchema, SnapshotTable } from '../types/snapshot.js';
+import { SqlDialect } from '../types/sql.js';
+import { topologicalSort } from '../utils/graph.js';
+import { readSnapshotFile } from './schemaSnapshot.js';
+
+function isView(table: SnapshotTable): boolean {
+    return /\bCREATE\b[^;(]*?\bVIEW\b/i.test(table.ddl);
+}
+
+/**
+ * Serves the introspection calls of DatabaseService from a snapshot file, so
+ * schema can be explored without access to the database itself.
+ */
+export class SnapshotDatabase {
+    private constructor(readonly path: string, private snapshot: SchemaSnapshot) {}
+
+    static async open(path: string): Promise<SnapshotDatabase> {
+        return new SnapshotDatabase(path, await readSnapshotFile(path));
+    }
+
+    get dialect(): SqlDialect {
+        return this.snapshot.dialect;
+    }
+
+    get defaultSchema(): string {
+        return this.snapshot.defaultSchema;
+    }
+
+    get capturedAt(): string {
+        return this.snapshot.capturedAt;
+    }
+
+    getSchemas(): SchemaInfo[] {
+        return this.snapshot.schemas.map(schema => ({ name: schema.name, default: schema.name === this.defaultSchema }));
+    }
+
+    getTables(schema: string): TableInfo[] {
+        return this.schema(schema).tables.map(table => ({ schema: table.schema ?? schema, name: table.name, columns: table.columns }));
+    }
+
+    getTriggers(schema: string): TriggerInfo[] {
+        return this.schema(schema).triggers;
+    }
+
+    getFunctions(schema: string): FunctionInfo[] {
+        return this.schema(schema).functions;
+    }
+
+    describeTable(schema: string, tableName: string): TableDetails {
+        const { ddl, ...details } = this.table(schema, tableName);
+        return details;
+    }
+
+    exportTableSchema(schema: string, tableName: string): string {
+        return this.table(schema, tableName).ddl;
+    }
+
+    /**
+     * DDL of every table and view in the schema, or in every captured schema,
+     * with referenced tables first.
+     */
+    exportDatabaseSchema(schema?: string): string {
+        const schemas = schema === undefined ? this.snapshot.schemas : [this.schema(schema)];
+        const tables = schemas.flatMap(captured => captured.tables.map(table => ({ schema: captured.name, table })));
+        const key = (schemaName: string, tableName: string) => `${schemaName}.${tableName}`;
+        const byKey = new Map(tables.map(entry => [key(entry.schema, entry.table.name), entry]));
+        const baseTables = tables.filter(entry => !isView(entry.table));
+        // Views are not linked by foreign keys, so they wait for every table
+        return topologicalSort(tables, entry => isView(entry.table)
+            ? baseTables
+            : entry.table.foreignKeys
+                .map(foreignKey => byKey.get(key(foreignKey.referencedSchema, foreignKey.referencedTable)))
+                .filter((dependency): dependency is typeof entry => dependency !== undefined))
+            .map(entry => entry.table.ddl.trim())
+            .join('\n\n');
+    }
+
+    private schema(name: string): SnapshotSchema {
+        const schema = this.snapshot.schemas.find(candidate => candidate.name === name);
+        if (!schema) {
+            throw new Error(`Schema "${name}" is not in snapshot "${this.path}"`);
+        }
+        return schema;
+    }
+
+    private table(schema: string, tableName: string): SnapshotTable {
+        const table = this.schema(schema).tables.find(candidate => candidate.name === tableName);
+        if (!table) {
+            throw new Error(`Table "${schema}.${tableName}" not found`);
+        }
+        return table;
+    }
+}
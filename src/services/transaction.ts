@@ -0,0 +1,222 @@
+import { ResultColumn } from '../types/masking.js';
+import { SqlDialect } from '../types/sql.js';
+import { StatementEffect, TransactionOptions, TransactionReport, TransactionStatus } from '../types/transaction.js';
+import { classifySql } from '../utils/sql.js';
+
+export const DEFAULT_TRANSACTION_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+// Statements are kept in the report up to this length
+const MAX_STATEMENT_LENGTH = 500;
+// Statements that would end the transaction or move its savepoints behind the session's back
+const TRANSACTION_CONTROL_KEYWORDS = new Set(['BEGIN', 'START', 'COMMIT', 'END', 'ROLLBACK', 'ABORT', 'SAVEPOINT', 'RELEASE']);
+
+export interface StatementResult {
+    // null for statements that return no result set
+    rows: any[] | null;
+    affectedRows: number | null;
+    // Command tag reported by the server, where there is one
+    command?: string;
+    // Descriptions of the result set's columns, where the driver gives them
+    columns?: ResultColumn[];
+}
+
+/**
+ * A single database connection taken out of the pool for the lifetime of a
+ * transaction.
+ */
+export interface PinnedConnection {
+    dialect: SqlDialect;
+    query(sql: string, values?: unknown[]): Promise<StatementResult>;
+    release(): void;
+}
+
+function assertSavepointName(name: string): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        throw new Error(`Invalid savepoint name "${name}"; use letters, digits and underscores`);
+    }
+}
+
+/**
+ * An explicit transaction that spans tool calls. Statements run on the pinned
+ * connection until the transaction is committed or rolled back; it is rolled
+ * back automatically once it sits idle for longer than its timeout.
+ */
+export class TransactionSession {
+    private savepoints: { name: string; statementCount: number }[] = [];
+    private statements: StatementEffect[] = [];
+    private startedAt = new Date();
+    private idleTimer?: NodeJS.Timeout;
+    private closed = false;
+    private readonly idleTimeoutMillis: number;
+
+    private constructor(
+        private connection: PinnedConnection,
+        private options: TransactionOptions,
+        private onClose: (report: TransactionReport) => void
+    ) {
+        this.idleTimeoutMillis = options.idleTimeoutMillis ?? DEFAULT_TRANSACTION_IDLE_TIMEOUT_MS;
+    }
+
+    /**
+     * Opens a transaction on `connection`. `onClose` is called once the
+     * transaction ends, however it ends.
+     */
+    static async begin(
+        connection: PinnedConnection,
+        options: TransactionOptions,
+        readOnly: boolean,
+        onClose: (report: TransactionReport) => void
+    ): Promise<TransactionSession> {
+        const statement = connection.dialect === 'sqlite'
+            ? 'BEGIN'
+            : `${connection.dialect === 'mysql' ? 'START TRANSACTION' : 'BEGIN TRANSACTION'}${readOnly ? ' READ ONLY' : ''}`;
+        try {
+            await connection.query(statement);
+        } catch (error: unknown) {
+            connection.release();
+            throw error;
+        }
+        const session = new TransactionSession(connection, options, onClose);
+        session.touch();
+        return session;
+    }
+
+    get status(): TransactionStatus {
+        return {
+            dryRun: this.options.dryRun ?? false,
+            startedAt: this.startedAt.toISOString(),
+            idleTimeoutMillis: this.idleTimeoutMillis,
+            savepoints: this.savepoints.map(savepoint => savepoint.name),
+            statements: [...this.statements],
+        };
+    }
+
+    /**
+     * Runs one statement. Result sets are returned as rows, and their column
+     * descriptions passed to `onColumns`; other statements return their
+     * command and affected row count.
+     */
+    async execute(sql: string, values: unknown[] = [], onColumns?: (columns: ResultColumn[]) => void): Promise<any> {
+        this.touch();
+        const { statements } = classifySql(sql, this.connection.dialect);
+        for (const statement of statements) {
+            if (TRANSACTION_CONTROL_KEYWORDS.has(statement.keyword)) {
+                throw new Error(`${statement.keyword} cannot run inside an open transaction; use !begin, !commit and !rollback, `
+                    + 'with a savepoint name for savepoints');
+            }
+            // MySQL commits implicitly before and after schema changes, which would keep the changes of a dry run
+            if (this.options.dryRun && this.connection.dialect === 'mysql' && statement.kind === 'ddl') {
+                throw new Error(`${statement.keyword} cannot run in a MySQL dry run; schema changes commit the transaction implicitly`);
+            }
+        }
+        const [classification] = statements;
+        const result = await this.connection.query(sql, values);
+        this.touch();
+        if (result.rows && result.columns) onColumns?.(result.columns);
+
+        if (classification && classification.kind !== 'read') {
+            this.statements.push({
+                statement: sql.length > MAX_STATEMENT_LENGTH ? `${sql.slice(0, MAX_STATEMENT_LENGTH)}...` : sql,
+                command: classification.keyword,
+                affectedRows: result.affectedRows,
+            });
+        }
+        return result.rows ?? { command: classification?.keyword ?? '', affectedRows: result.affectedRows };
+    }
+
+    async savepoint(name: string): Promise<void> {
+        assertSavepointName(name);
+        this.touch();
+        await this.connection.query(`SAVEPOINT ${name}`);
+        // Reusing a name moves the savepoint, as in SQL
+        this.savepoints = this.savepoints.filter(savepoint => savepoint.name !== name);
+        this.savepoints.push({ name, statementCount: this.statements.length });
+    }
+
+    /**
+     * Forgets the savepoint and every one set after it, keeping their changes.
+     */
+    async releaseSavepoint(name: string): Promise<void> {
+        const index = this.findSavepoint(name);
+        this.touch();
+        await this.connection.query(`RELEASE SAVEPOINT ${name}`);
+        this.savepoints = this.savepoints.slice(0, index);
+    }
+
+    /**
+     * Undoes everything after the savepoint, which stays open.
+     */
+    async rollbackToSavepoint(name: string): Promise<void> {
+        const index = this.findSavepoint(name);
+        this.touch();
+        await this.connection.query(`ROLLBACK TO SAVEPOINT ${name}`);
+        this.statements = this.statements.slice(0, this.savepoints[index].statementCount);
+        this.savepoints = this.savepoints.slice(0, index + 1);
+    }
+
+    /**
+     * Commits, or rolls back when the transaction is a dry run.
+     */
+    async commit(): Promise<TransactionReport> {
+        return this.options.dryRun ? this.end('ROLLBACK', 'dry run') : this.end('COMMIT');
+    }
+
+    async rollback(reason?: TransactionReport['reason']): Promise<TransactionReport> {
+        return this.end('ROLLBACK', reason ?? (this.options.dryRun ? 'dry run' : undefined));
+    }
+
+    private findSavepoint(name: string): number {
+        const index = this.savepoints.findIndex(savepoint => savepoint.name === name);
+        if (index < 0) {
+            throw new Error(`Savepoint "${name}" not found`);
+        }
+        return index;
+    }
+
+    private touch(): void {
+        if (this.closed) {
+            throw new Error('Transaction is already closed');
+        }
+        clearTimeout(this.idleTimer);
+        this.idleTimer = setTimeout(() => {
+            this.rollback('idle timeout').catch(error => console.error('Failed to roll back idle transaction:', error));
+        }, this.idleTimeoutMillis);
+        // An open transaction must not keep the process alive
+        this.idleTimer.unref();
+    }
+
+    private async end(statement: 'COMMIT' | 'ROLLBACK', reason?: TransactionReport['reason']): Promise<TransactionReport> {
+        if (this.closed) {
+            throw new Error('Transaction is already closed');
+        }
+        clearTimeout(this.idleTimer);
+        this.closed = true;
+
+        const report: TransactionReport = {
+            outcome: statement === 'COMMIT' ? 'committed' : 'rolled back',
+            ...(reason && { reason }),
+            dryRun: this.options.dryRun ?? false,
+            statements: this.statements,
+            affectedRows: this.statements.reduce((sum, effect) => sum + (effect.affectedRows ?? 0), 0),
+            durationMillis: Date.now() - this.startedAt.getTime(),
+        };
+        try {
+            const result = await this.connection.query(statement);
+            // Postgres answers COMMIT with ROLLBACK when an earlier statement failed
+            if (statement === 'COMMIT' && result.command === 'ROLLBACK') {
+                report.outcome = 'rolled back';
+                report.reason = 'aborted';
+            }
+        } catch (error: unknown) {
+            if (statement === 'COMMIT') {
+                // A failed commit leaves nothing applied; make sure the connection goes back clean
+                report.outcome = 'rolled back';
+                await this.connection.query('ROLLBACK').catch(() => undefined);
+            }
+            throw error;
+        } finally {
+            this.connection.release();
+            this.onClose(report);
+        }
+        return report;
+    }
+}
@@ -0,0 +1,20 @@
+/**
+ * Schema, table and column patterns, as case-insensitive globs (* and ?).
+ * Table patterns with a dot match "schema.table"; column patterns with one
+ * dot match "table.column" and with two "schema.table.column".
+ */
+export interface AccessRules {
+    schemas?: string[];
+    tables?: string[];
+    columns?: string[];
+}
+
+/**
+ * Restricts a connection to part of its database. When `allow` lists
+ * patterns of a kind, only matching objects of that kind are accessible;
+ * `deny` then removes objects from what is left.
+ */
+export interface AccessPolicy {
+    allow?: AccessRules;
+    deny?: AccessRules;
+}
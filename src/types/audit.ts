@@ -0,0 +1,28 @@
+export interface AuditEntry {
+    // Increasing within one log file
+    id: number;
+    timestamp: string;
+    tool: string;
+    // Connection alias the call ran against, when there was one
+    connection: string | null;
+    // SQL text of query tools, with secrets redacted
+    statement?: string;
+    params?: unknown;
+    // Remaining tool arguments, with secrets redacted
+    arguments: Record<string, unknown>;
+    durationMillis: number;
+    // Rows returned or affected, when the result reports them
+    rowCount: number | null;
+    error?: string;
+    // Set when the call re-ran an earlier entry through !history
+    rerunOf?: number;
+}
+
+export interface HistoryFilter {
+    connection?: string;
+    tool?: string;
+    // Case-insensitive substring of the statement
+    search?: string;
+    errorsOnly?: boolean;
+    limit?: number;
+}
@@ -0,0 +1,30 @@
+import { DatabaseConnectionConfig, DatabaseType, PoolOptions } from './database.js';
+import { AccessPolicy } from './access.js';
+import { MaskingPolicy } from './masking.js';
+
+/**
+ * A named set of connection settings. String values may reference
+ * environment variables as ${NAME} or ${NAME:-fallback}; they are resolved
+ * when the profile is connected, so secrets never appear in tool arguments.
+ */
+export interface ConnectionProfile {
+    // Optional when url is given
+    type?: DatabaseType;
+    // postgres://, mysql://, sqlite: or firestore:// connection string; fields in connection override it
+    url?: string;
+    connection?: DatabaseConnectionConfig;
+    readOnly?: boolean;
+    defaultSchema?: string;
+    pool?: PoolOptions;
+    // Rules checked before the server-wide ones; its hashSalt replaces theirs
+    masking?: MaskingPolicy;
+    access?: AccessPolicy;
+}
+
+export interface ServerConfig {
+    // Connected at startup under its own name
+    defaultProfile?: string;
+    profiles: Record<string, ConnectionProfile>;
+    // Applies to every connection, including those opened with !pg, !mysql, !sqlite and !firestore
+    masking?: MaskingPolicy;
+}
@@ -1,4 +1,7 @@
-export type DatabaseType = 'postgres' | 'mysql' | 'firestore';
+import { AccessPolicy } from './access.js';
+import { MaskingPolicy } from './masking.js';
+
+export type DatabaseType = 'postgres' | 'mysql' | 'firestore' | 'sqlite' | 'snapshot';
 
 export interface DatabaseConnectionConfig {
     // PostgreSQL ve MySQL için
@@ -10,14 +13,41 @@ export interface DatabaseConnectionConfig {
     // Firestore için
     projectId?: string;
     keyFilename?: string;
+    // SQLite için
+    filename?: string;
+    memory?: boolean;
+}
+
+export interface PoolOptions {
+    max?: number;
+    connectionTimeoutMillis?: number;
+    idleTimeoutMillis?: number;
+    statementTimeoutMillis?: number;
+    // Set to 0 to disable background health checks
+    healthCheckIntervalMillis?: number;
 }
 
 export interface DatabaseConfig {
     type: DatabaseType;
     connection: DatabaseConnectionConfig;
+    // Reject anything but read statements in executeQuery
+    readOnly?: boolean;
+    pool?: PoolOptions;
+    // Schema used by introspection tools (and the Postgres search_path) when none is given
+    defaultSchema?: string;
+    // Applied to every row and document the connection returns
+    masking?: MaskingPolicy;
+    // Schemas, tables and columns the connection may see
+    access?: AccessPolicy;
+}
+
+export interface SchemaInfo {
+    name: string;
+    default: boolean;
 }
 
 export interface TableInfo {
+    schema?: string;
     name: string;
     columns: ColumnInfo[];
 }
@@ -26,20 +56,103 @@ export interface ColumnInfo {
     name: string;
     type: string;
     nullable: boolean;
+    // Filled in by describeTable
+    default?: string | null;
+    comment?: string | null;
+    primaryKey?: boolean;
+    autoIncrement?: boolean;
+    generated?: boolean;
+    // MySQL: the ON UPDATE expression and the collation of text columns
+    onUpdate?: string | null;
+    collation?: string | null;
+    // Firestore: share of sampled documents that have the field
+    presence?: number;
+}
+
+export interface ForeignKeyInfo {
+    name: string;
+    schema: string;
+    table: string;
+    columns: string[];
+    referencedSchema: string;
+    referencedTable: string;
+    referencedColumns: string[];
+    onUpdate: string;
+    onDelete: string;
+}
+
+export interface UniqueConstraintInfo {
+    name: string;
+    columns: string[];
+}
+
+export interface CheckConstraintInfo {
+    name: string;
+    expression: string;
+}
+
+export interface IndexInfo {
+    name: string;
+    columns: string[];
+    unique: boolean;
+    primary: boolean;
+    method: string | null;
+    definition: string | null;
+}
+
+export interface TableDetails extends TableInfo {
+    comment: string | null;
+    primaryKey: string[];
+    foreignKeys: ForeignKeyInfo[];
+    // Foreign keys in other tables pointing at this one
+    referencedBy: ForeignKeyInfo[];
+    uniqueConstraints: UniqueConstraintInfo[];
+    checkConstraints: CheckConstraintInfo[];
+    indexes: IndexInfo[];
 }
 
 export interface TriggerInfo {
     name: string;
+    schema?: string;
     table: string;
     event: string;
     timing: string;
     statement: string;
+    // Complete CREATE TRIGGER statement (PostgreSQL only)
+    definition?: string;
 }
 
 export interface FunctionInfo {
     name: string;
+    schema?: string;
     language: string;
     returnType: string;
     arguments: string;
     definition: string;
-} 
\ No newline at end of file
+} 
+export interface ConnectionSummary {
+    name: string;
+    type: DatabaseType;
+    active: boolean;
+    readOnly: boolean;
+    inTransaction: boolean;
+}
+
+export interface PoolStats {
+    total: number;
+    idle: number;
+    waiting: number;
+    max: number;
+}
+
+export interface HealthStatus {
+    ok: boolean;
+    checkedAt: string;
+    latencyMs: number;
+    error?: string;
+}
+
+export interface ConnectionStatus extends ConnectionSummary {
+    pool: PoolStats | null;
+    health: HealthStatus | null;
+}
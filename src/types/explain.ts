@@ -0,0 +1,62 @@
+import { SqlDialect } from './sql.js';
+
+/**
+ * Engine-neutral plan node. Costs are in the engine's own planner units and
+ * only comparable within one plan.
+ */
+export interface PlanNode {
+    // Preorder position in the plan, referenced by findings
+    id: number;
+    operation: string;
+    relation?: string;
+    alias?: string;
+    index?: string;
+    // Filter, index or join condition as printed by the engine
+    condition?: string;
+    // Rows per loop expected by the planner (Postgres) or examined per scan (MySQL)
+    estimatedRows?: number;
+    // EXPLAIN ANALYZE only: rows per loop and number of loops
+    actualRows?: number;
+    loops?: number;
+    // Cost of the node including its children, when the engine reports one
+    totalCost?: number;
+    // Cost attributed to the node alone
+    selfCost?: number;
+    // EXPLAIN ANALYZE only: wall time across all loops, with and without children
+    actualTimeMs?: number;
+    selfTimeMs?: number;
+    // Remaining engine-specific fields
+    details: Record<string, unknown>;
+    children: PlanNode[];
+}
+
+export type PlanFindingKind = 'seq-scan' | 'missing-index' | 'estimate-mismatch' | 'expensive-node';
+
+export interface PlanFinding {
+    kind: PlanFindingKind;
+    node: number;
+    operation: string;
+    relation?: string;
+    message: string;
+}
+
+export interface ExpensiveNode {
+    node: number;
+    operation: string;
+    relation?: string;
+    selfCost?: number;
+    selfTimeMs?: number;
+    // Share of the whole plan, by time when analyzed and by cost otherwise
+    share: number;
+}
+
+export interface QueryPlan {
+    dialect: SqlDialect;
+    analyzed: boolean;
+    totalCost?: number;
+    planningTimeMs?: number;
+    executionTimeMs?: number;
+    findings: PlanFinding[];
+    expensiveNodes: ExpensiveNode[];
+    plan: PlanNode;
+}
@@ -0,0 +1,50 @@
+import { MaskedColumn } from './masking.js';
+
+// What to do when an exported row collides with an existing key on replay
+export type ConflictMode = 'error' | 'ignore' | 'update';
+
+export interface InsertOptions {
+    // Rows per INSERT statement
+    batchSize: number;
+    onConflict: ConflictMode;
+}
+
+export interface TableRows {
+    schema: string;
+    name: string;
+    // Insertable columns, in table order; generated columns are left out
+    columns: string[];
+    primaryKey: string[];
+    // Postgres identity columns need OVERRIDING SYSTEM VALUE to accept exported values
+    identity: boolean;
+    rows: Record<string, unknown>[];
+    masked?: MaskedColumn[];
+}
+
+export interface ExportFileResult {
+    path: string;
+    format: ExportFormat;
+    rowCount: number;
+    // Only set for SQL exports
+    statementCount?: number;
+    bytes: number;
+    masked?: MaskedColumn[];
+}
+
+export type ExportFormat = 'sql' | 'csv' | 'jsonl' | 'markdown';
+
+// Formats that render rows rather than statements, usable for any query result
+export type TabularFormat = Exclude<ExportFormat, 'sql'>;
+
+export interface CsvOptions {
+    header: boolean;
+    delimiter: string;
+    // 'minimal' quotes only fields that need it
+    quote: 'minimal' | 'all';
+}
+
+export interface ExportOptions {
+    format?: ExportFormat;
+    insert?: Partial<InsertOptions>;
+    csv?: Partial<CsvOptions>;
+}
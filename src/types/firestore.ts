@@ -0,0 +1,65 @@
+import { WhereFilterOp } from '@google-cloud/firestore';
+import { ImportFailure } from './import.js';
+import { MaskedColumn } from './masking.js';
+
+export interface FirestoreFilter {
+    // Dotted field path, or "__name__" for the document ID
+    field: string;
+    op: WhereFilterOp;
+    value?: unknown;
+}
+
+export interface FirestoreOrder {
+    field: string;
+    direction?: 'asc' | 'desc';
+}
+
+export interface FirestoreQuery {
+    // Collection path, or a collection ID when collectionGroup is set
+    collection: string;
+    collectionGroup?: boolean;
+    where?: FirestoreFilter[];
+    orderBy?: FirestoreOrder[];
+    limit?: number;
+    // Path of the document to resume after, as returned in nextStartAfter
+    startAfter?: string;
+    select?: string[];
+}
+
+export interface DocumentInfo {
+    id: string;
+    path: string;
+    createTime: string | null;
+    updateTime: string | null;
+    data: Record<string, unknown>;
+    // Only on single documents; query results report masking for the whole page
+    masked?: MaskedColumn[];
+}
+
+export interface CollectionInfo {
+    id: string;
+    path: string;
+}
+
+export interface DocumentQueryResult {
+    documents: DocumentInfo[];
+    // Pass back as startAfter to fetch the next page; null when there is nothing more
+    nextStartAfter: string | null;
+    masked?: MaskedColumn[];
+}
+
+// One line of a collection export: the document path relative to the exported collection and its tagged data
+export interface DocumentLine {
+    path: string;
+    data: Record<string, unknown>;
+}
+
+export interface CollectionImportReport {
+    collection: string;
+    documentsRead: number;
+    written: number;
+    failed: number;
+    aborted: boolean;
+    // Capped; see failed for the total
+    failures: ImportFailure[];
+}
@@ -0,0 +1,57 @@
+import { CsvOptions } from './export.js';
+
+export type ImportFormat = 'csv' | 'jsonl';
+
+// 'abort' rolls back the failing batch and stops; 'skip' commits the rows that succeeded
+export type ImportErrorMode = 'abort' | 'skip';
+
+export interface ImportOptions {
+    path: string;
+    table: string;
+    schema?: string;
+    // Inferred from the file extension when omitted
+    format?: ImportFormat;
+    csv?: Partial<CsvOptions>;
+    // Column names for CSV records; required when the file has no header row, and replace the header otherwise
+    columns?: string[];
+    // File column -> table column, for names that do not match
+    columnMap?: Record<string, string>;
+    batchSize?: number;
+    onError?: ImportErrorMode;
+    // CSV text read as NULL
+    nullValue?: string;
+    // Firestore field used as the document ID; documents get generated IDs otherwise
+    idField?: string;
+}
+
+export interface BatchFailure {
+    // Position of the row within the batch
+    index: number;
+    error: string;
+}
+
+export interface BatchResult {
+    inserted: number;
+    failures: BatchFailure[];
+}
+
+export interface ImportFailure {
+    // 1-based record number in the file, not counting the CSV header
+    record: number;
+    error: string;
+}
+
+export interface ImportReport {
+    table: string;
+    format: ImportFormat;
+    // File column -> table column
+    mapping: Record<string, string>;
+    // File columns with no matching insertable column
+    ignoredColumns: string[];
+    rowsRead: number;
+    inserted: number;
+    failed: number;
+    aborted: boolean;
+    // Capped; see failed for the total
+    failures: ImportFailure[];
+}
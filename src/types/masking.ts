@@ -0,0 +1,63 @@
+import { SqlRelation } from './sql.js';
+
+// hash: stable digest, so equal values still match; partial: keeps a few characters; drop: removes the column
+export type MaskingMode = 'hash' | 'partial' | 'drop';
+
+// Values recognized inside any text, wherever the column name gives nothing away
+export type ValueDetector = 'email' | 'credit-card' | 'phone' | 'ip-address';
+
+/**
+ * Selects columns by table and column name patterns and masks them whole,
+ * or only the detected values in them when `values` is given. Patterns are
+ * case-insensitive globs (* and ?); table patterns with a dot match
+ * "schema.table". A rule without tables or columns applies everywhere.
+ */
+export interface MaskingRule {
+    tables?: string[];
+    columns?: string[];
+    values?: ValueDetector[];
+    mode: MaskingMode;
+}
+
+export interface MaskingPolicy {
+    // The first rule that matches a column decides how it is masked
+    rules: MaskingRule[];
+    // Mixed into hashes so that common values cannot be looked up
+    hashSalt?: string;
+}
+
+export interface MaskedColumn {
+    column: string;
+    mode: MaskingMode;
+    // The patterns of the rule that matched
+    rule: string;
+    // Values masked, or rows the column was dropped from
+    count: number;
+}
+
+/**
+ * A result column as the driver describes it. PostgreSQL names the table
+ * column it was read from by table OID and attribute number, MySQL and
+ * SQLite by name; computed columns have neither.
+ */
+export interface ResultColumn {
+    name: string;
+    tableId?: number;
+    columnId?: number;
+    schema?: string;
+    table?: string;
+    column?: string;
+}
+
+// The table column an output column was read from, or null when it is computed
+export type ColumnSource = { relation: SqlRelation; column: string } | null;
+
+/**
+ * Where the columns of a query result came from, so that masking rules
+ * follow columns through aliases and expressions.
+ */
+export interface ResultSources {
+    columns: Map<string, ColumnSource>;
+    // Names mentioned anywhere in the query, which computed columns may be derived from
+    names: string[];
+}
@@ -0,0 +1,70 @@
+import { MaskedColumn } from './masking.js';
+
+export interface ProfileOptions {
+    // Rows (or documents) the statistics are computed from
+    sampleSize?: number;
+    // Most frequent values reported per column
+    topValues?: number;
+    // Equal-width buckets of the numeric histograms
+    histogramBuckets?: number;
+    // Profile only these columns, in this order
+    columns?: string[];
+}
+
+/**
+ * Decides which statistics a column gets: min/max for ordered kinds, length
+ * stats for strings and binary data, average and histogram for numbers.
+ */
+export type ColumnKind = 'numeric' | 'string' | 'temporal' | 'boolean' | 'binary' | 'other';
+
+export interface ValueFrequency {
+    value: string;
+    count: number;
+}
+
+export interface HistogramBucket {
+    from: number;
+    to: number;
+    count: number;
+}
+
+export interface LengthStats {
+    min: number;
+    avg: number;
+    max: number;
+}
+
+/**
+ * Statistics of one column over the sampled rows. Values are reported as
+ * text, shortened when long.
+ */
+export interface ColumnProfile {
+    name: string;
+    type: string;
+    kind: ColumnKind;
+    nulls: number;
+    nullRatio: number;
+    distinct: number;
+    min?: string | null;
+    max?: string | null;
+    avg?: number | null;
+    length?: LengthStats | null;
+    topValues?: ValueFrequency[];
+    histogram?: HistogramBucket[];
+}
+
+export interface TableProfile {
+    schema?: string;
+    table: string;
+    rowCount: number;
+    // Rows the column statistics were computed from
+    sampleRows: number;
+    // False when the whole table fit in the sample
+    sampled: boolean;
+    columns: ColumnProfile[];
+    // Columns left out to keep the report compact
+    omittedColumns: string[];
+    findings: string[];
+    // Columns changed by the connection's masking policy
+    masked?: MaskedColumn[];
+}
@@ -0,0 +1,34 @@
+import { ExportFormat } from './export.js';
+import { MaskedColumn } from './masking.js';
+
+export interface PageRequest {
+    offset: number;
+    limit: number;
+}
+
+export interface ResultLimits {
+    maxRows: number;
+    maxBytes: number;
+}
+
+export interface PageInfo {
+    rowCount: number;
+    offset: number;
+    truncated: boolean;
+    // Which budget cut the page short, if any
+    truncatedBy: 'rows' | 'bytes' | null;
+    // Pass to !next-page to continue; null when there is nothing more to fetch
+    nextCursor: string | null;
+    // Columns changed by the connection's masking policy; left out when none were
+    masked?: MaskedColumn[];
+}
+
+export interface QueryPage extends PageInfo {
+    rows: any[];
+}
+
+export interface ExportPage extends PageInfo {
+    format: ExportFormat;
+    // SQL statements, or formatted rows preceded by any header lines
+    lines: string[];
+}
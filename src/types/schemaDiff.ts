@@ -0,0 +1,55 @@
+import { SqlDialect } from './sql.js';
+
+export interface ColumnDefinition {
+    type: string;
+    nullable: boolean;
+    default: string | null;
+    // Not compared, but restated by a MySQL MODIFY COLUMN so that it does not drop them
+    autoIncrement?: boolean;
+    generated?: boolean;
+    onUpdate?: string;
+    collation?: string;
+    comment?: string;
+}
+
+export interface ColumnChange {
+    column: string;
+    from: ColumnDefinition;
+    to: ColumnDefinition;
+}
+
+export interface TableChange {
+    table: string;
+    addedColumns: string[];
+    removedColumns: string[];
+    changedColumns: ColumnChange[];
+    // Views are compared by definition rather than column by column
+    definitionChanged: boolean;
+}
+
+export interface ObjectChanges {
+    added: string[];
+    removed: string[];
+    changed: string[];
+}
+
+/**
+ * Differences that turn the "from" schema into the "to" schema.
+ */
+export interface SchemaDiff {
+    from: string;
+    to: string;
+    dialect: SqlDialect;
+    identical: boolean;
+    tables: {
+        added: string[];
+        removed: string[];
+        changed: TableChange[];
+    };
+    triggers: ObjectChanges;
+    functions: ObjectChanges;
+    // Statements to run against "from" so it matches "to"
+    migration: string;
+    // Changes the migration cannot make safely or completely
+    warnings: string[];
+}
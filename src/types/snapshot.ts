@@ -0,0 +1,27 @@
+import { FunctionInfo, TableDetails, TriggerInfo } from './database.js';
+import { SqlDialect } from './sql.js';
+
+export interface SnapshotTable extends TableDetails {
+    // CREATE statement as returned by exportTableSchema
+    ddl: string;
+}
+
+export interface SnapshotSchema {
+    name: string;
+    tables: SnapshotTable[];
+    triggers: TriggerInfo[];
+    functions: FunctionInfo[];
+}
+
+/**
+ * Introspection output of a SQL database at one point in time, as stored in
+ * a snapshot file.
+ */
+export interface SchemaSnapshot {
+    // Format version, raised when the layout changes incompatibly
+    version: number;
+    dialect: SqlDialect;
+    capturedAt: string;
+    defaultSchema: string;
+    schemas: SnapshotSchema[];
+}
@@ -0,0 +1,32 @@
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite';
+
+// read: SELECT/EXPLAIN/SHOW and friends, dml: data changes, ddl: schema changes,
+// other: transaction control, session settings and anything unrecognised
+export type StatementKind = 'read' | 'dml' | 'ddl' | 'other';
+
+export interface StatementClassification {
+    statement: string;
+    keyword: string;
+    kind: StatementKind;
+}
+
+export interface QueryClassification {
+    statements: StatementClassification[];
+    readOnly: boolean;
+}
+
+export type QueryParamValue = string | number | boolean | null;
+
+// Positional values for $1/? placeholders or named values for :name placeholders
+export type QueryParams = QueryParamValue[] | Record<string, QueryParamValue>;
+
+export interface BoundQuery {
+    sql: string;
+    values: QueryParamValue[];
+}
+
+// A table or view named in a statement; schema is only set when the name was qualified
+export interface SqlRelation {
+    schema?: string;
+    name: string;
+}
@@ -0,0 +1,33 @@
+export interface TransactionOptions {
+    // Roll back on commit and report what the statements would have changed
+    dryRun?: boolean;
+    // Rolled back automatically after this long without a statement
+    idleTimeoutMillis?: number;
+}
+
+export interface StatementEffect {
+    statement: string;
+    command: string;
+    // null when the driver does not report a count
+    affectedRows: number | null;
+}
+
+export interface TransactionStatus {
+    dryRun: boolean;
+    startedAt: string;
+    idleTimeoutMillis: number;
+    // Open savepoints, oldest first
+    savepoints: string[];
+    // Writes still in effect, after rollbacks to savepoints
+    statements: StatementEffect[];
+}
+
+export interface TransactionReport {
+    outcome: 'committed' | 'rolled back';
+    // Why a transaction was rolled back without an explicit !rollback; 'aborted' means a statement failed
+    reason?: 'dry run' | 'idle timeout' | 'disconnect' | 'aborted';
+    dryRun: boolean;
+    statements: StatementEffect[];
+    affectedRows: number;
+    durationMillis: number;
+}
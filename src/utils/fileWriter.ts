@@ -0,0 +1,48 @@
+import { createWriteStream, WriteStream } from 'node:fs';
+
+/**
+ * Line-oriented file output that waits for each chunk to be flushed, so
+ * callers reading in chunks never buffer more than one chunk in memory.
+ * A stream error, such as a missing directory, is kept and rejects the
+ * pending write and every later call, including close().
+ */
+export class FileWriter {
+    private stream: WriteStream;
+    private error: Error | undefined;
+
+    constructor(readonly path: string) {
+        this.stream = createWriteStream(path);
+        this.stream.on('error', error => {
+            this.error ??= error;
+        });
+    }
+
+    get bytes(): number {
+        return this.stream.bytesWritten;
+    }
+
+    async writeLines(lines: string[]): Promise<void> {
+        if (this.error) throw this.error;
+        if (lines.length === 0) return;
+        await this.settle(done => this.stream.write(`${lines.join('\n')}\n`, done));
+    }
+
+    async close(): Promise<void> {
+        if (this.error) throw this.error;
+        // end() passes an open or flush error to its callback
+        await this.settle(done => this.stream.end(done as () => void));
+    }
+
+    // Resolves when the stream calls back, or rejects on the first stream error
+    private settle(start: (done: (error?: Error | null) => void) => void): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            const onError = (error: Error) => reject(error);
+            this.stream.once('error', onError);
+            start(error => {
+                this.stream.off('error', onError);
+                if (error) reject(error);
+                else resolve();
+            });
+        });
+    }
+}
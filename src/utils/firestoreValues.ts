@@ -0,0 +1,80 @@
+import { DocumentReference, Firestore, GeoPoint, Timestamp } from '@google-cloud/firestore';
+
+/**
+ * Firestore values that have no JSON equivalent are written as single-key
+ * objects tagged with a `$` name, so that they survive a round trip:
+ *
+ *   { "$timestamp": "2024-05-01T12:00:00.123456789Z" }
+ *   { "$geopoint": { "latitude": 41.01, "longitude": 28.97 } }
+ *   { "$ref": "users/alice" }
+ *   { "$bytes": "AP8=" }
+ */
+
+/**
+ * ISO 8601 text with the timestamp's full nanosecond precision.
+ */
+export function timestampToIso(timestamp: Timestamp): string {
+    const seconds = new Date(timestamp.seconds * 1000).toISOString().slice(0, 19);
+    const fraction = String(timestamp.nanoseconds).padStart(9, '0').replace(/0+$/, '');
+    return `${seconds}${fraction ? `.${fraction}` : ''}Z`;
+}
+
+export function isoToTimestamp(text: string): Timestamp {
+    const match = /^(.*?)(?:\.(\d{1,9}))?(Z|[+-]\d{2}:?\d{2})$/.exec(text);
+    const millis = Date.parse(match ? `${match[1]}${match[3]}` : text);
+    if (Number.isNaN(millis)) {
+        throw new Error(`Invalid timestamp: ${text}`);
+    }
+    const nanoseconds = match?.[2] ? Number(match[2].padEnd(9, '0')) : 0;
+    return new Timestamp(Math.floor(millis / 1000), nanoseconds);
+}
+
+export function encodeFirestoreValue(value: unknown): unknown {
+    if (value instanceof Timestamp) return { $timestamp: timestampToIso(value) };
+    if (value instanceof GeoPoint) return { $geopoint: { latitude: value.latitude, longitude: value.longitude } };
+    if (value instanceof DocumentReference) return { $ref: value.path };
+    if (value instanceof Uint8Array) return { $bytes: Buffer.from(value).toString('base64') };
+    if (Array.isArray(value)) return value.map(encodeFirestoreValue);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encodeFirestoreValue(item)]));
+    }
+    return value;
+}
+
+export function decodeFirestoreValue(value: unknown, db: Firestore): unknown {
+    if (Array.isArray(value)) return value.map(item => decodeFirestoreValue(item, db));
+    if (!value || typeof value !== 'object') return value;
+
+    const entries = Object.entries(value);
+    if (entries.length === 1) {
+        const [tag, payload] = entries[0];
+        switch (tag) {
+            case '$timestamp':
+                return isoToTimestamp(String(payload));
+            case '$geopoint': {
+                const point = payload as { latitude: number; longitude: number };
+                return new GeoPoint(point.latitude, point.longitude);
+            }
+            case '$ref':
+                return db.doc(String(payload));
+            case '$bytes':
+                return Buffer.from(String(payload), 'base64');
+        }
+    }
+    return Object.fromEntries(entries.map(([key, item]) => [key, decodeFirestoreValue(item, db)]));
+}
+
+/**
+ * Type name used by schema inference.
+ */
+export function firestoreTypeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (value instanceof Timestamp) return 'timestamp';
+    if (value instanceof GeoPoint) return 'geopoint';
+    if (value instanceof DocumentReference) return 'reference';
+    if (value instanceof Uint8Array) return 'bytes';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'double';
+    if (typeof value === 'object') return 'map';
+    return typeof value;
+}
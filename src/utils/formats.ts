@@ -0,0 +1,167 @@
+import { CsvOptions, TabularFormat } from '../types/export.js';
+
+export interface RowFormatter {
+    // Lines written before the first row
+    header(): string[];
+    row(row: Record<string, unknown>): string;
+}
+
+const DEFAULT_CSV_OPTIONS: CsvOptions = {
+    header: true,
+    delimiter: ',',
+    quote: 'minimal',
+};
+
+/**
+ * Converts driver values that JSON.stringify would mangle: big integers
+ * become strings and binary data base64.
+ */
+function jsonReplacer(_key: string, value: unknown): unknown {
+    if (typeof value === 'bigint') return value.toString();
+    if (value && typeof value === 'object' && (value as any).type === 'Buffer' && Array.isArray((value as any).data)) {
+        return Buffer.from((value as any).data).toString('base64');
+    }
+    return value;
+}
+
+export function toJson(value: unknown): string {
+    return JSON.stringify(value, jsonReplacer);
+}
+
+// Plain-text rendering of a single cell for CSV and Markdown
+function cellText(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+    if (typeof value === 'object') return toJson(value);
+    return String(value);
+}
+
+function csvFormatter(columns: string[], overrides: Partial<CsvOptions> = {}): RowFormatter {
+    const options = { ...DEFAULT_CSV_OPTIONS, ...overrides };
+    if (options.delimiter.length !== 1 || /["\r\n]/.test(options.delimiter)) {
+        throw new Error('CSV delimiter must be a single character other than a quote or newline');
+    }
+
+    const field = (text: string) => {
+        const needsQuotes = options.quote === 'all'
+            || text.includes(options.delimiter)
+            || /["\r\n]/.test(text)
+            || text !== text.trim();
+        return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return {
+        header: () => (options.header ? [columns.map(field).join(options.delimiter)] : []),
+        row: row => columns.map(column => field(cellText(row[column]))).join(options.delimiter),
+    };
+}
+
+function markdownFormatter(columns: string[]): RowFormatter {
+    const cell = (text: string) => text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+    return {
+        header: () => [
+            `| ${columns.map(cell).join(' | ')} |`,
+            `| ${columns.map(() => '---').join(' | ')} |`,
+        ],
+        row: row => `| ${columns.map(column => cell(cellText(row[column]))).join(' | ')} |`,
+    };
+}
+
+function jsonLinesFormatter(columns: string[]): RowFormatter {
+    return {
+        header: () => [],
+        row: row => toJson(Object.fromEntries(columns.map(column => [column, row[column] ?? null]))),
+    };
+}
+
+export function createRowFormatter(format: TabularFormat, columns: string[], csv?: Partial<CsvOptions>): RowFormatter {
+    switch (format) {
+        case 'csv':
+            return csvFormatter(columns, csv);
+        case 'markdown':
+            return markdownFormatter(columns);
+        case 'jsonl':
+            return jsonLinesFormatter(columns);
+    }
+}
+
+/**
+ * Incremental RFC 4180 parser: feed it chunks of text and it returns the
+ * records completed so far, so files never have to be read whole. Quoted
+ * fields may contain delimiters, doubled quotes and newlines.
+ */
+export class CsvParser {
+    private field = '';
+    private record: string[] = [];
+    // 'closing' means a quote was seen inside a quoted field; the next character decides
+    private state: 'start' | 'unquoted' | 'quoted' | 'closing' = 'start';
+    private skipLineFeed = false;
+
+    constructor(private delimiter = ',') {
+        if (delimiter.length !== 1 || /["\r\n]/.test(delimiter)) {
+            throw new Error('CSV delimiter must be a single character other than a quote or newline');
+        }
+    }
+
+    push(chunk: string): string[][] {
+        const records: string[][] = [];
+
+        for (const char of chunk) {
+            if (this.skipLineFeed) {
+                this.skipLineFeed = false;
+                if (char === '\n') continue;
+            }
+
+            if (this.state === 'quoted') {
+                if (char === '"') this.state = 'closing';
+                else this.field += char;
+                continue;
+            }
+            if (this.state === 'closing' && char === '"') {
+                this.field += '"';
+                this.state = 'quoted';
+                continue;
+            }
+
+            if (char === this.delimiter) {
+                this.endField();
+            } else if (char === '\n' || char === '\r') {
+                this.endField();
+                // Blank lines carry no record
+                if (this.record.length > 1 || this.record[0] !== '') records.push(this.record);
+                this.record = [];
+                this.skipLineFeed = char === '\r';
+            } else if (this.state === 'closing') {
+                throw new Error(`Unexpected character after closing quote: ${JSON.stringify(char)}`);
+            } else if (char === '"' && this.state === 'start') {
+                this.state = 'quoted';
+            } else {
+                this.field += char;
+                this.state = 'unquoted';
+            }
+        }
+
+        return records;
+    }
+
+    end(): string[][] {
+        if (this.state === 'quoted') {
+            throw new Error('Unterminated quoted field at end of file');
+        }
+        if (this.state === 'start' && this.record.length === 0) {
+            return [];
+        }
+        this.endField();
+        const record = this.record;
+        this.record = [];
+        return [record];
+    }
+
+    private endField(): void {
+        this.record.push(this.field);
+        this.field = '';
+        this.state = 'start';
+    }
+}
@@ -0,0 +1,8 @@
+/**
+ * Compiles a case-insensitive glob where * matches any run of characters
+ * and ? a single one.
+ */
+export function globPattern(glob: string): RegExp {
+    const source = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,24 @@
+/**
+ * Orders nodes so that every node comes after the nodes it depends on.
+ * Dependencies outside the node set are ignored. Nodes caught in a cycle
+ * cannot be ordered and are appended in their original order.
+ */
+export function topologicalSort<T>(nodes: T[], dependenciesOf: (node: T) => T[]): T[] {
+    const pending = new Set(nodes);
+    const ordered: T[] = [];
+
+    let progressed = true;
+    while (pending.size > 0 && progressed) {
+        progressed = false;
+        for (const node of pending) {
+            const blocked = dependenciesOf(node).some(dependency => dependency !== node && pending.has(dependency));
+            if (!blocked) {
+                ordered.push(node);
+                pending.delete(node);
+                progressed = true;
+            }
+        }
+    }
+
+    return [...ordered, ...pending];
+}
@@ -0,0 +1,55 @@
+export const REDACTED = '[REDACTED]';
+
+// Argument names whose values are never written to the audit log
+const SECRET_KEY = /pass(word|wd|phrase)?|secret|token|api[-_]?key|private[-_]?key|credential|authorization/i;
+
+const SQL_STRING = `'(?:[^']|'')*'|"(?:[^"]|"")*"`;
+// Password clauses of CREATE/ALTER USER and ROLE: PASSWORD '...', IDENTIFIED BY '...' and SET PASSWORD = '...'
+const SQL_PASSWORD = new RegExp(`\\b(PASSWORD\\s*(?:=\\s*)?|IDENTIFIED\\s+(?:WITH\\s+\\w+\\s+)?BY\\s+)(?:${SQL_STRING})`, 'gi');
+// user:password@ in connection strings
+const URL_CREDENTIALS = /\b([a-z][a-z0-9+.-]*:\/\/[^:/?#\s@]+:)[^@/\s]+@/gi;
+
+/**
+ * Masks passwords in connection strings and in SQL password clauses.
+ */
+export function redactText(text: string): string {
+    return text
+        .replace(URL_CREDENTIALS, `$1${REDACTED}@`)
+        .replace(SQL_PASSWORD, `$1'${REDACTED}'`);
+}
+
+/**
+ * Copies a value with every field named like a secret masked and every
+ * string passed through redactText.
+ */
+export function redactValue(value: unknown): unknown {
+    if (typeof value === 'string') {
+        return redactText(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(redactValue);
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+            [key, SECRET_KEY.test(key) && field !== null && field !== undefined ? REDACTED : redactValue(field)]));
+    }
+    return value;
+}
+
+export function containsRedaction(value: unknown): boolean {
+    return JSON.stringify(value ?? null).includes(REDACTED);
+}
+
+// A password clause bound to a placeholder instead of a literal
+const SQL_PASSWORD_PLACEHOLDER = /\b(PASSWORD\s*(?:=\s*)?|IDENTIFIED\s+(?:WITH\s+\w+\s+)?BY\s+)(\$\d+|\?|:\w+)/i;
+
+/**
+ * Redacts a statement and its bind values. Values bound to a password
+ * clause cannot be told apart by position, so all of them are masked.
+ */
+export function redactQuery(statement: string, params?: unknown): { statement: string; params?: unknown } {
+    if (params !== undefined && SQL_PASSWORD_PLACEHOLDER.test(statement)) {
+        return { statement: redactText(statement), params: REDACTED };
+    }
+    return { statement: redactText(statement), params: redactValue(params) };
+}
@@ -0,0 +1,732 @@
+import {
+    SqlDialect,
+    StatementKind,
+    StatementClassification,
+    QueryClassification,
+    QueryParams,
+    QueryParamValue,
+    BoundQuery,
+    SqlRelation,
+} from '../types/sql.js';
+import { PageRequest } from '../types/results.js';
+
+export type SqlTokenType = 'word' | 'quoted' | 'string' | 'number' | 'placeholder' | 'symbol' | 'semicolon';
+
+export interface SqlToken {
+    type: SqlTokenType;
+    // Unquoted/unescaped value for quoted identifiers and strings, raw text otherwise
+    value: string;
+    start: number;
+    end: number;
+}
+
+const READ_KEYWORDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE', 'SHOW', 'DESCRIBE', 'DESC', 'EXPLAIN']);
+const DML_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'REPLACE', 'UPSERT', 'COPY', 'CALL', 'DO', 'LOAD', 'HANDLER', 'LOCK']);
+const DDL_KEYWORDS = new Set(['CREATE', 'ALTER', 'DROP', 'TRUNCATE', 'RENAME', 'COMMENT', 'GRANT', 'REVOKE', 'REINDEX', 'CLUSTER', 'REFRESH', 'IMPORT', 'SECURITY']);
+// Keywords that turn an otherwise read-only statement into a write
+const WRITE_MARKERS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE', 'INTO']);
+// Statements that can be wrapped in a LIMIT/OFFSET subquery
+const PAGEABLE_KEYWORDS = new Set(['SELECT', 'WITH', 'VALUES', 'TABLE']);
+
+function isWordStart(char: string): boolean {
+    return /[A-Za-z_\u0080-\uffff]/.test(char);
+}
+
+function isWordPart(char: string): boolean {
+    return /[A-Za-z0-9_$\u0080-\uffff]/.test(char);
+}
+
+/**
+ * Splits SQL text into tokens, dropping whitespace and comments. String literals,
+ * quoted identifiers and dollar-quoted bodies are kept as single tokens so that
+ * keywords inside them are never mistaken for SQL.
+ */
+export function tokenizeSql(sql: string, dialect: SqlDialect): SqlToken[] {
+    const tokens: SqlToken[] = [];
+    let i = 0;
+
+    const readQuoted = (quote: string, backslashEscapes: boolean): string => {
+        let value = '';
+        i++;
+        while (i < sql.length) {
+            const char = sql[i];
+            if (backslashEscapes && char === '\\' && i + 1 < sql.length) {
+                value += sql[i + 1];
+                i += 2;
+                continue;
+            }
+            if (char === quote) {
+                if (sql[i + 1] === quote) {
+                    value += quote;
+                    i += 2;
+                    continue;
+                }
+                i++;
+                return value;
+            }
+            value += char;
+            i++;
+        }
+        throw new Error(`Unterminated ${quote} quote in SQL`);
+    };
+
+    while (i < sql.length) {
+        const char = sql[i];
+        const next = sql[i + 1];
+        const start = i;
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        // Line comments
+        if ((char === '-' && next === '-') || (dialect === 'mysql' && char === '#')) {
+            while (i < sql.length && sql[i] !== '\n') i++;
+            continue;
+        }
+
+        // Block comments; MySQL executes the body of /*! ... */ so it is lexed as SQL
+        if (char === '/' && next === '*') {
+            if (dialect === 'mysql' && sql[i + 2] === '!') {
+                i += 3;
+                while (/[0-9]/.test(sql[i] ?? '')) i++;
+                continue;
+            }
+            let depth = 0;
+            while (i < sql.length) {
+                if (sql[i] === '/' && sql[i + 1] === '*') {
+                    depth++;
+                    i += 2;
+                } else if (sql[i] === '*' && sql[i + 1] === '/') {
+                    depth--;
+                    i += 2;
+                    // Only Postgres nests block comments
+                    if (depth === 0 || dialect !== 'postgres') break;
+                } else {
+                    i++;
+                }
+            }
+            if (depth > 0 && dialect === 'postgres') {
+                throw new Error('Unterminated block comment in SQL');
+            }
+            continue;
+        }
+        if (dialect === 'mysql' && char === '*' && next === '/') {
+            // End of a /*! ... */ executable comment
+            i += 2;
+            continue;
+        }
+
+        if (char === ';') {
+            tokens.push({ type: 'semicolon', value: ';', start, end: ++i });
+            continue;
+        }
+
+        if (char === "'") {
+            const escapeString = dialect === 'mysql' || (dialect === 'postgres' && /^[eE]$/.test(sql[i - 1] ?? ''));
+            const value = readQuoted("'", escapeString);
+            tokens.push({ type: 'string', value, start, end: i });
+            continue;
+        }
+
+        if (char === '"') {
+            const value = readQuoted('"', dialect === 'mysql');
+            tokens.push({ type: dialect === 'mysql' ? 'string' : 'quoted', value, start, end: i });
+            continue;
+        }
+
+        if (char === '`' && dialect !== 'postgres') {
+            const value = readQuoted('`', false);
+            tokens.push({ type: 'quoted', value, start, end: i });
+            continue;
+        }
+
+        if (char === '[' && dialect === 'sqlite') {
+            const close = sql.indexOf(']', i + 1);
+            if (close === -1) {
+                throw new Error('Unterminated [ quote in SQL');
+            }
+            const value = sql.slice(i + 1, close);
+            i = close + 1;
+            tokens.push({ type: 'quoted', value, start, end: i });
+            continue;
+        }
+
+        if (char === '$' && dialect === 'postgres') {
+            const positional = /^\$(\d+)/.exec(sql.slice(i));
+            if (positional) {
+                i += positional[0].length;
+                tokens.push({ type: 'placeholder', value: positional[0], start, end: i });
+                continue;
+            }
+            const tag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+            if (tag) {
+                const close = sql.indexOf(tag[0], i + tag[0].length);
+                if (close === -1) {
+                    throw new Error('Unterminated dollar-quoted string in SQL');
+                }
+                const value = sql.slice(i + tag[0].length, close);
+                i = close + tag[0].length;
+                tokens.push({ type: 'string', value, start, end: i });
+                continue;
+            }
+        }
+
+        if (char === '?' && dialect !== 'postgres') {
+            // ?? is MySQL's identifier placeholder
+            i += next === '?' && dialect === 'mysql' ? 2 : 1;
+            tokens.push({ type: 'placeholder', value: sql.slice(start, i), start, end: i });
+            continue;
+        }
+
+        // Named placeholders (:name), leaving Postgres casts (::type) alone
+        if (char === ':' && sql[i - 1] !== ':' && next !== undefined && isWordStart(next)) {
+            i++;
+            while (i < sql.length && isWordPart(sql[i])) i++;
+            tokens.push({ type: 'placeholder', value: sql.slice(start, i), start, end: i });
+            continue;
+        }
+
+        if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(next ?? ''))) {
+            while (i < sql.length && /[0-9A-Za-z_.]/.test(sql[i])) i++;
+            tokens.push({ type: 'number', value: sql.slice(start, i), start, end: i });
+            continue;
+        }
+
+        if (isWordStart(char)) {
+            while (i < sql.length && isWordPart(sql[i])) i++;
+            tokens.push({ type: 'word', value: sql.slice(start, i), start, end: i });
+            continue;
+        }
+
+        tokens.push({ type: 'symbol', value: char, start, end: ++i });
+    }
+
+    return tokens;
+}
+
+// Routines whose BEGIN ... END bodies contain their own semicolons
+const COMPOUND_KEYWORDS = new Set(['TRIGGER', 'PROCEDURE', 'FUNCTION', 'EVENT']);
+// Block endings (END IF, END LOOP, ...) whose openers are not counted
+const UNCOUNTED_BLOCKS = new Set(['IF', 'LOOP', 'WHILE', 'REPEAT']);
+
+/**
+ * Groups tokens into statements separated by semicolons, skipping empty statements.
+ * Semicolons inside the BEGIN ... END body of a CREATE TRIGGER/PROCEDURE do not split.
+ */
+export function splitStatements(tokens: SqlToken[]): SqlToken[][] {
+    const statements: SqlToken[][] = [];
+    let current: SqlToken[] = [];
+    let compound = false;
+    let depth = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+
+        if (token.type === 'semicolon' && depth === 0) {
+            if (current.length > 0) statements.push(current);
+            current = [];
+            compound = false;
+            continue;
+        }
+        current.push(token);
+
+        if (token.type !== 'word') continue;
+        const keyword = token.value.toUpperCase();
+
+        if (current.length > 1 && COMPOUND_KEYWORDS.has(keyword) && current[0].value.toUpperCase() === 'CREATE') {
+            compound = true;
+        } else if (compound && (keyword === 'BEGIN' || keyword === 'CASE')) {
+            depth++;
+        } else if (compound && keyword === 'END' && depth > 0) {
+            const following = tokens[i + 1]?.type === 'word' ? tokens[i + 1].value.toUpperCase() : '';
+            if (UNCOUNTED_BLOCKS.has(following) || following === 'CASE') {
+                current.push(tokens[++i]);
+            }
+            if (!UNCOUNTED_BLOCKS.has(following)) {
+                depth--;
+            }
+        }
+    }
+    if (current.length > 0) statements.push(current);
+
+    return statements;
+}
+
+function keywordsOf(tokens: SqlToken[]): string[] {
+    return tokens.filter(token => token.type === 'word').map(token => token.value.toUpperCase());
+}
+
+function classifyKeywords(keywords: string[]): StatementKind {
+    const [first] = keywords;
+
+    if (first === 'EXPLAIN') {
+        // Plain EXPLAIN only plans the statement, EXPLAIN ANALYZE also runs it
+        const analyzes = keywords.includes('ANALYZE') || keywords.includes('ANALYSE');
+        if (!analyzes) return 'read';
+        const inner = keywords.findIndex((keyword, index) =>
+            index > 0 && (READ_KEYWORDS.has(keyword) || DML_KEYWORDS.has(keyword) || DDL_KEYWORDS.has(keyword)));
+        return inner === -1 ? 'read' : classifyKeywords(keywords.slice(inner));
+    }
+
+    if (first === 'SHOW' || first === 'DESCRIBE' || first === 'DESC') {
+        return 'read';
+    }
+
+    if (READ_KEYWORDS.has(first)) {
+        // Catches data-modifying CTEs, SELECT ... INTO and locking reads (FOR UPDATE)
+        if (keywords.some(keyword => WRITE_MARKERS.has(keyword))) {
+            return keywords.includes('INSERT') || keywords.includes('UPDATE') || keywords.includes('DELETE') || keywords.includes('MERGE')
+                ? 'dml'
+                : 'ddl';
+        }
+        return 'read';
+    }
+
+    if (DML_KEYWORDS.has(first)) return 'dml';
+    if (DDL_KEYWORDS.has(first)) return 'ddl';
+    return 'other';
+}
+
+/**
+ * Classifies every statement in a (possibly multi-statement) SQL batch.
+ * Function calls with side effects cannot be detected lexically, which is why
+ * read-only execution also runs inside a read-only transaction.
+ */
+export function classifySql(sql: string, dialect: SqlDialect): QueryClassification {
+    const statements: StatementClassification[] = splitStatements(tokenizeSql(sql, dialect)).map(tokens => {
+        const keywords = keywordsOf(tokens);
+        return {
+            statement: sql.slice(tokens[0].start, tokens[tokens.length - 1].end),
+            keyword: keywords[0] ?? '',
+            kind: keywords.length > 0 ? classifyKeywords(keywords) : 'other',
+        };
+    });
+
+    return {
+        statements,
+        readOnly: statements.every(statement => statement.kind === 'read'),
+    };
+}
+
+// Keywords followed by a relation name
+const RELATION_KEYWORDS = new Set(['FROM', 'JOIN', 'USING', 'INTO', 'UPDATE', 'TABLE', 'TRUNCATE', 'REFERENCES', 'COPY']);
+// Keywords that start a list of relations, continued after commas
+const FROM_LIST_KEYWORDS = new Set(['FROM', 'UPDATE', 'TRUNCATE']);
+// Relation keywords after which a parenthesis groups joined relations; after USING it lists join columns
+const JOIN_TREE_KEYWORDS = new Set(['FROM', 'JOIN']);
+// Words allowed between a relation keyword and the name
+const RELATION_MODIFIERS = new Set(['ONLY', 'LATERAL', 'IF', 'NOT', 'EXISTS', 'LOW_PRIORITY', 'IGNORE', 'TABLE']);
+// Keywords that open a statement or subquery; FROM elsewhere belongs to EXTRACT(... FROM ...) and the like
+const QUERY_KEYWORDS = new Set(['SELECT', 'DELETE', 'UPDATE', 'INSERT', 'REPLACE', 'MERGE', 'WITH', 'TABLE', 'SHOW', 'COPY', 'CREATE', 'ALTER', 'DROP', 'TRUNCATE']);
+// Clauses that end a list of relations
+const FROM_LIST_END_KEYWORDS = new Set([
+    'WHERE', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'UNION', 'INTERSECT', 'EXCEPT', 'SET', 'WINDOW', 'RETURNING', 'FOR', 'FETCH',
+    'SELECT', 'VALUES',
+]);
+// Words after a relation keyword that are not a relation name
+const NOT_RELATION_NAMES = new Set(['SELECT', 'WITH', 'VALUES', 'OUTFILE', 'DUMPFILE']);
+// Words after a relation that continue the statement instead of naming an alias
+const NOT_ALIAS_WORDS = new Set([
+    'AS', 'ON', 'USING', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS', 'NATURAL', 'STRAIGHT_JOIN', 'LATERAL',
+    'WHERE', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'UNION', 'INTERSECT', 'EXCEPT', 'WINDOW', 'RETURNING', 'FOR', 'FETCH',
+    'SET', 'VALUES', 'SELECT', 'DEFAULT', 'TO', 'FROM', 'WITH', 'INTO', 'WHEN', 'DO', 'OVERRIDING', 'TABLESAMPLE', 'PARTITION',
+    'USE', 'FORCE', 'IGNORE', 'INDEXED', 'NOT', 'CASCADE', 'RESTRICT', 'RESTART', 'CONTINUE', 'MATCH', 'DEFERRABLE', 'INITIALLY',
+]);
+// Statements whose relations can be found lexically; anything else may reach tables in ways that cannot be seen
+const RESOLVABLE_KEYWORDS = new Set([
+    'SELECT', 'WITH', 'VALUES', 'TABLE', 'INSERT', 'UPDATE', 'DELETE', 'REPLACE', 'MERGE', 'COPY', 'TRUNCATE',
+    'BEGIN', 'START', 'COMMIT', 'END', 'ROLLBACK', 'SAVEPOINT', 'RELEASE',
+]);
+
+function isNameToken(token: SqlToken | undefined): token is SqlToken {
+    return token !== undefined && (token.type === 'word' || token.type === 'quoted');
+}
+
+function isSymbol(token: SqlToken | undefined, symbol: string): boolean {
+    return token !== undefined && token.type === 'symbol' && token.value === symbol;
+}
+
+interface RelationScan {
+    relations: SqlRelation[];
+    // Lowercased names and aliases the relations go by in the batch
+    references: Set<string>;
+    // Indexes of the tokens that name a relation or define an alias
+    declarations: Set<number>;
+}
+
+function scanRelations(tokens: SqlToken[]): RelationScan {
+    const relations = new Map<string, SqlRelation>();
+    const references = new Set<string>();
+    const declarations = new Set<number>();
+    // Per parenthesis depth: whether a statement or subquery keyword was seen, whether a FROM list is open,
+    // whether the parenthesis groups joined relations, whether its WITH is RECURSIVE and the CTE it is the body of
+    const newScope = (): { query: boolean; fromList: boolean; joinTree: boolean; recursive: boolean; cte?: string } =>
+        ({ query: false, fromList: false, joinTree: false, recursive: false });
+    const scopes = [newScope()];
+    const scope = () => scopes[scopes.length - 1];
+    // Parentheses found where a relation was expected
+    const joinTrees = new Set<number>();
+    // Parentheses that open the body of a CTE, by CTE name
+    const cteBodies = new Map<number, string>();
+    // CTEs a name can refer to at the current position, with the depth of the scope that defines them:
+    // visible after their body, to the end of that scope, and inside their body when RECURSIVE
+    let ctes: { name: string; depth: number }[] = [];
+
+    const readAlias = (start: number): number => {
+        let index = start;
+        if (tokens[index]?.type === 'word' && tokens[index].value.toUpperCase() === 'AS') index++;
+        const alias = tokens[index];
+        if (!isNameToken(alias) || (alias.type === 'word' && NOT_ALIAS_WORDS.has(alias.value.toUpperCase()))) {
+            return start;
+        }
+        references.add(alias.value.toLowerCase());
+        declarations.add(index);
+        return index + 1;
+    };
+
+    const readRelation = (start: number, allowFunction: boolean, allowJoinTree: boolean): number => {
+        let index = start;
+        while (tokens[index]?.type === 'word' && RELATION_MODIFIERS.has(tokens[index].value.toUpperCase())) index++;
+        if (allowJoinTree && isSymbol(tokens[index], '(')) {
+            joinTrees.add(index);
+            return index;
+        }
+        if (!isNameToken(tokens[index]) || (tokens[index].type === 'word' && NOT_RELATION_NAMES.has(tokens[index].value.toUpperCase()))) {
+            return index;
+        }
+
+        const parts = [tokens[index].value];
+        declarations.add(index);
+        while (isSymbol(tokens[index + 1], '.') && isNameToken(tokens[index + 2])) {
+            parts.push(tokens[index + 2].value);
+            index += 2;
+            declarations.add(index);
+        }
+        index++;
+        // Table functions such as generate_series(...)
+        if (allowFunction && isSymbol(tokens[index], '(')) {
+            return index;
+        }
+        const relation: SqlRelation = parts.length > 1
+            ? { schema: parts[parts.length - 2], name: parts[parts.length - 1] }
+            : { name: parts[0] };
+        if (relation.schema !== undefined || !ctes.some(cte => cte.name === relation.name.toLowerCase())) {
+            relations.set(`${relation.schema ?? ''}.${relation.name}`.toLowerCase(), relation);
+        }
+        references.add(relation.name.toLowerCase());
+        return readAlias(index);
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.type === 'semicolon') {
+            scopes.splice(0, scopes.length, newScope());
+            ctes = [];
+            continue;
+        }
+        if (isSymbol(token, '(')) {
+            if (joinTrees.has(i)) {
+                // (a JOIN b) or (a): relations again, with their own joins and commas
+                scopes.push({ ...newScope(), query: true, fromList: true, joinTree: true });
+                i = readRelation(i + 1, true, true) - 1;
+            } else {
+                scopes.push({ ...newScope(), cte: cteBodies.get(i) });
+            }
+            continue;
+        }
+        if (isSymbol(token, ')')) {
+            if (scopes.length > 1) {
+                const closed = scopes.pop()!;
+                const depth = scopes.length - 1;
+                ctes = ctes.filter(cte => cte.depth <= depth);
+                if (closed.cte !== undefined && !ctes.some(cte => cte.name === closed.cte && cte.depth === depth)) {
+                    ctes.push({ name: closed.cte, depth });
+                }
+                if (closed.joinTree) {
+                    i = readAlias(i + 1) - 1;
+                }
+            }
+            continue;
+        }
+        if (isSymbol(token, ',') && scope().fromList) {
+            i = readRelation(i + 1, true, true) - 1;
+            continue;
+        }
+        if (isNameToken(token) && tokens[i + 1]?.type === 'word' && tokens[i + 1].value.toUpperCase() === 'AS') {
+            // name AS [NOT] [MATERIALIZED] ( defines a CTE
+            let next = i + 2;
+            while (tokens[next]?.type === 'word' && ['NOT', 'MATERIALIZED'].includes(tokens[next].value.toUpperCase())) next++;
+            if (isSymbol(tokens[next], '(')) {
+                const name = token.value.toLowerCase();
+                cteBodies.set(next, name);
+                declarations.add(i);
+                if (scope().recursive) {
+                    ctes.push({ name, depth: scopes.length - 1 });
+                }
+            }
+        }
+        if (token.type !== 'word') continue;
+
+        const keyword = token.value.toUpperCase();
+        if (keyword === 'WITH' && tokens[i + 1]?.type === 'word' && tokens[i + 1].value.toUpperCase() === 'RECURSIVE') {
+            scope().recursive = true;
+        }
+        if (QUERY_KEYWORDS.has(keyword)) {
+            scope().query = true;
+        }
+        if (FROM_LIST_END_KEYWORDS.has(keyword)) {
+            scope().fromList = false;
+        }
+        if (!RELATION_KEYWORDS.has(keyword)) continue;
+        if (keyword === 'FROM') {
+            // IS [NOT] DISTINCT FROM compares values
+            if (!scope().query || tokens[i - 1]?.value.toUpperCase() === 'DISTINCT') continue;
+        }
+        if (FROM_LIST_KEYWORDS.has(keyword)) {
+            scope().fromList = true;
+        }
+        i = readRelation(i + 1, keyword === 'FROM' || keyword === 'JOIN' || keyword === 'USING', JOIN_TREE_KEYWORDS.has(keyword)) - 1;
+    }
+
+    return {
+        relations: [...relations.values()],
+        references,
+        declarations,
+    };
+}
+
+/**
+ * Lists the tables and views a batch reads or writes, found lexically after
+ * FROM, JOIN, INTO, UPDATE, TABLE, COPY and similar keywords, in
+ * comma-separated FROM lists and in parenthesized joins, including those in
+ * subqueries. Unqualified names that refer to a CTE are left out: after the
+ * CTE's definition within the query that defines it, and inside its own body
+ * only under WITH RECURSIVE. Relations reached only through views,
+ * functions or dynamic SQL cannot be seen; see unresolvableStatement.
+ */
+export function referencedRelations(sql: string, dialect: SqlDialect): SqlRelation[] {
+    return scanRelations(tokenizeSql(sql, dialect)).relations;
+}
+
+/**
+ * Names what keeps referencedRelations from seeing every relation of a
+ * batch: statements other than queries, DML and transaction control,
+ * MySQL identifier placeholders (??) and SQLite pragma functions. Null when
+ * the relations can be found.
+ */
+export function unresolvableStatement(sql: string, dialect: SqlDialect): string | null {
+    const tokens = tokenizeSql(sql, dialect);
+    if (tokens.some(token => token.type === 'placeholder' && token.value === '??')) {
+        return 'identifier placeholders (??)';
+    }
+    const pragma = tokens.find((token, index) => token.type === 'word' && /^pragma_/i.test(token.value) && isSymbol(tokens[index + 1], '('));
+    if (dialect === 'sqlite' && pragma) {
+        return `${pragma.value} calls`;
+    }
+    for (const statement of splitStatements(tokens)) {
+        const [keyword] = keywordsOf(statement);
+        if (keyword !== undefined && !RESOLVABLE_KEYWORDS.has(keyword)) {
+            return `${keyword} statements`;
+        }
+    }
+    return null;
+}
+
+// Words after which * stands for every column rather than a multiplication
+const STAR_PREFIXES = new Set(['SELECT', 'DISTINCT', 'ALL', 'RETURNING']);
+
+/**
+ * Every name in a batch, lowercased, and whether the batch reads whole rows:
+ * with *, alias.*, a TABLE statement, or a table or alias used as a value
+ * (SELECT u FROM users u, row_to_json(u)) or COPY of a whole table. Used to check that a query does
+ * not touch hidden columns; names are not resolved to the tables they
+ * belong to, so a name matching a table is taken as a whole row.
+ */
+export function referencedNames(sql: string, dialect: SqlDialect): { names: Set<string>; selectsAll: boolean } {
+    const tokens = tokenizeSql(sql, dialect);
+    const { references, declarations } = scanRelations(tokens);
+    const names = new Set<string>();
+    let selectsAll = false;
+    tokens.forEach((token, index) => {
+        const previous = tokens[index - 1];
+        if (isNameToken(token)) {
+            const name = token.value.toLowerCase();
+            names.add(name);
+            const startsStatement = !previous || previous.type === 'semicolon' || isSymbol(previous, '(');
+            if (token.type === 'word' && token.value.toUpperCase() === 'TABLE' && startsStatement) selectsAll = true;
+            // COPY table without a column list
+            if (token.type === 'word' && token.value.toUpperCase() === 'COPY' && startsStatement && isNameToken(tokens[index + 1])) {
+                let end = index + 1;
+                while (isSymbol(tokens[end + 1], '.') && isNameToken(tokens[end + 2])) end += 2;
+                if (!isSymbol(tokens[end + 1], '(')) selectsAll = true;
+            }
+            const qualified = isSymbol(previous, '.') || isSymbol(tokens[index + 1], '.');
+            if (references.has(name) && !declarations.has(index) && !qualified) selectsAll = true;
+        } else if (isSymbol(token, '*')) {
+            if (isSymbol(previous, ',') || isSymbol(previous, '.') || (previous?.type === 'word' && STAR_PREFIXES.has(previous.value.toUpperCase()))) {
+                selectsAll = true;
+            }
+        }
+    });
+    return { names, selectsAll };
+}
+
+// Top-level clauses after which LIMIT and OFFSET cannot simply be appended
+const PAGE_CLAUSE_KEYWORDS = new Set(['LIMIT', 'OFFSET', 'FETCH', 'FOR', 'LOCK']);
+
+function pageableStatement(sql: string, dialect: SqlDialect): SqlToken[] | null {
+    const statements = splitStatements(tokenizeSql(sql, dialect));
+    if (statements.length !== 1) return null;
+
+    const tokens = statements[0];
+    const keywords = keywordsOf(tokens);
+    if (!PAGEABLE_KEYWORDS.has(keywords[0]) || classifyKeywords(keywords) !== 'read') {
+        return null;
+    }
+    return tokens;
+}
+
+/**
+ * Whether the SQL is a single read statement that can be fetched page by page.
+ */
+export function isPageableQuery(sql: string, dialect: SqlDialect): boolean {
+    return pageableStatement(sql, dialect) !== null;
+}
+
+/**
+ * Limits a single read statement to the requested page. LIMIT and OFFSET are
+ * appended to the statement itself when it has no top-level LIMIT, OFFSET,
+ * FETCH or locking clause; otherwise it is wrapped in a subquery. MySQL
+ * rejects subqueries with duplicate column names, so there null is returned
+ * and the caller cuts the page out of the full result.
+ */
+export function limitToPage(sql: string, dialect: SqlDialect, page: PageRequest): string | null {
+    const tokens = pageableStatement(sql, dialect);
+    if (tokens === null) {
+        throw new Error('Only single SELECT, WITH, VALUES or TABLE statements can be paginated');
+    }
+    const body = sql.slice(tokens[0].start, tokens[tokens.length - 1].end);
+    const limit = `LIMIT ${Math.trunc(page.limit)} OFFSET ${Math.trunc(page.offset)}`;
+
+    let depth = 0;
+    const limited = tokens.some(token => {
+        if (isSymbol(token, '(')) depth++;
+        else if (isSymbol(token, ')')) depth--;
+        return depth === 0 && token.type === 'word' && PAGE_CLAUSE_KEYWORDS.has(token.value.toUpperCase());
+    });
+    if (!limited) return `${body} ${limit}`;
+    return dialect === 'mysql' ? null : `SELECT * FROM (${body}) AS page ${limit}`;
+}
+
+/**
+ * Throws when the SQL contains anything other than read statements.
+ */
+export function assertReadOnlySql(sql: string, dialect: SqlDialect): void {
+    const classification = classifySql(sql, dialect);
+    const rejected = classification.statements.filter(statement => statement.kind !== 'read');
+
+    if (rejected.length > 0) {
+        const details = rejected
+            .map(statement => `${statement.keyword || 'statement'} (${statement.kind})`)
+            .join(', ');
+        throw new Error(`Connection is read-only; rejected ${details}`);
+    }
+}
+
+function describeValue(value: unknown): string {
+    return value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+}
+
+function assertScalar(value: unknown, label: string): asserts value is QueryParamValue {
+    const kind = describeValue(value);
+    if (!['string', 'number', 'boolean', 'null'].includes(kind)) {
+        throw new Error(`Parameter ${label} must be a string, number, boolean or null, got ${kind}`);
+    }
+}
+
+/**
+ * Validates parameters against the placeholders in the query and rewrites named
+ * placeholders (:name) into the driver's positional form ($n for Postgres, ? for MySQL).
+ */
+export function bindParameters(sql: string, dialect: SqlDialect, params?: QueryParams): BoundQuery {
+    if (params === undefined) {
+        return { sql, values: [] };
+    }
+
+    const placeholders = tokenizeSql(sql, dialect).filter(token => token.type === 'placeholder');
+    const named = placeholders.filter(token => token.value.startsWith(':'));
+    const positional = placeholders.filter(token => !token.value.startsWith(':'));
+
+    if (Array.isArray(params)) {
+        if (named.length > 0) {
+            throw new Error(`Named placeholder ${named[0].value} requires params to be an object`);
+        }
+        params.forEach((value, index) => assertScalar(value, `#${index + 1}`));
+
+        if (dialect === 'postgres') {
+            const highest = positional.reduce((max, token) => Math.max(max, Number(token.value.slice(1))), 0);
+            if (highest > params.length) {
+                throw new Error(`Query references $${highest} but only ${params.length} parameter(s) were provided`);
+            }
+            if (params.length > highest) {
+                throw new Error(`Query uses ${highest} placeholder(s) but ${params.length} parameter(s) were provided`);
+            }
+        } else {
+            if (positional.length !== params.length) {
+                throw new Error(`Query uses ${positional.length} placeholder(s) but ${params.length} parameter(s) were provided`);
+            }
+            positional.forEach((token, index) => {
+                if (token.value === '??' && typeof params[index] !== 'string') {
+                    throw new Error(`Parameter #${index + 1} fills an identifier placeholder (??) and must be a string`);
+                }
+            });
+        }
+
+        return { sql, values: params };
+    }
+
+    if (positional.length > 0) {
+        throw new Error(`Positional placeholder ${positional[0].value} requires params to be an array`);
+    }
+
+    const values: QueryParamValue[] = [];
+    const indexes = new Map<string, number>();
+    let rewritten = '';
+    let cursor = 0;
+
+    for (const token of named) {
+        const name = token.value.slice(1);
+        if (!Object.prototype.hasOwnProperty.call(params, name)) {
+            throw new Error(`Missing value for named parameter :${name}`);
+        }
+        const value = params[name];
+        assertScalar(value, `:${name}`);
+
+        let replacement: string;
+        if (dialect === 'postgres') {
+            // Reuse the same $n for repeated names
+            if (!indexes.has(name)) {
+                values.push(value);
+                indexes.set(name, values.length);
+            }
+            replacement = `$${indexes.get(name)}`;
+        } else {
+            values.push(value);
+            indexes.set(name, values.length);
+            replacement = '?';
+        }
+
+        rewritten += sql.slice(cursor, token.start) + replacement;
+        cursor = token.end;
+    }
+    rewritten += sql.slice(cursor);
+
+    const unused = Object.keys(params).filter(name => !indexes.has(name));
+    if (unused.length > 0) {
+        throw new Error(`Unknown named parameter(s): ${unused.join(', ')}`);
+    }
+
+    return { sql: rewritten, values };
+}
@@ -0,0 +1,140 @@
+import mysql from 'mysql2/promise';
+import { SqlDialect } from '../types/sql.js';
+import { InsertOptions, TableRows } from '../types/export.js';
+
+export function quoteSqlIdentifier(name: string, dialect: SqlDialect): string {
+    if (dialect === 'mysql') {
+        // forbidQualified keeps dots inside the name instead of splitting on them
+        return mysql.escapeId(name, true);
+    }
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+function quoteString(value: string, dialect: SqlDialect): string {
+    if (dialect === 'mysql') {
+        // Backslashes are escape characters in MySQL string literals
+        return mysql.escape(value);
+    }
+    return `'${value.replace(/'/g, "''")}'`;
+}
+
+function isBinary(value: unknown): value is Uint8Array {
+    return value instanceof Uint8Array;
+}
+
+/**
+ * Formats a Postgres array literal ('{...}'), which the server casts to the
+ * column's array type on insert.
+ */
+function postgresArrayLiteral(values: unknown[]): string {
+    const element = (value: unknown): string => {
+        if (value === null || value === undefined) return 'NULL';
+        if (Array.isArray(value)) return `{${value.map(element).join(',')}}`;
+        if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+        if (typeof value === 'boolean') return value ? 't' : 'f';
+
+        let text: string;
+        if (isBinary(value)) text = `\\x${Buffer.from(value).toString('hex')}`;
+        else if (value instanceof Date) text = value.toISOString();
+        else if (typeof value === 'object') text = JSON.stringify(value);
+        else text = String(value);
+        return `"${text.replace(/[\\"]/g, '\\$&')}"`;
+    };
+    return element(values);
+}
+
+/**
+ * Serializes a driver value as a SQL literal for the given dialect.
+ */
+export function sqlLiteral(value: unknown, dialect: SqlDialect): string {
+    if (value === null || value === undefined) {
+        return 'NULL';
+    }
+    if (typeof value === 'boolean') {
+        if (dialect === 'sqlite') return value ? '1' : '0';
+        return value ? 'TRUE' : 'FALSE';
+    }
+    if (typeof value === 'bigint') {
+        return value.toString();
+    }
+    if (typeof value === 'number') {
+        if (Number.isFinite(value)) return String(value);
+        if (dialect === 'postgres') return `'${value}'`;
+        if (dialect === 'sqlite' && !Number.isNaN(value)) return value > 0 ? '9e999' : '-9e999';
+        throw new Error(`${value} cannot be represented in ${dialect}`);
+    }
+    if (typeof value === 'string') {
+        return quoteString(value, dialect);
+    }
+    if (isBinary(value)) {
+        const hex = Buffer.from(value).toString('hex');
+        return dialect === 'postgres' ? `'\\x${hex}'::bytea` : `X'${hex}'`;
+    }
+    if (value instanceof Date) {
+        // mysql2 parses DATETIME in the connection's local time zone, so it is written back the same way
+        return dialect === 'mysql' ? mysql.escape(value) : quoteString(value.toISOString(), dialect);
+    }
+    if (Array.isArray(value) && dialect === 'postgres') {
+        return quoteString(postgresArrayLiteral(value), dialect);
+    }
+    // JSON documents; MySQL and SQLite have no array type so arrays land here too
+    return quoteString(JSON.stringify(value), dialect);
+}
+
+function conflictClause(data: TableRows, options: InsertOptions, dialect: SqlDialect): string {
+    if (options.onConflict === 'error') return '';
+    if (options.onConflict === 'ignore') return dialect === 'postgres' ? ' ON CONFLICT DO NOTHING' : '';
+
+    if (data.primaryKey.length === 0) {
+        throw new Error(`Table "${data.schema}.${data.name}" has no primary key to upsert on`);
+    }
+    const quote = (name: string) => quoteSqlIdentifier(name, dialect);
+    const updated = data.columns.filter(column => !data.primaryKey.includes(column));
+
+    if (dialect === 'mysql') {
+        // A no-op assignment keeps key-only tables idempotent
+        const assignments = updated.length > 0
+            ? updated.map(column => `${quote(column)} = VALUES(${quote(column)})`)
+            : [`${quote(data.primaryKey[0])} = ${quote(data.primaryKey[0])}`];
+        return ` ON DUPLICATE KEY UPDATE ${assignments.join(', ')}`;
+    }
+
+    const target = `(${data.primaryKey.map(quote).join(', ')})`;
+    if (updated.length === 0) {
+        return ` ON CONFLICT ${target} DO NOTHING`;
+    }
+    const excluded = dialect === 'postgres' ? 'EXCLUDED' : 'excluded';
+    return ` ON CONFLICT ${target} DO UPDATE SET ${updated.map(column => `${quote(column)} = ${excluded}.${quote(column)}`).join(', ')}`;
+}
+
+/**
+ * Renders rows as INSERT statements of up to `batchSize` rows each.
+ */
+export function buildInsertStatements(data: TableRows, options: InsertOptions, dialect: SqlDialect): string[] {
+    if (data.rows.length === 0) {
+        return [];
+    }
+
+    const quote = (name: string) => quoteSqlIdentifier(name, dialect);
+    const table = `${quote(data.schema)}.${quote(data.name)}`;
+
+    let verb = 'INSERT INTO';
+    if (options.onConflict === 'ignore' && dialect === 'mysql') verb = 'INSERT IGNORE INTO';
+    if (options.onConflict === 'ignore' && dialect === 'sqlite') verb = 'INSERT OR IGNORE INTO';
+
+    const overriding = dialect === 'postgres' && data.identity ? ' OVERRIDING SYSTEM VALUE' : '';
+    const prefix = `${verb} ${table} (${data.columns.map(quote).join(', ')})${overriding} VALUES`;
+    const suffix = conflictClause(data, options, dialect);
+
+    const tuples = data.rows.map(row => `(${data.columns.map(column => sqlLiteral(row[column], dialect)).join(', ')})`);
+    const batchSize = Math.max(1, Math.trunc(options.batchSize));
+
+    const statements: string[] = [];
+    for (let i = 0; i < tuples.length; i += batchSize) {
+        const batch = tuples.slice(i, i + batchSize);
+        statements.push(batch.length === 1
+            ? `${prefix} ${batch[0]}${suffix};`
+            : `${prefix}\n    ${batch.join(',\n    ')}${suffix};`);
+    }
+    return statements;
+}
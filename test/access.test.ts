@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { AccessControl } from '../src/services/access.js';
+import { TableDetails } from '../src/types/database.js';
+
+describe('AccessControl', () => {
+    it('allows everything without rules', () => {
+        const access = new AccessControl({});
+        expect(access.allowsSchema('any')).toBe(true);
+        expect(access.allowsTable({ schema: 'public', name: 'users' })).toBe(true);
+        expect(access.restrictsColumns).toBe(false);
+        expect(access.coversSchema(undefined)).toBe(true);
+    });
+
+    it('matches patterns by the number of dots they contain', () => {
+        const access = new AccessControl({ deny: { tables: ['audit_*', 'reporting.raw'], columns: ['ssn', 'users.token', 'public.users.salt'] } });
+        expect(access.allowsTable({ schema: 'public', name: 'AUDIT_log' })).toBe(false);
+        expect(access.allowsTable({ schema: 'reporting', name: 'raw' })).toBe(false);
+        expect(access.allowsTable({ schema: 'public', name: 'raw' })).toBe(true);
+        // Qualified patterns need the qualifier to be known
+        expect(access.allowsTable({ name: 'raw' })).toBe(true);
+
+        expect(access.allowsColumn({ schema: 'public', name: 'orders' }, 'ssn')).toBe(false);
+        expect(access.allowsColumn({ schema: 'public', name: 'users' }, 'token')).toBe(false);
+        expect(access.allowsColumn({ schema: 'public', name: 'orders' }, 'token')).toBe(true);
+        expect(access.allowsColumn({ schema: 'public', name: 'users' }, 'salt')).toBe(false);
+        expect(access.allowsColumn({ schema: 'other', name: 'users' }, 'salt')).toBe(true);
+    });
+
+    it('applies deny after allow', () => {
+        const access = new AccessControl({ allow: { schemas: ['app'], tables: ['users', 'orders'] }, deny: { tables: ['orders'] } });
+        expect(access.allowsTable({ schema: 'app', name: 'users' })).toBe(true);
+        expect(access.allowsTable({ schema: 'app', name: 'orders' })).toBe(false);
+        expect(access.allowsTable({ schema: 'app', name: 'items' })).toBe(false);
+        expect(access.allowsTable({ schema: 'other', name: 'users' })).toBe(false);
+        // Firestore collections have no schema
+        expect(access.allowsTable({ name: 'users' })).toBe(true);
+    });
+
+    it('raises Access denied errors', () => {
+        const access = new AccessControl({ deny: { schemas: ['secret'], tables: ['keys'], columns: ['ssn'] } });
+        expect(() => access.assertSchema('secret')).toThrow('Access denied: schema "secret" is not allowed on this connection');
+        expect(() => access.assertTable({ schema: 'app', name: 'keys' })).toThrow('Access denied: table "app.keys"');
+        expect(() => access.assertTable({ schema: 'secret', name: 'x' })).toThrow('schema "secret"');
+        expect(() => access.assertColumn({ name: 'users' }, 'ssn')).toThrow('column "users.ssn"');
+        expect(() => access.assertTable({ schema: 'app', name: 'users' })).not.toThrow();
+    });
+
+    it('only covers schemas with nothing hidden', () => {
+        expect(new AccessControl({ deny: { schemas: ['secret'] } }).coversSchema('app')).toBe(true);
+        expect(new AccessControl({ deny: { schemas: ['secret'] } }).coversSchema(undefined)).toBe(false);
+        expect(new AccessControl({ deny: { tables: ['x'] } }).coversSchema('app')).toBe(false);
+        expect(new AccessControl({ deny: { columns: ['x'] } }).coversSchema('app')).toBe(false);
+    });
+
+    it('checks Firestore fields by dotted path', () => {
+        const denied = new AccessControl({ deny: { columns: ['address', 'users.ssn'] } });
+        expect(denied.allowsField('users', ['address', 'street'])).toBe(false);
+        expect(denied.allowsField('users', ['ssn'])).toBe(false);
+        expect(denied.allowsField('orders', ['ssn'])).toBe(true);
+        expect(denied.allowsField('users', ['name'])).toBe(true);
+
+        const allowed = new AccessControl({ allow: { columns: ['name', 'profile.public.*'] } });
+        expect(allowed.allowsField('users', ['name'])).toBe(true);
+        expect(allowed.allowsField('users', ['profile', 'public', 'bio'])).toBe(true);
+        expect(allowed.allowsField('users', ['profile', 'email'])).toBe(false);
+        expect(allowed.allowsField('users', ['profile'])).toBe(false);
+    });
+
+    it('filters table listings and details', () => {
+        const access = new AccessControl({ deny: { tables: ['secrets'], columns: ['ssn'] } });
+        expect(access.filterTables([
+            { schema: 'app', name: 'users', columns: [{ name: 'id', type: 'int', nullable: false }, { name: 'ssn', type: 'text', nullable: true }] },
+            { schema: 'app', name: 'secrets', columns: [] },
+        ])).toEqual([{ schema: 'app', name: 'users', columns: [{ name: 'id', type: 'int', nullable: false }] }]);
+
+        const details: TableDetails = {
+            schema: 'app',
+            name: 'users',
+            comment: null,
+            columns: [{ name: 'id', type: 'int', nullable: false }, { name: 'ssn', type: 'text', nullable: true }],
+            primaryKey: ['id'],
+            foreignKeys: [{
+                name: 'fk', schema: 'app', table: 'users', columns: ['id'],
+                referencedSchema: 'app', referencedTable: 'secrets', referencedColumns: ['id'], onUpdate: 'NO ACTION', onDelete: 'NO ACTION',
+            }],
+            referencedBy: [],
+            uniqueConstraints: [{ name: 'ssn_key', columns: ['ssn'] }],
+            checkConstraints: [{ name: 'ssn_check', expression: 'length(ssn) = 9' }, { name: 'id_check', expression: 'id > 0' }],
+            indexes: [{ name: 'users_pkey', columns: ['id'], unique: true, primary: true, method: 'btree', definition: null }],
+        };
+        const filtered = access.filterDetails(details);
+        expect(filtered.columns.map(column => column.name)).toEqual(['id']);
+        expect(filtered.foreignKeys).toEqual([]);
+        expect(filtered.uniqueConstraints).toEqual([]);
+        expect(filtered.checkConstraints.map(constraint => constraint.name)).toEqual(['id_check']);
+        expect(filtered.indexes.map(index => index.name)).toEqual(['users_pkey']);
+    });
+});
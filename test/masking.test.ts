@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { DataMasker, mergeMaskedColumns } from '../src/services/masking.js';
+import { ResultSources } from '../src/types/masking.js';
+import { TableProfile } from '../src/types/profile.js';
+
+const users = [{ schema: 'public', name: 'users' }];
+
+describe('DataMasker', () => {
+    it('masks whole columns by name', () => {
+        const masker = new DataMasker({ rules: [{ columns: ['email'], mode: 'partial' }, { columns: ['*_token'], mode: 'drop' }] });
+        const { rows, masked } = masker.maskRows([{ id: 1, email: 'alice@example.com', api_token: 'x' }, { id: 2, email: null, api_token: 'y' }], users);
+        expect(rows).toEqual([{ id: 1, email: 'a***@example.com' }, { id: 2, email: null }]);
+        expect(masked).toEqual([
+            { column: 'email', mode: 'partial', rule: 'columns: email', count: 1 },
+            { column: 'api_token', mode: 'drop', rule: 'columns: *_token', count: 2 },
+        ]);
+    });
+
+    it('hashes with the salt, so equal values stay equal', () => {
+        const salted = new DataMasker({ rules: [{ columns: ['ssn'], mode: 'hash' }], hashSalt: 'pepper' });
+        const unsalted = new DataMasker({ rules: [{ columns: ['ssn'], mode: 'hash' }] });
+        const [a, b] = salted.maskRows([{ ssn: '123' }, { ssn: '123' }], users).rows;
+        expect(a.ssn).toMatch(/^sha256:[0-9a-f]{16}$/);
+        expect(a.ssn).toBe(b.ssn);
+        expect(unsalted.maskRows([{ ssn: '123' }], users).rows[0].ssn).not.toBe(a.ssn);
+    });
+
+    it('applies table-scoped rules only to matching relations', () => {
+        const masker = new DataMasker({ rules: [{ tables: ['public.users'], columns: ['name'], mode: 'drop' }] });
+        expect(masker.maskRows([{ name: 'Alice' }], users).rows).toEqual([{}]);
+        expect(masker.maskRows([{ name: 'Widget' }], [{ schema: 'public', name: 'products' }]).rows).toEqual([{ name: 'Widget' }]);
+        expect(masker.droppedColumns(['id', 'name'], users)).toEqual(['name']);
+    });
+
+    it('masks detected values inside text and nested objects', () => {
+        const masker = new DataMasker({ rules: [{ values: ['email', 'credit-card'], mode: 'drop' }] });
+        const { rows, masked } = masker.maskRows([{
+            note: 'mail bob@example.org, card 4111 1111 1111 1111, order 1234 5678 9012 3456',
+            profile: { contact: { email: 'carol@example.net' } },
+        }], users);
+        expect(rows[0].note).toBe('mail [REDACTED], card [REDACTED], order 1234 5678 9012 3456');
+        expect(rows[0].profile).toEqual({ contact: { email: '[REDACTED]' } });
+        expect(masked.map(entry => [entry.column, entry.count])).toEqual([['note', 2], ['profile', 1]]);
+    });
+
+    it('selects nested fields by dotted path', () => {
+        const masker = new DataMasker({ rules: [{ columns: ['address.street'], mode: 'drop' }] });
+        expect(masker.maskRows([{ address: { street: 'Main', city: 'Oslo' } }], []).rows).toEqual([{ address: { city: 'Oslo' } }]);
+    });
+
+    // Regression cases for masking bypasses through aliases and expressions
+    it('follows renamed and computed columns to their source', () => {
+        const masker = new DataMasker({ rules: [{ tables: ['users'], columns: ['email'], mode: 'partial' }] });
+        const sources: ResultSources = {
+            columns: new Map([
+                ['e', { relation: users[0], column: 'email' }],
+                ['shout', null],
+                ['id', { relation: users[0], column: 'id' }],
+            ]),
+            names: ['select', 'email', 'upper', 'users', 'id'],
+        };
+        const { rows } = masker.maskRows([{ e: 'alice@example.com', shout: 'ALICE@EXAMPLE.COM', id: 1 }], users, sources);
+        expect(rows).toEqual([{ e: 'a***@example.com', shout: 'A***@EXAMPLE.COM', id: 1 }]);
+    });
+
+    it('leaves computed columns alone when the query mentions no masked column', () => {
+        const masker = new DataMasker({ rules: [{ tables: ['users'], columns: ['email'], mode: 'drop' }] });
+        const sources: ResultSources = { columns: new Map([['n', null]]), names: ['select', 'count', 'users'] };
+        expect(masker.maskRows([{ n: 3 }], users, sources).rows).toEqual([{ n: 3 }]);
+    });
+
+    it('masks profile statistics', () => {
+        const masker = new DataMasker({ rules: [{ columns: ['email'], mode: 'partial' }, { columns: ['ssn'], mode: 'drop' }] });
+        const profile = {
+            schema: 'public',
+            table: 'users',
+            rowCount: 2,
+            sampleRows: 2,
+            sampled: false,
+            columns: [
+                { name: 'email', type: 'text', nullCount: 0, distinctCount: 2, min: 'alice@example.com', max: 'bob@example.com', avg: 15 },
+                { name: 'ssn', type: 'text', nullCount: 0, distinctCount: 2 },
+            ],
+            findings: ['ssn: every value is distinct', 'email: every value is distinct'],
+        } as unknown as TableProfile;
+        const result = masker.maskProfile(profile);
+        expect(result.columns.map(column => column.name)).toEqual(['email']);
+        expect(result.columns[0].min).toBe('a***@example.com');
+        expect(result.columns[0].avg).toBeUndefined();
+        expect(result.findings).toEqual(['email: every value is distinct']);
+    });
+});
+
+describe('mergeMaskedColumns', () => {
+    it('sums counts of the same column and rule', () => {
+        expect(mergeMaskedColumns([
+            [{ column: 'email', mode: 'hash', rule: 'columns: email', count: 2 }],
+            [{ column: 'email', mode: 'hash', rule: 'columns: email', count: 3 }, { column: 'ssn', mode: 'drop', rule: 'all columns', count: 1 }],
+        ])).toEqual([
+            { column: 'email', mode: 'hash', rule: 'columns: email', count: 5 },
+            { column: 'ssn', mode: 'drop', rule: 'all columns', count: 1 },
+        ]);
+    });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import {
+    bindParameters,
+    classifySql,
+    isPageableQuery,
+    limitToPage,
+    referencedNames,
+    referencedRelations,
+    splitStatements,
+    tokenizeSql,
+    unresolvableStatement,
+} from '../src/utils/sql.js';
+
+const words = (sql: string, dialect: 'postgres' | 'mysql' | 'sqlite' = 'postgres') =>
+    tokenizeSql(sql, dialect).map(token => `${token.type}:${token.value}`);
+
+describe('tokenizeSql', () => {
+    it('drops whitespace and comments', () => {
+        expect(words('SELECT 1 -- trailing\n/* block */ FROM t')).toEqual(['word:SELECT', 'number:1', 'word:FROM', 'word:t']);
+    });
+
+    it('keeps string literals and quoted identifiers whole', () => {
+        expect(words(`SELECT 'it''s; DROP', "My Col" FROM t`)).toEqual([
+            'word:SELECT', "string:it's; DROP", 'symbol:,', 'quoted:My Col', 'word:FROM', 'word:t',
+        ]);
+    });
+
+    it('reads dollar-quoted bodies and positional placeholders on PostgreSQL', () => {
+        expect(words('SELECT $tag$ ; DELETE $tag$, $1')).toEqual(['word:SELECT', 'string: ; DELETE ', 'symbol:,', 'placeholder:$1']);
+    });
+
+    it('nests block comments only on PostgreSQL', () => {
+        expect(words('/* a /* b */ c */ SELECT 1')).toEqual(['word:SELECT', 'number:1']);
+        expect(words('/* a /* b */ SELECT 1', 'sqlite')).toEqual(['word:SELECT', 'number:1']);
+    });
+
+    it('lexes the body of MySQL executable comments', () => {
+        expect(words('SELECT 1 /*!50000 ; DROP TABLE t */', 'mysql')).toEqual([
+            'word:SELECT', 'number:1', 'semicolon:;', 'word:DROP', 'word:TABLE', 'word:t',
+        ]);
+    });
+
+    it('treats backquotes, brackets and ?? by dialect', () => {
+        expect(words('SELECT `a` FROM ??', 'mysql')).toEqual(['word:SELECT', 'quoted:a', 'word:FROM', 'placeholder:??']);
+        expect(words('SELECT [a b] FROM t WHERE x = ?', 'sqlite')).toEqual([
+            'word:SELECT', 'quoted:a b', 'word:FROM', 'word:t', 'word:WHERE', 'word:x', 'symbol:=', 'placeholder:?',
+        ]);
+    });
+
+    it('leaves PostgreSQL casts alone', () => {
+        expect(words('SELECT :id::int')).toEqual(['word:SELECT', 'placeholder::id', 'symbol::', 'symbol::', 'word:int']);
+    });
+
+    it('rejects unterminated literals', () => {
+        expect(() => tokenizeSql("SELECT 'open", 'postgres')).toThrow('Unterminated');
+        expect(() => tokenizeSql('SELECT $$ body', 'postgres')).toThrow('Unterminated dollar-quoted string');
+    });
+});
+
+describe('splitStatements', () => {
+    it('splits on top-level semicolons', () => {
+        expect(splitStatements(tokenizeSql('SELECT 1; SELECT 2;;', 'postgres'))).toHaveLength(2);
+    });
+
+    it('keeps compound MySQL bodies together', () => {
+        const sql = 'CREATE TRIGGER t BEFORE INSERT ON x FOR EACH ROW BEGIN SET NEW.a = 1; IF 1 THEN SET NEW.b = 2; END IF; END; SELECT 1';
+        expect(splitStatements(tokenizeSql(sql, 'mysql'))).toHaveLength(2);
+    });
+});
+
+describe('classifySql', () => {
+    const kinds = (sql: string, dialect: 'postgres' | 'mysql' | 'sqlite' = 'postgres') =>
+        classifySql(sql, dialect).statements.map(statement => statement.kind);
+
+    it('recognizes reads', () => {
+        expect(classifySql('SELECT 1; SHOW tables; EXPLAIN SELECT 1', 'mysql').readOnly).toBe(true);
+        expect(kinds('WITH x AS (SELECT 1) SELECT * FROM x')).toEqual(['read']);
+    });
+
+    it('recognizes writes, schema changes and other statements', () => {
+        expect(kinds('UPDATE t SET a = 1; DROP TABLE t; BEGIN')).toEqual(['dml', 'ddl', 'other']);
+        expect(classifySql('SELECT 1; DELETE FROM t', 'postgres').readOnly).toBe(false);
+    });
+
+    it('flags CTEs that write', () => {
+        expect(kinds('WITH gone AS (DELETE FROM t RETURNING *) SELECT * FROM gone')).toEqual(['dml']);
+    });
+
+    it('is not fooled by keywords inside strings and comments', () => {
+        expect(kinds("SELECT 'DELETE FROM t' -- DROP TABLE t")).toEqual(['read']);
+    });
+
+    it('sees writes hidden in MySQL executable comments', () => {
+        expect(classifySql('SELECT 1 /*! ; DELETE FROM t */', 'mysql').readOnly).toBe(false);
+    });
+});
+
+describe('bindParameters', () => {
+    it('passes positional values through', () => {
+        expect(bindParameters('SELECT $1, $2', 'postgres', [1, 'a'])).toEqual({ sql: 'SELECT $1, $2', values: [1, 'a'] });
+        expect(bindParameters('SELECT ?', 'sqlite', [null])).toEqual({ sql: 'SELECT ?', values: [null] });
+    });
+
+    it('rewrites named parameters, reusing numbers on PostgreSQL', () => {
+        expect(bindParameters('SELECT :a, :b, :a', 'postgres', { a: 1, b: 2 })).toEqual({ sql: 'SELECT $1, $2, $1', values: [1, 2] });
+        expect(bindParameters('SELECT :a, :a', 'mysql', { a: 1 })).toEqual({ sql: 'SELECT ?, ?', values: [1, 1] });
+    });
+
+    it('ignores placeholders inside strings', () => {
+        expect(bindParameters("SELECT ':a', ?", 'sqlite', [1]).values).toEqual([1]);
+    });
+
+    it('checks the number and shape of values', () => {
+        expect(() => bindParameters('SELECT $2', 'postgres', [1])).toThrow('references $2');
+        expect(() => bindParameters('SELECT ?', 'mysql', [1, 2])).toThrow('1 placeholder(s) but 2');
+        expect(() => bindParameters('SELECT :a', 'postgres', { b: 1 })).toThrow('Missing value for named parameter :a');
+        expect(() => bindParameters('SELECT :a', 'postgres', { a: 1, b: 2 })).toThrow('Unknown named parameter(s): b');
+        expect(() => bindParameters('SELECT ?', 'sqlite', { a: 1 })).toThrow('requires params to be an array');
+        expect(() => bindParameters('SELECT ??', 'mysql', [1])).toThrow('identifier placeholder');
+    });
+});
+
+describe('referencedRelations', () => {
+    const names = (sql: string, dialect: 'postgres' | 'mysql' | 'sqlite' = 'postgres') =>
+        referencedRelations(sql, dialect).map(relation => (relation.schema ? `${relation.schema}.${relation.name}` : relation.name)).sort();
+
+    it('finds tables after FROM, JOIN, INTO and UPDATE', () => {
+        expect(names('SELECT * FROM a JOIN s.b ON true; INSERT INTO c SELECT 1; UPDATE d SET x = 1')).toEqual(['a', 'c', 'd', 's.b']);
+    });
+
+    it('follows comma lists and leaves out CTE names', () => {
+        expect(names('WITH x AS (SELECT * FROM a) SELECT * FROM x, b AS bb, "C"')).toEqual(['C', 'a', 'b']);
+    });
+
+    // Regression cases for access policy bypasses
+    it('only leaves out names where a CTE is in scope', () => {
+        expect(names('WITH secret AS (SELECT * FROM secret) SELECT * FROM secret')).toEqual(['secret']);
+        expect(names('WITH a AS (SELECT * FROM secret), secret AS (SELECT 1) SELECT * FROM a')).toEqual(['secret']);
+        expect(names('SELECT * FROM (WITH s AS (SELECT 1) SELECT * FROM s) x, s')).toEqual(['s']);
+        expect(names('WITH RECURSIVE t AS (SELECT 1 UNION ALL SELECT n FROM t) SELECT * FROM t')).toEqual([]);
+    });
+
+    it('looks inside parenthesized FROM items', () => {
+        expect(names('SELECT * FROM (secret)')).toEqual(['secret']);
+        expect(names('SELECT * FROM (t1 CROSS JOIN secret)')).toEqual(['secret', 't1']);
+        expect(names('SELECT * FROM t1 JOIN (secret) ON 1=1')).toEqual(['secret', 't1']);
+        expect(names('SELECT * FROM ((a JOIN b ON true) JOIN c ON true)')).toEqual(['a', 'b', 'c']);
+    });
+
+    it('finds the table of COPY and TRUNCATE', () => {
+        expect(names('COPY secret TO STDOUT')).toEqual(['secret']);
+        expect(names('TRUNCATE a, b')).toEqual(['a', 'b']);
+    });
+});
+
+describe('referencedNames', () => {
+    const selectsAll = (sql: string) => referencedNames(sql, 'postgres').selectsAll;
+
+    it('collects lower-cased names', () => {
+        expect([...referencedNames('SELECT "Email", u.id FROM users u', 'postgres').names]).toEqual(
+            expect.arrayContaining(['email', 'u', 'id', 'users']));
+    });
+
+    it('detects star and TABLE reads', () => {
+        expect(selectsAll('SELECT * FROM users')).toBe(true);
+        expect(selectsAll('SELECT u.* FROM users u')).toBe(true);
+        expect(selectsAll('TABLE users')).toBe(true);
+        expect(selectsAll('SELECT count(*) FROM users')).toBe(false);
+        expect(selectsAll('SELECT id FROM users')).toBe(false);
+    });
+
+    // Regression cases for whole-row references
+    it('treats a table or alias used as a value as a whole-row read', () => {
+        expect(selectsAll('SELECT s FROM users s')).toBe(true);
+        expect(selectsAll('SELECT row_to_json(s) FROM users s')).toBe(true);
+        expect(selectsAll('SELECT to_jsonb(users) FROM users')).toBe(true);
+        expect(selectsAll('SELECT s.id FROM users s')).toBe(false);
+    });
+
+    it('treats COPY without a column list as a whole-row read', () => {
+        expect(selectsAll('COPY secret TO STDOUT')).toBe(true);
+        expect(selectsAll('COPY secret (id) TO STDOUT')).toBe(false);
+    });
+});
+
+describe('unresolvableStatement', () => {
+    it('rejects statements whose tables cannot be checked', () => {
+        expect(unresolvableStatement('SELECT * FROM ??', 'mysql')).toBe('identifier placeholders (??)');
+        expect(unresolvableStatement('SELECT * FROM pragma_table_info(?)', 'sqlite')).toMatch(/pragma_/);
+        expect(unresolvableStatement('CREATE TABLE t (a int)', 'postgres')).toBe('CREATE statements');
+        expect(unresolvableStatement('CALL p()', 'mysql')).toBe('CALL statements');
+    });
+
+    it('accepts queries, DML and transaction control', () => {
+        for (const sql of ['SELECT 1', 'WITH x AS (SELECT 1) SELECT * FROM x', 'DELETE FROM t', 'BEGIN', 'COMMIT']) {
+            expect(unresolvableStatement(sql, 'postgres')).toBeNull();
+        }
+    });
+});
+
+describe('limitToPage', () => {
+    const page = { offset: 20, limit: 10 };
+
+    it('appends LIMIT and OFFSET to statements without their own', () => {
+        expect(limitToPage('SELECT a.id, b.id FROM a JOIN b ON true;', 'mysql', page)).toBe('SELECT a.id, b.id FROM a JOIN b ON true LIMIT 10 OFFSET 20');
+        expect(limitToPage('SELECT * FROM (SELECT 1 LIMIT 1) x', 'postgres', page)).toBe('SELECT * FROM (SELECT 1 LIMIT 1) x LIMIT 10 OFFSET 20');
+    });
+
+    it('wraps statements that have a LIMIT, except on MySQL', () => {
+        expect(limitToPage('SELECT * FROM t LIMIT 100', 'sqlite', page)).toBe('SELECT * FROM (SELECT * FROM t LIMIT 100) AS page LIMIT 10 OFFSET 20');
+        expect(limitToPage('SELECT * FROM t LIMIT 100', 'mysql', page)).toBeNull();
+    });
+
+    it('only pages single reads', () => {
+        expect(isPageableQuery('SELECT 1; SELECT 2', 'postgres')).toBe(false);
+        expect(isPageableQuery('DELETE FROM t RETURNING *', 'postgres')).toBe(false);
+        expect(() => limitToPage('UPDATE t SET a = 1', 'postgres', page)).toThrow('can be paginated');
+    });
+});
@@ -0,0 +1,206 @@
+import Database from 'better-sqlite3';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ConnectionRegistry } from '../src/services/connections.js';
+import { DatabaseService } from '../src/services/database.js';
+import { DataImporter } from '../src/services/importer.js';
+import { ResultPager } from '../src/services/pager.js';
+import { DatabaseConfig } from '../src/types/database.js';
+
+let dir: string;
+let filename: string;
+const services: DatabaseService[] = [];
+
+async function open(options: Partial<DatabaseConfig> = {}): Promise<DatabaseService> {
+    const service = new DatabaseService({ type: 'sqlite', connection: { filename }, ...options } as DatabaseConfig);
+    await service.connect();
+    services.push(service);
+    return service;
+}
+
+beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'db-mcp-test-'));
+    filename = join(dir, 'test.db');
+    const db = new Database(filename);
+    db.exec(`
+        CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, email TEXT, ssn TEXT);
+        CREATE TABLE secret (id INTEGER PRIMARY KEY, value TEXT);
+        INSERT INTO secret (value) VALUES ('hidden');
+    `);
+    const insert = db.prepare('INSERT INTO users (name, email, ssn) VALUES (?, ?, ?)');
+    for (let i = 1; i <= 10; i++) insert.run(`user${i}`, `user${i}@example.com`, `00${i}`);
+    db.close();
+});
+
+afterEach(async () => {
+    await Promise.all(services.splice(0).map(service => service.disconnect()));
+    rmSync(dir, { recursive: true, force: true });
+});
+
+describe('read-only mode', () => {
+    it('runs reads and rejects writes', async () => {
+        const service = await open({ readOnly: true });
+        expect(await service.executeQuery('SELECT count(*) AS n FROM users')).toEqual([{ n: 10 }]);
+        await expect(service.executeQuery("UPDATE users SET name = 'x'")).rejects.toThrow('Connection is read-only; rejected UPDATE (dml)');
+        await expect(service.executeQuery('SELECT 1; DROP TABLE users')).rejects.toThrow('rejected DROP (ddl)');
+        expect(await service.executeQuery('SELECT count(*) AS n FROM users')).toEqual([{ n: 10 }]);
+    });
+});
+
+describe('pagination', () => {
+    it('pages a query with continuation cursors', async () => {
+        const service = await open();
+        const registry = new ConnectionRegistry();
+        await registry.add('test', service);
+        const pager = new ResultPager(registry, { maxRows: 4, maxBytes: 1_000_000 });
+
+        const first = await pager.query(service, 'test', 'SELECT id FROM users ORDER BY id', undefined, pager.limits());
+        expect(first.rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }]);
+        expect(first.truncated).toBe(true);
+
+        const second = await pager.next(first.nextCursor!);
+        expect('rows' in second && second.rows).toEqual([{ id: 5 }, { id: 6 }, { id: 7 }, { id: 8 }]);
+    });
+
+    it('keeps duplicate column names and a LIMIT of the statement', async () => {
+        const service = await open();
+        expect(await service.executeQuery('SELECT id, id FROM users ORDER BY id', undefined, { offset: 2, limit: 2 })).toEqual([{ id: 3 }, { id: 4 }]);
+        expect(await service.executeQuery('SELECT id FROM users ORDER BY id LIMIT 5', undefined, { offset: 3, limit: 10 })).toEqual([{ id: 4 }, { id: 5 }]);
+    });
+});
+
+describe('export and import', () => {
+    it('round-trips a table through a CSV file', async () => {
+        const service = await open();
+        const path = join(dir, 'users.csv');
+        const exported = await service.exportTableDataToFile('users', undefined, path, { format: 'csv' });
+        expect(exported.rowCount).toBe(10);
+        expect(readFileSync(path, 'utf8').split('\n')[0]).toBe('id,name,email,ssn');
+
+        await service.executeQuery('CREATE TABLE users_copy (id INTEGER PRIMARY KEY, name TEXT NOT NULL, email TEXT, ssn TEXT)');
+        const report = await new DataImporter(service).importFile({ path, table: 'users_copy' });
+        expect(report).toMatchObject({ rowsRead: 10, inserted: 10, failed: 0, aborted: false });
+        expect(await service.executeQuery('SELECT * FROM users_copy ORDER BY id')).toEqual(await service.executeQuery('SELECT * FROM users ORDER BY id'));
+    });
+
+    it('reports rows that fail to import', async () => {
+        const service = await open();
+        const path = join(dir, 'bad.jsonl');
+        writeFileSync(path, '{"id": 100, "name": "ok"}\n{"id": 101, "name": null}\n');
+        const report = await new DataImporter(service).importFile({ path, table: 'users', onError: 'skip' });
+        expect(report).toMatchObject({ rowsRead: 2, inserted: 1, failed: 1 });
+    });
+
+    it('orders tables without a primary key by every column', async () => {
+        const service = await open();
+        await service.executeQuery("CREATE TABLE events (kind TEXT, n INTEGER); INSERT INTO events VALUES ('b', 1), ('a', 2), ('a', 1)");
+        const path = join(dir, 'events.csv');
+        await service.exportTableDataToFile('events', undefined, path, { format: 'csv' });
+        expect(readFileSync(path, 'utf8').trim().split('\n')).toEqual(['kind,n', 'a,1', 'a,2', 'b,1']);
+    });
+
+    // Regression: a missing directory used to crash the server with an unhandled stream error
+    it('fails an export to a missing directory without crashing', async () => {
+        const service = await open();
+        await expect(service.exportTableDataToFile('users', undefined, join(dir, 'missing', 'users.csv'), { format: 'csv' }))
+            .rejects.toThrow('ENOENT');
+        await expect(service.exportQueryToFile('SELECT 1 WHERE 0', undefined, join(dir, 'missing', 'empty.csv'), 'csv'))
+            .rejects.toThrow('ENOENT');
+    });
+});
+
+describe('transactions', () => {
+    it('commits and rolls back', async () => {
+        const service = await open();
+        await service.beginTransaction();
+        await service.executeQuery("INSERT INTO users (name) VALUES ('kept')");
+        expect(await service.commitTransaction()).toMatchObject({ outcome: 'committed', affectedRows: 1 });
+
+        await service.beginTransaction();
+        await service.executeQuery("DELETE FROM users WHERE name = 'kept'");
+        expect(await service.rollbackTransaction()).toMatchObject({ outcome: 'rolled back' });
+        expect(await service.executeQuery("SELECT count(*) AS n FROM users WHERE name = 'kept'")).toEqual([{ n: 1 }]);
+    });
+
+    it('rolls back to a savepoint', async () => {
+        const service = await open();
+        await service.beginTransaction();
+        await service.executeQuery("INSERT INTO users (name) VALUES ('before')");
+        await service.setSavepoint('s1');
+        await service.executeQuery("INSERT INTO users (name) VALUES ('after')");
+        const status = await service.rollbackToSavepoint('s1');
+        expect(status.statements).toHaveLength(1);
+        await service.commitTransaction();
+        expect(await service.executeQuery("SELECT name FROM users WHERE name IN ('before', 'after')")).toEqual([{ name: 'before' }]);
+    });
+
+    it('rolls a dry run back on commit', async () => {
+        const service = await open();
+        await service.beginTransaction({ dryRun: true });
+        await service.executeQuery('DELETE FROM users');
+        expect(await service.commitTransaction()).toMatchObject({ outcome: 'rolled back', reason: 'dry run', affectedRows: 10 });
+        expect(await service.executeQuery('SELECT count(*) AS n FROM users')).toEqual([{ n: 10 }]);
+    });
+
+    it('rejects transaction control statements inside a dry run', async () => {
+        const service = await open();
+        await service.beginTransaction({ dryRun: true });
+        await service.executeQuery("INSERT INTO users (name) VALUES ('dry')");
+        await expect(service.executeQuery('COMMIT')).rejects.toThrow('COMMIT cannot run inside an open transaction');
+        await expect(service.executeQuery('SELECT 1; END')).rejects.toThrow('END cannot run');
+        expect(await service.commitTransaction()).toMatchObject({ outcome: 'rolled back', reason: 'dry run' });
+        expect(await service.executeQuery("SELECT count(*) AS n FROM users WHERE name = 'dry'")).toEqual([{ n: 0 }]);
+    });
+
+    it('refuses a second transaction', async () => {
+        const service = await open();
+        await service.beginTransaction();
+        await expect(service.beginTransaction()).rejects.toThrow('already open');
+        await service.rollbackTransaction();
+    });
+});
+
+describe('access policies', () => {
+    const policy = { deny: { tables: ['secret'], columns: ['users.ssn'] } };
+
+    it('rejects queries that reach hidden tables or columns', async () => {
+        const service = await open({ access: policy });
+        for (const query of [
+            'SELECT * FROM secret',
+            'SELECT * FROM (secret)',
+            'SELECT * FROM (users CROSS JOIN secret)',
+            'SELECT * FROM users JOIN (secret) ON 1=1',
+            'SELECT ssn FROM users',
+            'SELECT * FROM users',
+            'SELECT u FROM users u',
+            'SELECT json_object(u) FROM users u',
+            'SELECT * FROM pragma_table_info(\'secret\')',
+            'CREATE TABLE copy AS SELECT * FROM secret',
+        ]) {
+            await expect(service.executeQuery(query), query).rejects.toThrow('Access denied');
+        }
+        expect(await service.executeQuery('SELECT name FROM users WHERE id = 1')).toEqual([{ name: 'user1' }]);
+    });
+
+    it('hides tables and columns from listings and exports', async () => {
+        const service = await open({ access: policy });
+        const tables = await service.getTables();
+        expect(tables.map(table => table.name)).toEqual(['users']);
+        expect(tables[0].columns.map(column => column.name)).toEqual(['id', 'name', 'email']);
+
+        const path = join(dir, 'users.jsonl');
+        await service.exportTableDataToFile('users', undefined, path, { format: 'jsonl' });
+        // Integers are exported as exact text
+        expect(JSON.parse(readFileSync(path, 'utf8').split('\n')[0])).toEqual({ id: '1', name: 'user1', email: 'user1@example.com' });
+    });
+});
+
+describe('masking', () => {
+    it('masks renamed and computed columns of a masked column', async () => {
+        const service = await open({ masking: { rules: [{ tables: ['users'], columns: ['email'], mode: 'partial' }] } });
+        const rows = await service.executeQuery('SELECT email AS e, upper(email) AS shout, name AS email_owner FROM users WHERE id = 1');
+        expect(rows).toEqual([{ e: 'u***@example.com', shout: 'U***@EXAMPLE.COM', email_owner: 'user1' }]);
+    });
+});